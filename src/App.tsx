@@ -1,12 +1,18 @@
+import { lazy, Suspense } from 'react';
 import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { AuthProvider } from './hooks/useAuth';
 import { ThemeProvider } from './hooks/useTheme';
+import { isMockBackend } from './lib/demo';
 import Layout from './components/Layout';
+import RequirePermission from './components/RequirePermission';
 import Login from './pages/Login';
 import Register from './pages/Register';
+import AuthCallback from './pages/AuthCallback';
+import AcceptInvite from './pages/AcceptInvite';
 import Dashboard from './pages/Dashboard';
 import Clusters from './pages/Clusters';
 import NewCluster from './pages/NewCluster';
+import ClusterSettings from './pages/ClusterSettings';
 import ClusterDetail from './pages/ClusterDetail';
 import Security from './pages/Security';
 import AttackPaths from './pages/AttackPaths';
@@ -21,6 +27,17 @@ import Alerts from './pages/Alerts';
 import NSCompare from './pages/NSCompare';
 import GoldenSignals from './pages/GoldenSignals';
 import AppMesh from './pages/AppMesh';
+import Members from './pages/Members';
+import Audit from './pages/Audit';
+import Compare from './pages/Compare';
+import SnapshotHistory from './pages/SnapshotHistory';
+import SnapshotView from './pages/SnapshotView';
+import SnapshotDiff from './pages/SnapshotDiff';
+import PodDetail from './pages/PodDetail';
+import NodeDetail from './pages/NodeDetail';
+
+// Sign-in page of the mock identity provider, kept out of the main bundle
+const MockOidcAuthorize = lazy(() => import('./mock/OidcAuthorize'));
 
 export default function App() {
   return (
@@ -30,26 +47,41 @@ export default function App() {
         <Routes>
           <Route path="/login" element={<Login />} />
           <Route path="/register" element={<Register />} />
+          <Route path="/auth/callback" element={<AuthCallback />} />
+          <Route path="/invite/:token" element={<AcceptInvite />} />
+          {isMockBackend() && (
+            <Route path="/mock-oidc/authorize" element={<Suspense><MockOidcAuthorize /></Suspense>} />
+          )}
           <Route element={<Layout />}>
             <Route path="/" element={<Dashboard />} />
             <Route path="/clusters" element={<Clusters />} />
-            <Route path="/clusters/new" element={<NewCluster />} />
+            <Route path="/clusters/new" element={<RequirePermission action="cluster:create"><NewCluster /></RequirePermission>} />
+            <Route path="/clusters/:id/settings" element={<ClusterSettings />} />
             {/* Details section */}
             <Route path="/details" element={<ClusterDetail />} />
             <Route path="/details/:id/simulator" element={<Simulator />} />
             <Route path="/details/:id/costs" element={<Costs />} />
             <Route path="/details/:id/timeline" element={<Timeline />} />
+            <Route path="/details/:id/snapshots" element={<SnapshotHistory />} />
+            <Route path="/details/:id/snapshots/diff" element={<SnapshotDiff />} />
+            <Route path="/details/:id/snapshots/:snapshotId" element={<SnapshotView />} />
+            <Route path="/details/:id/pods/:namespace/:name" element={<PodDetail />} />
+            <Route path="/details/:id/nodes/:name" element={<NodeDetail />} />
             <Route path="/details/:id/topology" element={<ClusterMap />} />
             <Route path="/details/:id/heatmap" element={<Heatmap />} />
             <Route path="/details/:id/events" element={<Events />} />
             <Route path="/details/:id/alerts" element={<Alerts />} />
             <Route path="/details/:id/golden-signals" element={<GoldenSignals />} />
             <Route path="/details/:id/app-mesh" element={<AppMesh />} />
+            <Route path="/compare" element={<Compare />} />
             {/* Security section */}
             <Route path="/security" element={<Security />} />
             <Route path="/security/:id/attack-paths" element={<AttackPaths />} />
             <Route path="/security/:id/blast-radius" element={<BlastRadius />} />
             <Route path="/security/:id/ns-compare" element={<NSCompare />} />
+            {/* Organization */}
+            <Route path="/members" element={<Members />} />
+            <Route path="/audit" element={<RequirePermission action="audit:view"><Audit /></RequirePermission>} />
           </Route>
         </Routes>
       </AuthProvider>
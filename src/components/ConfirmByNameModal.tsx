@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { errorMessage } from '../lib/errors';
+
+interface Props {
+  title: string;
+  children: ReactNode;
+  // What the user has to type before the action is enabled
+  name: string;
+  actionLabel: string;
+  onConfirm: () => Promise<void>;
+  onClose: () => void;
+}
+
+// Confirmation for destructive actions that can't be undone. Typing the name
+// makes deleting the wrong cluster by a stray click impossible.
+export default function ConfirmByNameModal({ title, children, name, actionLabel, onConfirm, onClose }: Props) {
+  const [typed, setTyped] = useState('');
+  const [error, setError] = useState('');
+  const [running, setRunning] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (typed !== name) return;
+    setError('');
+    setRunning(true);
+    try {
+      await onConfirm();
+      onClose();
+    } catch (err) {
+      setError(errorMessage(err, `${actionLabel} failed`));
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-navy-950/80 backdrop-blur-sm flex items-center justify-center px-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-surface-800 border border-white/10 rounded-xl p-6 space-y-4"
+      >
+        <div className="flex items-center gap-3">
+          <AlertTriangle className="w-6 h-6 text-red-400 shrink-0" />
+          <h2 className="text-lg font-semibold">{title}</h2>
+        </div>
+        <div className="text-sm text-gray-400">{children}</div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">
+            Type <span className="font-mono text-white">{name}</span> to confirm
+          </label>
+          <input
+            value={typed}
+            onChange={(e) => setTyped(e.target.value)}
+            autoFocus
+            spellCheck={false}
+            className="w-full bg-navy-900 border border-white/10 rounded-lg px-4 py-3 text-sm font-mono focus:outline-none focus:border-red-500 transition-colors"
+          />
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2.5 text-sm text-gray-400 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={typed !== name || running}
+            className="bg-red-500 hover:bg-red-400 text-white font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            {running ? 'Working...' : actionLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
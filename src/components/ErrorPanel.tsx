@@ -0,0 +1,40 @@
+import { AlertOctagon, WifiOff, Lock, RefreshCw } from 'lucide-react';
+import { ApiError, ForbiddenError, NetworkError, errorMessage } from '../lib/errors';
+
+interface Props {
+  error: unknown;
+  title?: string;
+  onRetry?: () => void;
+}
+
+export default function ErrorPanel({ error, title = 'Something went wrong', onRetry }: Props) {
+  const apiError = error instanceof ApiError ? error : null;
+  const Icon = error instanceof NetworkError ? WifiOff : error instanceof ForbiddenError ? Lock : AlertOctagon;
+  const retryable = apiError ? apiError.retryable : true;
+
+  return (
+    <div className="bg-surface-800 border border-red-500/20 rounded-xl p-12 text-center">
+      <Icon className="w-12 h-12 text-red-400 mx-auto mb-4" />
+      <h3 className="text-lg font-semibold mb-2">{title}</h3>
+      <p className="text-gray-400 text-sm">{errorMessage(error)}</p>
+      {apiError && (
+        <p className="text-xs text-gray-500 font-mono mt-2">
+          {apiError.status > 0 && `${apiError.status} · `}{apiError.endpoint}
+        </p>
+      )}
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className={`mt-6 inline-flex items-center gap-2 px-5 py-2.5 rounded-lg text-sm font-semibold transition-colors ${
+            retryable
+              ? 'bg-cyan-500 hover:bg-cyan-400 text-navy-950'
+              : 'bg-surface-700 text-gray-300 hover:text-white'
+          }`}
+        >
+          <RefreshCw className="w-4 h-4" />
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import type { AgentHealth } from '../lib/health';
+
+const styles: Record<AgentHealth, { label: string; className: string }> = {
+  healthy: { label: 'connected', className: 'text-emerald-400 bg-emerald-400/10' },
+  pending: { label: 'pending', className: 'text-yellow-400 bg-yellow-400/10' },
+  stale: { label: 'stale', className: 'text-orange-400 bg-orange-400/10' },
+  offline: { label: 'offline', className: 'text-red-400 bg-red-400/10' },
+};
+
+export default function HealthBadge({ health }: { health: AgentHealth }) {
+  const { label, className } = styles[health];
+  return <span className={`text-xs font-medium px-2.5 py-1 rounded-full whitespace-nowrap ${className}`}>{label}</span>;
+}
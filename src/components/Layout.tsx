@@ -1,10 +1,16 @@
-import { Outlet, Navigate } from 'react-router-dom';
+import { Outlet, Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../hooks/useAuth';
 import { ClusterProvider } from '../hooks/useCluster';
 import Sidebar from './Sidebar';
+import OfflineBanner from './OfflineBanner';
+import ReLoginModal from './ReLoginModal';
+import SchemaDriftBanner from './SchemaDriftBanner';
+import StaleAgentBanner from './StaleAgentBanner';
+import TimeTravel from './TimeTravel';
 
 export default function Layout() {
-  const { user, loading } = useAuth();
+  const { user, loading, sessionExpired } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -14,15 +20,21 @@ export default function Layout() {
     );
   }
 
-  if (!user) return <Navigate to="/login" />;
+  // Login sends the user back here afterwards
+  if (!user) return <Navigate to="/login" state={{ from: location }} replace />;
 
   return (
     <ClusterProvider>
       <div className="min-h-screen">
         <Sidebar />
         <main className="ml-64 p-8">
+          <OfflineBanner />
+          {import.meta.env.DEV && <SchemaDriftBanner />}
+          <StaleAgentBanner />
+          <TimeTravel />
           <Outlet />
         </main>
+        {sessionExpired && <ReLoginModal />}
       </div>
     </ClusterProvider>
   );
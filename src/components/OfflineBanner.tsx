@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react';
+import { WifiOff } from 'lucide-react';
+import { isOnline, subscribeOnline } from '../lib/network';
+
+export default function OfflineBanner() {
+  const online = useSyncExternalStore(subscribeOnline, isOnline);
+
+  if (online) return null;
+
+  return (
+    <div className="mb-6 flex items-center gap-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-300 text-sm rounded-lg px-4 py-3">
+      <WifiOff className="w-4 h-4 text-yellow-400 shrink-0" />
+      <span>
+        <span className="font-semibold">Offline</span> — showing cached data. Pages refresh automatically when the connection returns.
+      </span>
+    </div>
+  );
+}
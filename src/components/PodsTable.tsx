@@ -0,0 +1,218 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowDown, ArrowUp, Columns3, X } from 'lucide-react';
+import type { PodInfo, Snapshot } from '../lib/api';
+import { nodePath } from '../lib/nodes';
+import { podPath } from '../lib/pods';
+import { NO_POD_FILTERS, filterPods, isPodFiltered, podColumns, podFilterOptions, sortPods } from '../lib/podTable';
+import type { PodColumn, PodFilters } from '../lib/podTable';
+import { podSearch } from '../lib/search';
+import { usePodTable } from '../hooks/usePodTable';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import SearchBar from './SearchBar';
+
+const selectClass = 'bg-surface-800 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-cyan-500 transition-colors';
+
+// Rows are kept to one line so every row has this height
+const ROW_HEIGHT = 49;
+
+const statusBadge = (status: string) => (
+  status === 'Running' ? 'text-emerald-400 bg-emerald-400/10' :
+  status === 'Pending' ? 'text-yellow-400 bg-yellow-400/10' :
+  'text-red-400 bg-red-400/10'
+);
+
+// Every pod of a snapshot. Large clusters have thousands, so only the rows in
+// view are rendered.
+export default function PodsTable({ snapshot, pinned = false }: { snapshot: Snapshot; pinned?: boolean }) {
+  const [{ filters, sort, hidden }, update] = usePodTable();
+  const [picking, setPicking] = useState(false);
+
+  // Scrolling re-renders, so only redo these when the pods or choices change
+  const options = useMemo(() => podFilterOptions(snapshot.pods), [snapshot.pods]);
+  const pods = useMemo(() => sortPods(filterPods(snapshot.pods, filters), sort), [snapshot.pods, filters, sort]);
+  const columns = podColumns.filter((c) => !hidden.includes(c.key));
+  const { ref, onScroll, start, end, padTop, padBottom } = useVirtualRows(pods.length, ROW_HEIGHT);
+
+  const filter = (patch: Partial<PodFilters>) => update({ filters: { ...filters, ...patch } });
+  const sortBy = (key: PodColumn) => update({
+    // Numbers start with the largest, since that is usually what you look for
+    sort: sort.key === key ? { key, desc: !sort.desc } : { key, desc: ['cpu', 'memory', 'restarts', 'security'].includes(key) },
+  });
+  const toggleColumn = (key: PodColumn) => update({
+    hidden: hidden.includes(key) ? hidden.filter((k) => k !== key) : [...hidden, key],
+  });
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <SearchBar
+          value={filters.search}
+          onChange={(search) => filter({ search })}
+          items={snapshot.pods}
+          schema={podSearch}
+          placeholder="ns:payments restarts>3 image:*:latest"
+          className="w-80"
+        />
+        <select value={filters.status} onChange={(e) => filter({ status: e.target.value })} className={selectClass}>
+          <option value="">All statuses</option>
+          {options.statuses.map((s) => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <select value={filters.node} onChange={(e) => filter({ node: e.target.value })} className={selectClass}>
+          <option value="">All nodes</option>
+          {options.nodes.map((n) => <option key={n} value={n}>{n}</option>)}
+        </select>
+        <select value={filters.tag} onChange={(e) => filter({ tag: e.target.value })} className={selectClass}>
+          <option value="">All tags</option>
+          {options.tags.map((t) => <option key={t} value={t}>{t}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          Restarts &gt;
+          <input
+            type="number"
+            min={0}
+            value={filters.minRestarts ?? ''}
+            onChange={(e) => filter({ minRestarts: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+            placeholder="any"
+            className={`${selectClass} w-20`}
+          />
+        </label>
+        <FlagFilter label="Root" checked={filters.root} onChange={(root) => filter({ root })} />
+        <FlagFilter label="Privileged" checked={filters.privileged} onChange={(privileged) => filter({ privileged })} />
+        <FlagFilter label="Missing probes" checked={filters.missingProbes} onChange={(missingProbes) => filter({ missingProbes })} />
+        {isPodFiltered(filters) && (
+          <button
+            onClick={() => update({ filters: NO_POD_FILTERS })}
+            className="flex items-center gap-1 text-sm text-gray-400 hover:text-white px-2 py-2 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        )}
+
+        <div className="relative ml-auto">
+          <button
+            onClick={() => setPicking((p) => !p)}
+            className="flex items-center gap-2 text-sm text-gray-400 hover:text-white px-3 py-2 rounded-lg border border-white/10 transition-colors"
+          >
+            <Columns3 className="w-4 h-4" />
+            Columns
+          </button>
+          {picking && (
+            <div className="absolute right-0 mt-2 w-48 bg-surface-800 border border-white/10 rounded-lg p-2 z-20 shadow-xl">
+              {podColumns.map((c) => (
+                <label key={c.key} className="flex items-center gap-2 px-2 py-1.5 text-sm text-gray-300 cursor-pointer rounded hover:bg-white/5">
+                  <input
+                    type="checkbox"
+                    checked={!hidden.includes(c.key)}
+                    // The name links to the pod, so it always stays
+                    disabled={c.key === 'name'}
+                    onChange={() => toggleColumn(c.key)}
+                    className="accent-cyan-500"
+                  />
+                  {c.label}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="text-xs text-gray-500 mb-2">
+        {pods.length === snapshot.pods.length ? `${pods.length} pods` : `${pods.length} of ${snapshot.pods.length} pods`}
+      </div>
+
+      <div ref={ref} onScroll={onScroll} className="bg-surface-800 border border-white/5 rounded-xl overflow-auto max-h-[70vh]">
+        <table className="w-full">
+          <thead className="sticky top-0 bg-surface-800 z-10">
+            <tr className="border-b border-white/5">
+              {columns.map((col) => (
+                <th key={col.key} className={`text-${col.align} text-xs text-gray-400 font-medium px-4 py-3 whitespace-nowrap`}>
+                  <button
+                    onClick={() => sortBy(col.key)}
+                    className={`inline-flex items-center gap-1 hover:text-white transition-colors ${sort.key === col.key ? 'text-white' : ''}`}
+                  >
+                    {col.label}
+                    {sort.key === col.key && (sort.desc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pods.length === 0 && (
+              <tr>
+                <td colSpan={columns.length} className="p-8 text-center text-sm text-gray-500">No pods match these filters</td>
+              </tr>
+            )}
+            {padTop > 0 && <tr style={{ height: padTop }} />}
+            {pods.slice(start, end).map((pod) => (
+              <tr key={`${pod.namespace}/${pod.name}`} style={{ height: ROW_HEIGHT }} className="border-b border-white/5 last:border-0">
+                {columns.map((col) => (
+                  <td key={col.key} className={`px-4 text-sm whitespace-nowrap text-${col.align}`}>
+                    <PodCell pod={pod} column={col.key} clusterId={snapshot.cluster_id} snapshotId={pinned ? snapshot.id : undefined} />
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {padBottom > 0 && <tr style={{ height: padBottom }} />}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function FlagFilter({ label, checked, onChange }: { label: string; checked: boolean; onChange: (checked: boolean) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+      <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="accent-cyan-500" />
+      {label}
+    </label>
+  );
+}
+
+function PodCell({ pod, column, clusterId, snapshotId }: { pod: PodInfo; column: PodColumn; clusterId: string; snapshotId?: string }) {
+  switch (column) {
+    case 'name':
+      return (
+        <Link to={podPath(clusterId, pod, snapshotId)} className="font-medium hover:text-cyan-400 transition-colors">
+          {pod.name}
+        </Link>
+      );
+    case 'namespace':
+      return <span className="text-gray-400">{pod.namespace}</span>;
+    case 'status':
+      return <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${statusBadge(pod.status)}`}>{pod.status}</span>;
+    case 'node':
+      return pod.node_name ? (
+        <Link to={nodePath(clusterId, pod.node_name, snapshotId)} className="text-gray-400 hover:text-cyan-400 transition-colors">
+          {pod.node_name}
+        </Link>
+      ) : (
+        <span className="text-gray-600">-</span>
+      );
+    case 'image':
+      return <span className="text-gray-300 font-mono">{pod.image || '-'}:{pod.image_tag || '-'}</span>;
+    case 'cpu':
+      return <span className="text-gray-400">{pod.cpu_request_millis || 0}m / {pod.cpu_limit_millis || 0}m</span>;
+    case 'memory':
+      return (
+        <span className="text-gray-400">
+          {Math.round((pod.mem_request_bytes || 0) / 1048576)}Mi / {Math.round((pod.mem_limit_bytes || 0) / 1048576)}Mi
+        </span>
+      );
+    case 'restarts':
+      return <span className={pod.restart_count > 3 ? 'text-red-400' : 'text-gray-400'}>{pod.restart_count}</span>;
+    case 'security': {
+      const flags = [pod.run_as_root && 'root', pod.privileged && 'privileged', pod.host_network && 'host network', pod.host_pid && 'host PID']
+        .filter((f): f is string => !!f);
+      return flags.length === 0 ? <span className="text-gray-600">-</span> : <span className="text-red-400">{flags.join(', ')}</span>;
+    }
+    case 'probes': {
+      const missing = [!pod.has_liveness_probe && 'liveness', !pod.has_readiness_probe && 'readiness'].filter((f): f is string => !!f);
+      return missing.length === 0 ? <span className="text-emerald-400">both</span> : <span className="text-yellow-400">no {missing.join(', ')}</span>;
+    }
+  }
+}
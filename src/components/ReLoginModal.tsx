@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { KeyRound, Lock } from 'lucide-react';
+import { errorMessage } from '../lib/errors';
+import { useAuth } from '../hooks/useAuth';
+
+// Shown over the current page when the session can no longer be refreshed.
+// Requests made meanwhile wait and resume once the user has signed in again.
+// SSO sessions have to leave for the identity provider, so only the route survives.
+export default function ReLoginModal() {
+  const { user, sessionKind, login, loginWithSso, logout } = useAuth();
+  const location = useLocation();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+    setError('');
+    setLoading(true);
+    try {
+      await login(user.email, password);
+      setPassword('');
+    } catch (err) {
+      setError(errorMessage(err, 'Login failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSso = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      await loginWithSso(`${location.pathname}${location.search}${location.hash}`);
+    } catch (err) {
+      setError(errorMessage(err, 'Single sign-on failed'));
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-navy-950/80 backdrop-blur-sm flex items-center justify-center px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-surface-800 border border-white/10 rounded-xl p-8 space-y-5">
+        <div className="text-center">
+          <Lock className="w-10 h-10 text-cyan-400 mx-auto mb-3" />
+          <h2 className="text-lg font-semibold">Your session has expired</h2>
+          <p className="text-gray-400 text-sm mt-1">Sign in again to pick up where you left off</p>
+        </div>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3">
+            {error}
+          </div>
+        )}
+
+        {sessionKind === 'sso' ? (
+          <button
+            type="button"
+            onClick={handleSso}
+            disabled={loading}
+            className="w-full flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold py-3 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <KeyRound className="w-4 h-4" />
+            Sign in with SSO
+          </button>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Email</label>
+              <input
+                type="email"
+                value={user?.email || ''}
+                readOnly
+                className="w-full bg-navy-900 border border-white/10 rounded-lg px-4 py-3 text-sm text-gray-400"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Password</label>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                autoFocus
+                className="w-full bg-navy-900 border border-white/10 rounded-lg px-4 py-3 text-sm focus:outline-none focus:border-cyan-500 transition-colors"
+                placeholder="Enter your password"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold py-3 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {loading ? 'Signing in...' : 'Sign In'}
+            </button>
+          </>
+        )}
+
+        <button
+          type="button"
+          onClick={logout}
+          className="w-full text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Sign out instead
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import type { ReactNode } from 'react';
+import { Lock } from 'lucide-react';
+import { requiredRole } from '../lib/permissions';
+import type { Action } from '../lib/permissions';
+import { useAuth } from '../hooks/useAuth';
+
+// Route guard for pages that only make sense with a given permission
+export default function RequirePermission({ action, children }: { action: Action; children: ReactNode }) {
+  const { can, org } = useAuth();
+  if (can(action)) return children;
+
+  return (
+    <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+      <Lock className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+      <h3 className="text-lg font-semibold mb-2">You don't have access to this page</h3>
+      <p className="text-gray-400 text-sm">
+        This needs the {requiredRole(action)} role{org ? ` in ${org.name}` : ''}. Ask an admin to change your role.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import { useState, useSyncExternalStore } from 'react';
+import { FileWarning, X } from 'lucide-react';
+import { clearSchemaDrift, getSchemaDrift, subscribeSchemaDrift } from '../lib/validation';
+
+// Dev-only: lists every endpoint whose response did not match its schema
+export default function SchemaDriftBanner() {
+  const drift = useSyncExternalStore(subscribeSchemaDrift, getSchemaDrift);
+  const [expanded, setExpanded] = useState(false);
+
+  if (drift.length === 0) return null;
+
+  return (
+    <div className="mb-6 bg-yellow-500/10 border border-yellow-500/20 rounded-lg px-4 py-3 text-sm">
+      <div className="flex items-center gap-3">
+        <FileWarning className="w-4 h-4 text-yellow-400 shrink-0" />
+        <span className="text-yellow-300 flex-1">
+          Schema drift: {drift.length} endpoint{drift.length !== 1 && 's'} returned data that does not match <span className="font-mono">schemas.ts</span>
+        </span>
+        <button onClick={() => setExpanded(!expanded)} className="text-xs text-yellow-400 hover:text-yellow-300">
+          {expanded ? 'Hide' : 'Details'}
+        </button>
+        <button onClick={clearSchemaDrift} className="text-yellow-400 hover:text-yellow-300">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {drift.map((d) => (
+            <div key={d.endpoint}>
+              <div className="font-mono text-xs text-gray-300">{d.endpoint}</div>
+              <ul className="mt-1 space-y-0.5">
+                {d.issues.map((issue, i) => (
+                  <li key={i} className="font-mono text-xs text-gray-500">
+                    <span className="text-yellow-400">{issue.path}</span>: expected {issue.expected}, received {issue.received}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useMemo, useRef, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { compileQuery, suggest } from '../lib/search';
+import type { SearchSchema } from '../lib/search';
+
+interface Props<T> {
+  value: string;
+  onChange: (query: string) => void;
+  // Autocomplete offers the values these items have
+  items: T[];
+  schema: SearchSchema<T>;
+  placeholder?: string;
+  className?: string;
+}
+
+// Query input for lib/search with field and value autocomplete
+export default function SearchBar<T>({ value, onChange, items, schema, placeholder, className = '' }: Props<T>) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(0);
+
+  // Lists like the pods table re-render on scroll, so only redo these on input
+  const suggestions = useMemo(() => (open ? suggest(value, items, schema) : []), [open, value, items, schema]);
+  const { errors } = useMemo(() => compileQuery(value, schema), [value, schema]);
+
+  const change = (query: string) => {
+    onChange(query);
+    setActive(0);
+    setOpen(true);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setOpen(false);
+    } else if (suggestions.length > 0 && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActive((active + step + suggestions.length) % suggestions.length);
+    } else if (suggestions.length > 0 && (e.key === 'Enter' || e.key === 'Tab')) {
+      e.preventDefault();
+      change(suggestions[Math.min(active, suggestions.length - 1)].query);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <Search className="w-4 h-4 text-gray-500 absolute left-3 top-2.5 pointer-events-none" />
+      <input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => change(e.target.value)}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        placeholder={placeholder}
+        spellCheck={false}
+        className="w-full bg-surface-800 border border-white/10 rounded-lg pl-9 pr-8 py-2 text-sm font-mono focus:outline-none focus:border-cyan-500 transition-colors"
+      />
+      {value && (
+        <button
+          onClick={() => change('')}
+          className="absolute right-2 top-2 p-0.5 text-gray-500 hover:text-white transition-colors"
+          title="Clear search"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 mt-1 bg-surface-800 border border-white/10 rounded-lg py-1 z-30 shadow-xl">
+          {suggestions.map((s, i) => (
+            <button
+              key={s.query}
+              // Keep focus in the input so typing can carry on
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => { change(s.query); inputRef.current?.focus(); }}
+              className={`w-full text-left px-3 py-1.5 text-sm font-mono transition-colors ${
+                i === active ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-300 hover:bg-white/5'
+              }`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="text-xs text-red-400 mt-1">{errors.join(' · ')}</div>
+      )}
+    </div>
+  );
+}
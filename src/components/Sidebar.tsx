@@ -1,18 +1,30 @@
 import { NavLink } from 'react-router-dom';
-import { LayoutDashboard, Server, Shield, LogOut, Radar, Sun, Moon, Monitor, Plus, ChevronDown } from 'lucide-react';
+import { LayoutDashboard, Server, Shield, LogOut, Radar, Sun, Moon, Monitor, Plus, ChevronDown, Building2, Users, ScrollText, GitCompare } from 'lucide-react';
+import type { Cluster } from '../lib/api';
+import { NO_FILTERS, filterClusters, groupClusters, isFiltered } from '../lib/clusters';
+import { isDemoMode, isMockBackend } from '../lib/demo';
+import type { LiveStatus } from '../lib/live';
 import { useAuth } from '../hooks/useAuth';
 import { useTheme } from '../hooks/useTheme';
 import { useCluster } from '../hooks/useCluster';
 
 export default function Sidebar() {
-  const { user, logout } = useAuth();
+  const { user, logout, org, role, selectOrg, can } = useAuth();
   const { mode, setMode } = useTheme();
-  const { clusters, selected, selectCluster } = useCluster();
+  const { clusters, selected, selectCluster, view, updateView, liveStatus } = useCluster();
+  // The Clusters page filters apply here too, but the selected cluster always stays listed
+  const matching = filterClusters(clusters, view);
+  const options = selected && !matching.includes(selected) ? [selected, ...matching] : matching;
+  const groups = groupClusters(options, view.groupBy);
 
   const links = [
     { to: '/', icon: LayoutDashboard, label: 'Dashboard' },
     { to: '/details', icon: Server, label: 'Details' },
     { to: '/security', icon: Shield, label: 'Security' },
+    { to: '/compare', icon: GitCompare, label: 'Compare' },
+    // Only meaningful when the backend has organizations
+    ...(org ? [{ to: '/members', icon: Users, label: 'Members' }] : []),
+    ...(org && can('audit:view') ? [{ to: '/audit', icon: ScrollText, label: 'Audit Log' }] : []),
   ];
 
   const themes = [
@@ -27,9 +39,42 @@ export default function Sidebar() {
         <div className="flex items-center gap-2">
           <Radar className="w-8 h-8 text-cyan-400" />
           <span className="text-xl font-bold">Infradar</span>
+          {isMockBackend() && (
+            <span className="ml-auto text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full text-cyan-400 bg-cyan-400/10">
+              {isDemoMode() ? 'Demo' : 'Mock'}
+            </span>
+          )}
         </div>
       </div>
 
+      {/* Org Selector */}
+      {user && user.orgs.length > 0 && (
+        <div className="px-4 pt-4">
+          <label className="text-xs text-gray-500 block mb-1.5 px-1">Organization</label>
+          {user.orgs.length > 1 ? (
+            <div className="relative">
+              <select
+                value={org?.id || ''}
+                onChange={(e) => selectOrg(e.target.value)}
+                className="w-full bg-surface-800 border border-white/10 rounded-lg px-3 py-2.5 text-sm font-medium appearance-none cursor-pointer focus:outline-none focus:border-cyan-500 transition-colors pr-8"
+              >
+                {user.orgs.map((o) => (
+                  <option key={o.id} value={o.id}>
+                    {o.name}
+                  </option>
+                ))}
+              </select>
+              <ChevronDown className="w-4 h-4 text-gray-400 absolute right-2.5 top-1/2 -translate-y-1/2 pointer-events-none" />
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 px-3 py-2.5 text-sm font-medium">
+              <Building2 className="w-4 h-4 text-gray-400" />
+              {org?.name}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Cluster Selector */}
       <div className="px-4 pt-4 pb-2">
         <label className="text-xs text-gray-500 block mb-1.5 px-1">Cluster</label>
@@ -40,15 +85,17 @@ export default function Sidebar() {
               onChange={(e) => selectCluster(e.target.value)}
               className="w-full bg-surface-800 border border-white/10 rounded-lg px-3 py-2.5 text-sm font-medium appearance-none cursor-pointer focus:outline-none focus:border-cyan-500 transition-colors pr-8"
             >
-              {clusters.map((c) => (
-                <option key={c.id} value={c.id}>
-                  {c.name} ({c.provider.toUpperCase()})
-                </option>
-              ))}
+              {view.groupBy === 'none'
+                ? options.map((c) => <ClusterOption key={c.id} cluster={c} />)
+                : groups.map((group) => (
+                  <optgroup key={group.key} label={group.label}>
+                    {group.clusters.map((c) => <ClusterOption key={c.id} cluster={c} />)}
+                  </optgroup>
+                ))}
             </select>
             <ChevronDown className="w-4 h-4 text-gray-400 absolute right-2.5 top-1/2 -translate-y-1/2 pointer-events-none" />
           </div>
-        ) : (
+        ) : can('cluster:create') && (
           <NavLink
             to="/clusters/new"
             className="flex items-center gap-2 px-3 py-2.5 rounded-lg text-sm font-medium text-cyan-400 bg-cyan-500/10 border border-cyan-500/20"
@@ -57,6 +104,18 @@ export default function Sidebar() {
             Add Cluster
           </NavLink>
         )}
+        {isFiltered(view) && clusters.length > 0 && (
+          <div className="flex items-center gap-2 px-1 mt-2 text-xs text-gray-500">
+            Filtered: {matching.length} of {clusters.length}
+            <button
+              onClick={() => updateView(NO_FILTERS)}
+              className="ml-auto text-cyan-400 hover:text-cyan-300 transition-colors"
+            >
+              Show all
+            </button>
+          </div>
+        )}
+        {selected && <LiveIndicator status={liveStatus} />}
       </div>
 
       <nav className="flex-1 p-4 space-y-1">
@@ -99,15 +158,47 @@ export default function Sidebar() {
           ))}
         </div>
 
-        <div className="text-xs text-gray-500 truncate px-4">{user?.email}</div>
+        <div className="flex items-center gap-2 px-4">
+          <span className="text-xs text-gray-500 truncate">{user?.email}</span>
+          {role && (
+            <span className="ml-auto text-[10px] font-semibold uppercase tracking-wider px-2 py-0.5 rounded-full text-gray-400 bg-white/5">
+              {role}
+            </span>
+          )}
+        </div>
         <button
           onClick={logout}
           className="flex items-center gap-3 px-4 py-3 rounded-lg text-sm font-medium text-gray-400 hover:text-white hover:bg-white/5 transition-colors w-full"
         >
           <LogOut className="w-5 h-5" />
-          Logout
+          {isDemoMode() ? 'Exit demo' : 'Logout'}
         </button>
       </div>
     </aside>
   );
 }
+
+function ClusterOption({ cluster }: { cluster: Cluster }) {
+  return (
+    <option value={cluster.id}>
+      {cluster.name} ({cluster.provider.toUpperCase()})
+    </option>
+  );
+}
+
+function LiveIndicator({ status }: { status: LiveStatus }) {
+  const styles: Record<LiveStatus, { dot: string; label: string }> = {
+    live: { dot: 'bg-emerald-400 animate-pulse', label: 'Live' },
+    connecting: { dot: 'bg-yellow-400', label: 'Connecting...' },
+    reconnecting: { dot: 'bg-yellow-400 animate-pulse', label: 'Reconnecting...' },
+    idle: { dot: 'bg-gray-500', label: 'Not connected' },
+  };
+  const { dot, label } = styles[status];
+
+  return (
+    <div className="flex items-center gap-2 px-1 mt-2 text-xs text-gray-500">
+      <span className={`w-2 h-2 rounded-full ${dot}`} />
+      {label}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { Link } from 'react-router-dom';
+import { Server, Cpu, HardDrive, Activity, AlertTriangle } from 'lucide-react';
+import { PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
+import type { Snapshot } from '../lib/api';
+import { nodePath } from '../lib/nodes';
+import PodsTable from './PodsTable';
+
+// Overview, nodes and pods of one snapshot. The Details page shows the latest
+// snapshot with them, the snapshot history any earlier one.
+
+export type SnapshotTab = 'overview' | 'nodes' | 'pods';
+
+export function SnapshotTabBar({ snapshot, tab, onChange }: {
+  snapshot: Snapshot | null | undefined;
+  tab: SnapshotTab;
+  onChange: (tab: SnapshotTab) => void;
+}) {
+  const tabs = [
+    { key: 'overview', label: 'Overview' },
+    { key: 'nodes', label: `Nodes (${snapshot?.summary?.node_count || 0})` },
+    { key: 'pods', label: `Pods (${snapshot?.summary?.pod_count || 0})` },
+  ] as const;
+
+  return (
+    <div className="flex gap-1 mb-6 bg-surface-900 rounded-lg p-1 w-fit">
+      {tabs.map((t) => (
+        <button
+          key={t.key}
+          onClick={() => onChange(t.key)}
+          className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+            tab === t.key ? 'bg-surface-700 text-white' : 'text-gray-400 hover:text-white'
+          }`}
+        >
+          {t.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// `pinned` makes pod and node links open this snapshot rather than the latest
+export default function SnapshotTabs({ snapshot, tab, pinned = false }: { snapshot: Snapshot; tab: SnapshotTab; pinned?: boolean }) {
+  return (
+    <>
+      {tab === 'overview' && <OverviewTab snapshot={snapshot} />}
+      {tab === 'nodes' && <NodesTab snapshot={snapshot} pinned={pinned} />}
+      {tab === 'pods' && <PodsTable snapshot={snapshot} pinned={pinned} />}
+    </>
+  );
+}
+
+function OverviewTab({ snapshot }: { snapshot: Snapshot }) {
+  const s = snapshot.summary;
+
+  const cpuUtil = Math.round((s.cpu_utilization_percent ?? 0) * 100) / 100;
+  const memUtil = Math.round((s.mem_utilization_percent ?? 0) * 100) / 100;
+
+  const cpuData = [
+    { name: 'Used', value: cpuUtil },
+    { name: 'Free', value: 100 - cpuUtil },
+  ];
+  const memData = [
+    { name: 'Used', value: memUtil },
+    { name: 'Free', value: 100 - memUtil },
+  ];
+
+  const formatCpu = (millis: number) => millis >= 1000 ? `${(millis / 1000).toFixed(1)} cores` : `${millis}m`;
+  const formatMem = (bytes: number) => {
+    if (bytes >= 1073741824) return `${(bytes / 1073741824).toFixed(1)} Gi`;
+    return `${Math.round(bytes / 1048576)} Mi`;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Stats row */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <StatCard icon={<Server className="w-5 h-5 text-cyan-400" />} label="Nodes" value={s.node_count} sub="total" />
+        <StatCard icon={<Activity className="w-5 h-5 text-emerald-400" />} label="Pods" value={s.pod_count} sub="total" />
+        <StatCard icon={<Cpu className="w-5 h-5 text-purple-400" />} label="CPU Usage" value={`${cpuUtil.toFixed(2)}%`} sub={`${formatCpu(s.total_cpu_usage_millis)} / ${formatCpu(s.total_cpu_request_millis)}`} />
+        <StatCard icon={<HardDrive className="w-5 h-5 text-orange-400" />} label="Memory Usage" value={`${memUtil.toFixed(2)}%`} sub={`${formatMem(s.total_mem_usage_bytes)} / ${formatMem(s.total_mem_request_bytes)}`} />
+      </div>
+
+      {/* Charts row */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
+          <h3 className="text-sm font-medium text-gray-400 mb-4">CPU Utilization</h3>
+          <UtilizationChart data={cpuData} value={cpuUtil} color="#a855f7" />
+        </div>
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
+          <h3 className="text-sm font-medium text-gray-400 mb-4">Memory Utilization</h3>
+          <UtilizationChart data={memData} value={memUtil} color="#f97316" />
+        </div>
+      </div>
+
+      {/* Security warnings */}
+      {(s.run_as_root_pods > 0 || s.latest_tag_pods > 0) && (
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
+          <h3 className="text-sm font-medium text-gray-400 mb-4 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-400" />
+            Warnings
+          </h3>
+          <div className="space-y-2">
+            {s.run_as_root_pods > 0 && (
+              <div className="flex items-start gap-3 text-sm text-yellow-300 bg-yellow-400/5 rounded-lg px-4 py-3">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {s.run_as_root_pods} pod(s) running as root
+              </div>
+            )}
+            {s.latest_tag_pods > 0 && (
+              <div className="flex items-start gap-3 text-sm text-yellow-300 bg-yellow-400/5 rounded-lg px-4 py-3">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {s.latest_tag_pods} pod(s) using :latest tag
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NodesTab({ snapshot, pinned }: { snapshot: Snapshot; pinned: boolean }) {
+  const fmtCpu = (m: number) => m >= 1000 ? `${(m / 1000).toFixed(1)} cores` : `${m}m`;
+  const fmtMem = (b: number) => b >= 1073741824 ? `${(b / 1073741824).toFixed(1)}Gi` : `${Math.round(b / 1048576)}Mi`;
+
+  return (
+    <div className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden">
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-white/5">
+            <th className="text-left text-xs text-gray-400 font-medium p-4">Name</th>
+            <th className="text-left text-xs text-gray-400 font-medium p-4">Status</th>
+            <th className="text-left text-xs text-gray-400 font-medium p-4">Version</th>
+            <th className="text-left text-xs text-gray-400 font-medium p-4">CPU Capacity</th>
+            <th className="text-left text-xs text-gray-400 font-medium p-4">Memory</th>
+            <th className="text-left text-xs text-gray-400 font-medium p-4">Pods</th>
+          </tr>
+        </thead>
+        <tbody>
+          {snapshot.nodes.map((node) => (
+            <tr key={node.name} className="border-b border-white/5 last:border-0">
+              <td className="p-4 font-medium text-sm">
+                <Link to={nodePath(snapshot.cluster_id, node.name, pinned ? snapshot.id : undefined)} className="hover:text-cyan-400 transition-colors">
+                  {node.name}
+                </Link>
+              </td>
+              <td className="p-4">
+                {node.ready ? (
+                  <span className="text-xs font-medium px-2.5 py-1 rounded-full text-emerald-400 bg-emerald-400/10">Ready</span>
+                ) : (
+                  <span className="text-xs font-medium px-2.5 py-1 rounded-full text-red-400 bg-red-400/10">NotReady</span>
+                )}
+              </td>
+              <td className="p-4 text-sm text-gray-400">{node.kubelet_version || '-'}</td>
+              <td className="p-4 text-sm text-gray-300">{fmtCpu(node.cpu_capacity_millis)}</td>
+              <td className="p-4 text-sm text-gray-300">{fmtMem(node.memory_capacity_bytes)}</td>
+              <td className="p-4 text-sm text-gray-300">{node.pod_count}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function UtilizationChart({ data, value, color }: { data: { name: string; value: number }[]; value: number; color: string }) {
+  return (
+    <div className="relative">
+      <ResponsiveContainer width="100%" height={140}>
+        <PieChart>
+          <Pie
+            data={data}
+            cx="50%"
+            cy="50%"
+            innerRadius={50}
+            outerRadius={65}
+            startAngle={90}
+            endAngle={-270}
+            dataKey="value"
+          >
+            <Cell fill={color} />
+            <Cell fill="#1e2235" />
+          </Pie>
+        </PieChart>
+      </ResponsiveContainer>
+      <div className="absolute inset-0 flex items-center justify-center">
+        <span className="text-lg font-bold">{Number.isInteger(value) ? value : value.toFixed(2)}%</span>
+      </div>
+    </div>
+  );
+}
+
+function StatCard({ icon, label, value, sub }: { icon: React.ReactNode; label: string; value: string | number; sub?: string }) {
+  return (
+    <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
+      <div className="flex items-center gap-3 mb-3">
+        {icon}
+        <span className="text-sm text-gray-400">{label}</span>
+      </div>
+      <div className="text-2xl font-bold">{value}</div>
+      {sub && <div className="text-xs text-gray-500 mt-1">{sub}</div>}
+    </div>
+  );
+}
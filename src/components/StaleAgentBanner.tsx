@@ -0,0 +1,37 @@
+import { Link } from 'react-router-dom';
+import { HeartPulse } from 'lucide-react';
+import { agentHealth, formatAge } from '../lib/health';
+import { useCluster } from '../hooks/useCluster';
+import { useNow } from '../hooks/useNow';
+
+// Every analysis page shows its cluster's last snapshot. When its agent
+// stopped reporting, say so instead of passing old data off as current.
+export default function StaleAgentBanner() {
+  const { clusters, viewedClusterId } = useCluster();
+  const cluster = clusters.find((c) => c.id === viewedClusterId);
+  const now = useNow();
+
+  if (!cluster) return null;
+  const health = agentHealth(cluster, now);
+  if (health !== 'stale' && health !== 'offline') return null;
+
+  const offline = health === 'offline';
+  const age = cluster.last_seen_at ? formatAge(now - Date.parse(cluster.last_seen_at)) : null;
+
+  return (
+    <div
+      className={`mb-6 flex items-center gap-3 text-sm rounded-lg px-4 py-3 border ${
+        offline ? 'bg-red-500/10 border-red-500/20 text-red-300' : 'bg-yellow-500/10 border-yellow-500/20 text-yellow-300'
+      }`}
+    >
+      <HeartPulse className={`w-4 h-4 shrink-0 ${offline ? 'text-red-400' : 'text-yellow-400'}`} />
+      <span>
+        <span className="font-semibold">{offline ? 'Agent offline' : 'Agent not reporting'}</span> — {cluster.name}
+        {age ? ` last reported ${age}` : ' has no working agent'}. Data shown here may be out of date.
+      </span>
+      <Link to={`/clusters/${cluster.id}/settings`} className="ml-auto shrink-0 font-medium hover:underline">
+        Check agent
+      </Link>
+    </div>
+  );
+}
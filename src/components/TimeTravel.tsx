@@ -0,0 +1,70 @@
+import { useLocation } from 'react-router-dom';
+import { History } from 'lucide-react';
+import { formatAge } from '../lib/health';
+import { setAsOf } from '../lib/timeTravel';
+import { useSnapshots } from '../hooks/useApi';
+import { useAsOf } from '../hooks/useAsOf';
+import { useCluster } from '../hooks/useCluster';
+import { useNow } from '../hooks/useNow';
+
+// The snapshot pages already show one snapshot of their own choosing
+function isAnalysisPage(pathname: string) {
+  return /^\/(details|security)(\/|$)/.test(pathname) && !/\/snapshots(\/|$)/.test(pathname);
+}
+
+// "As of" selector above every analysis page. Picking a past snapshot points
+// every analysis of the cluster at it until the user goes back to latest.
+export default function TimeTravel() {
+  const { pathname } = useLocation();
+  const { viewedClusterId } = useCluster();
+  const clusterId = isAnalysisPage(pathname) ? viewedClusterId : undefined;
+  const { data = [] } = useSnapshots(clusterId);
+  const at = useAsOf(clusterId);
+  const now = useNow();
+
+  if (!clusterId || data.length === 0) return null;
+
+  // Newest first; the newest one is "Latest"
+  const snapshots = [...data].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const picked = at ? snapshots.find((s) => s.id === at) : undefined;
+  const pick = (snapshotId: string) => setAsOf(clusterId, snapshotId === snapshots[0].id ? null : snapshotId || null);
+
+  return (
+    <>
+      <div className="flex items-center justify-end gap-2 mb-4 text-sm">
+        <History className="w-4 h-4 text-gray-500" />
+        <label htmlFor="as-of" className="text-gray-400">As of</label>
+        <select
+          id="as-of"
+          value={at ?? ''}
+          onChange={(e) => pick(e.target.value)}
+          className="bg-surface-800 border border-white/10 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-cyan-500 transition-colors"
+        >
+          <option value="">Latest</option>
+          {at && !picked && <option value={at}>Snapshot no longer kept</option>}
+          {snapshots.slice(1).map((s) => (
+            <option key={s.id} value={s.id}>
+              {new Date(s.created_at).toLocaleString()} ({formatAge(now - Date.parse(s.created_at))})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {at && (
+        <div className="mb-6 flex items-center gap-3 text-sm rounded-lg px-4 py-3 border bg-violet-500/10 border-violet-500/20 text-violet-300">
+          <History className="w-4 h-4 shrink-0 text-violet-400" />
+          <span>
+            <span className="font-semibold">Viewing historical data</span> —{' '}
+            {picked
+              ? `as of ${new Date(picked.created_at).toLocaleString()} (${formatAge(now - Date.parse(picked.created_at))}).`
+              : 'the snapshot picked is no longer kept.'}{' '}
+            Every analysis shows the cluster as it was then.
+          </span>
+          <button onClick={() => setAsOf(clusterId, null)} className="ml-auto shrink-0 font-medium hover:underline">
+            Back to latest
+          </button>
+        </div>
+      )}
+    </>
+  );
+}
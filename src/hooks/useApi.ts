@@ -0,0 +1,196 @@
+import { api } from '../lib/api';
+import type { AuditFilters } from '../lib/api';
+import { isNotFound } from '../lib/errors';
+import type { FleetData } from '../lib/fleet';
+import { queryKeys } from '../lib/queries';
+import { useAsOf } from './useAsOf';
+import { useAuth } from './useAuth';
+import { useQueries, useQuery } from './useQuery';
+import type { QueryOptions } from './useQuery';
+
+// Data hooks for every read endpoint. A missing id skips the request.
+
+// Snapshot-derived endpoints 404 until the agent has reported; that is an
+// empty state, not an error.
+function orEmpty<T, E>(promise: Promise<T>, empty: E): Promise<T | E> {
+  return promise.catch((err) => {
+    if (isNotFound(err)) return empty;
+    throw err;
+  });
+}
+
+// Scoped to the org picked in the sidebar
+export function useClusters() {
+  const orgId = useAuth().org?.id ?? null;
+  return useQuery(queryKeys.clusterList(orgId), (signal) => api.getClusters(orgId, { signal }));
+}
+
+export function useClusterById(id: string | undefined, opts: QueryOptions = {}) {
+  return useQuery(id ? queryKeys.cluster(id) : null, (signal) => api.getCluster(id!, { signal }), opts);
+}
+
+// The snapshot picked in the time-travel selector, the latest one by default
+export function useLatestSnapshot(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(
+    id ? (at ? queryKeys.snapshot(id, at) : queryKeys.latestSnapshot(id)) : null,
+    (signal) => orEmpty(at ? api.getSnapshot(id!, at, { signal }) : api.getLatestSnapshot(id!, { signal }), null),
+  );
+}
+
+export function useSnapshots(id: string | undefined) {
+  return useQuery(id ? queryKeys.snapshots(id) : null, (signal) => orEmpty(api.getSnapshots(id!, { signal }), []));
+}
+
+// A past snapshot that doesn't exist is an error, unlike a missing latest one
+export function useSnapshot(id: string | undefined, snapshotId: string | undefined) {
+  return useQuery(id && snapshotId ? queryKeys.snapshot(id, snapshotId) : null, (signal) => api.getSnapshot(id!, snapshotId!, { signal }));
+}
+
+// Pages linked from a past snapshot name it; the rest follow the latest or as-of one
+export function useSnapshotOrLatest(id: string | undefined, snapshotId: string | undefined) {
+  const latest = useLatestSnapshot(snapshotId ? undefined : id);
+  const pinned = useSnapshot(id, snapshotId);
+  return snapshotId ? pinned : latest;
+}
+
+export function useSecurityReport(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.security(id, at) : null, (signal) => orEmpty(api.getSecurityReport(id!, at, { signal }), null));
+}
+
+export function useAttackPaths(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.attackPaths(id, at) : null, (signal) => orEmpty(api.getAttackPaths(id!, at, { signal }), null));
+}
+
+export function useCosts(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.costs(id, at) : null, (signal) => orEmpty(api.getCosts(id!, at, { signal }), null));
+}
+
+export function useTimeline(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.timeline(id, at) : null, (signal) => orEmpty(api.getTimeline(id!, at, { signal }), []));
+}
+
+export function useTopology(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.topology(id, at) : null, (signal) => orEmpty(api.getTopology(id!, at, { signal }), null));
+}
+
+export function useHeatmap(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.heatmap(id, at) : null, (signal) => orEmpty(api.getHeatmap(id!, at, { signal }), null));
+}
+
+export function useEvents(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.events(id, at) : null, (signal) => orEmpty(api.getEvents(id!, at, { signal }), null));
+}
+
+export function useAlerts(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.alerts(id, at) : null, (signal) => orEmpty(api.getAlerts(id!, at, { signal }), null));
+}
+
+export function useNSCompare(id: string | undefined, ns1?: string, ns2?: string) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.nsCompare(id, ns1, ns2, at) : null, (signal) => orEmpty(api.getNSCompare(id!, ns1, ns2, at, { signal }), null));
+}
+
+export function useGoldenSignals(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.goldenSignals(id, at) : null, (signal) => orEmpty(api.getGoldenSignals(id!, at, { signal }), null));
+}
+
+export function useServiceMesh(id: string | undefined) {
+  const at = useAsOf(id);
+  return useQuery(id ? queryKeys.serviceMesh(id, at) : null, (signal) => orEmpty(api.getServiceMesh(id!, at, { signal }), null));
+}
+
+export function useBlastRadius(id: string | undefined, targetType: string, target: string, namespace?: string) {
+  const at = useAsOf(id);
+  return useQuery(
+    id && target ? queryKeys.blastRadius(id, targetType, target, namespace, at) : null,
+    (signal) => api.getBlastRadius(id!, targetType, target, namespace, at, { signal }),
+  );
+}
+
+// Per-cluster data for the fleet overview and the cluster comparison, shared
+// with the per-cluster pages through the same keys. Always the latest state,
+// whatever snapshot the time-travel selector is on.
+
+const securityQueries = (ids: string[]) => ids.map((id) => ({
+  queryKey: queryKeys.security(id),
+  fn: (signal: AbortSignal) => orEmpty(api.getSecurityReport(id, undefined, { signal }), null),
+}));
+
+const costQueries = (ids: string[]) => ids.map((id) => ({
+  queryKey: queryKeys.costs(id),
+  fn: (signal: AbortSignal) => orEmpty(api.getCosts(id, undefined, { signal }), null),
+}));
+
+// The fleet can be large, so sizes come from the timeline's summaries rather
+// than from full snapshots with every pod and node
+export function useFleet(ids: string[]): FleetData[] {
+  const security = useQueries(securityQueries(ids));
+  const costs = useQueries(costQueries(ids));
+  const alerts = useQueries(ids.map((id) => ({
+    queryKey: queryKeys.alerts(id),
+    fn: (signal: AbortSignal) => orEmpty(api.getAlerts(id, undefined, { signal }), null),
+  })));
+  const timelines = useQueries(ids.map((id) => ({
+    queryKey: queryKeys.timeline(id),
+    fn: (signal: AbortSignal) => orEmpty(api.getTimeline(id, undefined, { signal }), []),
+  })));
+
+  return ids.map((_, i) => ({
+    security: security[i].data,
+    costs: costs[i].data,
+    alerts: alerts[i].data,
+    timeline: timelines[i].data,
+    loading: [security, costs, alerts, timelines].some((results) => results[i].loading),
+  }));
+}
+
+// Compare lines up nodes and pods too, but only for its few clusters
+export function useComparedClusters(ids: string[]) {
+  const snapshots = useQueries(ids.map((id) => ({
+    queryKey: queryKeys.latestSnapshot(id),
+    fn: (signal: AbortSignal) => orEmpty(api.getLatestSnapshot(id, { signal }), null),
+  })));
+  const security = useQueries(securityQueries(ids));
+  const costs = useQueries(costQueries(ids));
+
+  return ids.map((_, i) => ({
+    snapshot: snapshots[i].data,
+    security: security[i].data,
+    costs: costs[i].data,
+    loading: [snapshots, security, costs].some((results) => results[i].loading),
+  }));
+}
+
+export function useHeartbeats(id: string | undefined) {
+  return useQuery(id ? queryKeys.heartbeats(id) : null, (signal) => api.getHeartbeats(id!, { signal }));
+}
+
+export function useApiKeys(id: string | undefined) {
+  return useQuery(id ? queryKeys.apiKeys(id) : null, (signal) => api.getApiKeys(id!, { signal }));
+}
+
+export function useMembers(orgId: string | undefined) {
+  return useQuery(orgId ? queryKeys.members(orgId) : null, (signal) => api.getMembers(orgId!, { signal }));
+}
+
+export function useInvites(orgId: string | undefined) {
+  return useQuery(orgId ? queryKeys.invites(orgId) : null, (signal) => api.getInvites(orgId!, { signal }));
+}
+
+export function useInvitePreview(token: string | undefined) {
+  return useQuery(token ? queryKeys.invitePreview(token) : null, (signal) => api.getInvitePreview(token!, { signal }));
+}
+
+export function useAuditLog(orgId: string | undefined, filters: AuditFilters) {
+  return useQuery(orgId ? queryKeys.audit(orgId, filters) : null, (signal) => api.getAuditLog(orgId!, filters, { signal }));
+}
@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { getAsOf, subscribeAsOf } from '../lib/timeTravel';
+
+// The snapshot picked for the cluster, or undefined for the latest
+export function useAsOf(clusterId: string | undefined) {
+  const asOf = useSyncExternalStore(subscribeAsOf, getAsOf);
+  return clusterId ? asOf[clusterId] : undefined;
+}
@@ -1,59 +1,138 @@
-import { createContext, useContext, useState, useEffect } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, useSyncExternalStore } from 'react';
 import type { ReactNode } from 'react';
-import { api } from '../lib/api';
-
-interface User {
-  id: string;
-  email: string;
-}
+import { api, refreshSession } from '../lib/api';
+import type { OrgMembership, Role, User } from '../lib/api';
+import { DEMO_CREDENTIALS, exitDemo, isDemoMode } from '../lib/demo';
+import { completeSsoLogin, startSsoLogin } from '../lib/oidc';
+import { can as roleCan } from '../lib/permissions';
+import type { Action } from '../lib/permissions';
+import { clearQueries } from '../lib/query';
+import {
+  clearSession, getRefreshToken, getSessionKind, getToken, isSessionExpired, setSession, subscribeSession, tokenExpiry,
+} from '../lib/session';
+import type { SessionKind } from '../lib/session';
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  sessionExpired: boolean;
+  sessionKind: SessionKind;
+  // The org everything is scoped to and the user's role in it; both are null
+  // when the backend has no organizations
+  org: OrgMembership | null;
+  role: Role | null;
+  selectOrg: (id: string) => void;
+  can: (action: Action) => boolean;
   login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string) => Promise<void>;
+  // An invite token makes the new account a member of the inviting org
+  register: (email: string, password: string, inviteToken?: string) => Promise<void>;
+  // Re-reads the user, e.g. after joining an org or a role change
+  reloadUser: () => Promise<void>;
+  // Redirects to the identity provider; /auth/callback finishes the sign-in
+  loginWithSso: (returnTo: string) => Promise<void>;
+  completeSso: (params: URLSearchParams) => Promise<string>;
   logout: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
 
+// Refresh this long before the access token expires
+const REFRESH_MARGIN = 60_000;
+// setTimeout fires at once for delays above this (about 24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const token = useSyncExternalStore(subscribeSession, getToken);
+  const sessionExpired = useSyncExternalStore(subscribeSession, isSessionExpired);
+  const sessionKind = useSyncExternalStore(subscribeSession, getSessionKind);
+  const [orgId, setOrgId] = useState<string | null>(() => localStorage.getItem('infradar-org'));
+
+  const selectOrg = useCallback((id: string) => {
+    setOrgId(id);
+    localStorage.setItem('infradar-org', id);
+  }, []);
+
+  // Fall back to the first org if none selected or no longer a member
+  const orgs = user?.orgs ?? [];
+  const org = orgs.find((o) => o.id === orgId) || orgs[0] || null;
+  const role = org?.role ?? null;
+  const can = useCallback((action: Action) => roleCan(role, action), [role]);
 
   useEffect(() => {
-    const token = localStorage.getItem('token');
-    if (token) {
-      api.me()
+    if (getToken()) {
+      // At startup there is no page to return to, so don't wait for a re-login
+      api.me({ reauth: false })
+        .then(setUser)
+        .catch(() => clearSession())
+        .finally(() => setLoading(false));
+    } else if (isDemoMode()) {
+      // Demo visitors skip the login form
+      api.login(DEMO_CREDENTIALS.email, DEMO_CREDENTIALS.password)
+        .then(({ token, refresh_token }) => {
+          setSession(token, refresh_token);
+          return api.me();
+        })
         .then(setUser)
-        .catch(() => localStorage.removeItem('token'))
+        .catch(() => clearSession())
         .finally(() => setLoading(false));
     } else {
       setLoading(false);
     }
   }, []);
 
+  // Refresh proactively so requests rarely see an expired token at all
+  useEffect(() => {
+    const expiresAt = tokenExpiry(token);
+    if (!expiresAt || !getRefreshToken()) return;
+    const delay = Math.max(0, expiresAt - Date.now() - REFRESH_MARGIN);
+    // Tokens that outlive the longest timer are refreshed early, which is harmless
+    const timer = setTimeout(refreshSession, Math.min(delay, MAX_TIMER_DELAY));
+    return () => clearTimeout(timer);
+  }, [token]);
+
   const login = async (email: string, password: string) => {
-    const { token } = await api.login(email, password);
-    localStorage.setItem('token', token);
+    const { token, refresh_token } = await api.login(email, password);
+    setSession(token, refresh_token);
+    const me = await api.me();
+    setUser(me);
+  };
+
+  const register = async (email: string, password: string, inviteToken?: string) => {
+    const { token, refresh_token } = await api.register(email, password, inviteToken);
+    setSession(token, refresh_token);
     const me = await api.me();
     setUser(me);
   };
 
-  const register = async (email: string, password: string) => {
-    const { token } = await api.register(email, password);
-    localStorage.setItem('token', token);
+  const reloadUser = async () => {
+    setUser(await api.me());
+  };
+
+  const loginWithSso = (returnTo: string) => startSsoLogin(returnTo);
+
+  // Returns the path the user was on before being sent to the provider
+  const completeSso = async (params: URLSearchParams) => {
+    const { tokens, returnTo } = await completeSsoLogin(params);
+    setSession(tokens.access_token, tokens.refresh_token, 'sso');
     const me = await api.me();
     setUser(me);
+    return returnTo;
   };
 
   const logout = () => {
-    localStorage.removeItem('token');
+    clearSession();
+    exitDemo();
+    clearQueries();
     setUser(null);
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, login, register, logout }}>
+    <AuthContext.Provider value={{
+      user, loading, sessionExpired, sessionKind, org, role, selectOrg, can,
+      login, register, reloadUser, loginWithSso, completeSso, logout,
+    }}>
       {children}
     </AuthContext.Provider>
   );
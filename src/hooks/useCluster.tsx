@@ -1,61 +1,85 @@
-import { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, useSyncExternalStore } from 'react';
 import type { ReactNode } from 'react';
-import { api } from '../lib/api';
+import { useParams } from 'react-router-dom';
 import type { Cluster } from '../lib/api';
+import { DEFAULT_VIEW } from '../lib/clusters';
+import type { ClusterView } from '../lib/clusters';
+import { connectLive, getLiveStatus, subscribeLiveStatus } from '../lib/live';
+import type { LiveStatus } from '../lib/live';
+import { useClusters } from './useApi';
 
 interface ClusterContextType {
   clusters: Cluster[];
   selected: Cluster | null;
+  // The cluster the current page shows
+  viewedClusterId: string | undefined;
   selectCluster: (id: string) => void;
+  // Filters and grouping shared by the Clusters table and the sidebar selector
+  view: ClusterView;
+  updateView: (patch: Partial<ClusterView>) => void;
   loading: boolean;
   refresh: () => void;
+  liveStatus: LiveStatus;
 }
 
 const ClusterContext = createContext<ClusterContextType>({
   clusters: [],
   selected: null,
+  viewedClusterId: undefined,
   selectCluster: () => {},
+  view: DEFAULT_VIEW,
+  updateView: () => {},
   loading: true,
   refresh: () => {},
+  liveStatus: 'idle',
 });
 
+function loadView(): ClusterView {
+  try {
+    return { ...DEFAULT_VIEW, ...JSON.parse(localStorage.getItem('infradar-cluster-view') ?? '{}') };
+  } catch {
+    return DEFAULT_VIEW;
+  }
+}
+
 export function ClusterProvider({ children }: { children: ReactNode }) {
-  const [clusters, setClusters] = useState<Cluster[]>([]);
+  const { data, loading, refetch } = useClusters();
+  const clusters = data ?? [];
   const [selectedId, setSelectedId] = useState<string | null>(() =>
     localStorage.getItem('infradar-cluster')
   );
-  const [loading, setLoading] = useState(true);
-
-  const fetchClusters = useCallback(() => {
-    api.getClusters()
-      .then((list) => {
-        setClusters(list);
-        // Auto-select first cluster if none selected or selected not found
-        if (list.length > 0) {
-          const saved = localStorage.getItem('infradar-cluster');
-          if (!saved || !list.find(c => c.id === saved)) {
-            setSelectedId(list[0].id);
-            localStorage.setItem('infradar-cluster', list[0].id);
-          }
-        }
-      })
-      .catch(() => {})
-      .finally(() => setLoading(false));
-  }, []);
-
-  useEffect(() => {
-    fetchClusters();
-  }, [fetchClusters]);
 
   const selectCluster = useCallback((id: string) => {
     setSelectedId(id);
     localStorage.setItem('infradar-cluster', id);
   }, []);
 
-  const selected = clusters.find(c => c.id === selectedId) || null;
+  const [view, setView] = useState<ClusterView>(loadView);
+
+  const updateView = useCallback((patch: Partial<ClusterView>) => {
+    setView((current) => {
+      const next = { ...current, ...patch };
+      localStorage.setItem('infradar-cluster-view', JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  // Fall back to the first cluster if none selected or selected not found
+  const selected = clusters.find(c => c.id === selectedId) || clusters[0] || null;
+  // Pages under /details/:id and /security/:id name their cluster; the rest
+  // show the one selected in the sidebar
+  const { id } = useParams<{ id: string }>();
+  const viewedClusterId = id ?? selected?.id;
+
+  // Stream updates for the cluster being viewed into the query cache
+  useEffect(() => {
+    if (!viewedClusterId) return;
+    return connectLive(viewedClusterId);
+  }, [viewedClusterId]);
+  const liveStatus = useSyncExternalStore(subscribeLiveStatus, getLiveStatus);
 
   return (
-    <ClusterContext.Provider value={{ clusters, selected, selectCluster, loading, refresh: fetchClusters }}>
+    <ClusterContext.Provider value={{ clusters, selected, viewedClusterId, selectCluster, view, updateView, loading, refresh: refetch, liveStatus }}>
       {children}
     </ClusterContext.Provider>
   );
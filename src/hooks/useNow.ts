@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// The current time, refreshed every `interval` ms, for labels such as "5 min ago"
+export function useNow(interval = 30_000) {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [interval]);
+
+  return now;
+}
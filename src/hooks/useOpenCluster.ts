@@ -0,0 +1,17 @@
+import { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { setAsOf } from '../lib/timeTravel';
+import { useCluster } from './useCluster';
+
+// /details shows the cluster selected in the sidebar, so opening a cluster
+// there selects it first. It opens at the latest snapshot.
+export function useOpenCluster() {
+  const { selectCluster } = useCluster();
+  const navigate = useNavigate();
+
+  return useCallback((id: string) => {
+    selectCluster(id);
+    setAsOf(id, null);
+    navigate('/details');
+  }, [selectCluster, navigate]);
+}
@@ -0,0 +1,40 @@
+import { useCallback, useState } from 'react';
+import { DEFAULT_POD_TABLE } from '../lib/podTable';
+import type { PodTableState } from '../lib/podTable';
+import { useAuth } from './useAuth';
+
+const storageKey = (userId: string) => `infradar-pod-table:${userId}`;
+
+// Saved state is merged over the defaults so fields added later get a value
+function load(userId: string | undefined): PodTableState {
+  if (!userId) return DEFAULT_POD_TABLE;
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(userId)) ?? '{}');
+    return { ...DEFAULT_POD_TABLE, ...saved, filters: { ...DEFAULT_POD_TABLE.filters, ...saved.filters } };
+  } catch {
+    return DEFAULT_POD_TABLE;
+  }
+}
+
+// The pods table's sorting, filters and visible columns for the signed-in user
+export function usePodTable() {
+  const userId = useAuth().user?.id;
+  const [state, setState] = useState(() => load(userId));
+  const [loadedFor, setLoadedFor] = useState(userId);
+
+  // Someone else signed in: show their table, not the previous user's
+  if (loadedFor !== userId) {
+    setLoadedFor(userId);
+    setState(load(userId));
+  }
+
+  const update = useCallback((patch: Partial<PodTableState>) => {
+    setState((current) => {
+      const next = { ...current, ...patch };
+      if (userId) localStorage.setItem(storageKey(userId), JSON.stringify(next));
+      return next;
+    });
+  }, [userId]);
+
+  return [state, update] as const;
+}
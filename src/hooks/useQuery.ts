@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME, fetchQuery, getQueryEntry, hashKey, isStale, subscribeQuery,
+} from '../lib/query';
+import { isOnline } from '../lib/network';
+import type { QueryEntry, QueryKey } from '../lib/query';
+
+export interface QueryOptions {
+  staleTime?: number;
+  // Poll every n ms while mounted; for waiting on state the server changes
+  refetchInterval?: number;
+}
+
+export interface QueryConfig<T> {
+  queryKey: QueryKey;
+  fn: (signal: AbortSignal) => Promise<T>;
+}
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: unknown;
+  loading: boolean;
+  fetching: boolean;
+  refetch: () => void;
+}
+
+// Reads `key` from the shared cache, fetching it when missing or stale.
+// Cached data is returned immediately while a background revalidation runs.
+// Pass a null key to skip the query (e.g. while a route param is missing).
+// `fn` receives an AbortSignal that fires once nothing is subscribed to the
+// key any more, so switching cluster or namespace cancels the old request.
+export function useQuery<T>(
+  queryKey: QueryKey | null,
+  fn: (signal: AbortSignal) => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME, refetchInterval }: QueryOptions = {},
+): QueryResult<T> {
+  const hash = queryKey ? hashKey(queryKey) : null;
+  // Re-derive the key from its hash so callers can pass inline arrays
+  const key = useMemo<QueryKey | null>(() => (hash ? JSON.parse(hash) : null), [hash]);
+
+  const fnRef = useRef(fn);
+  useEffect(() => {
+    fnRef.current = fn;
+  });
+
+  const subscribe = useCallback((cb: () => void) => {
+    if (!key) return () => {};
+    return subscribeQuery(key, cb, (signal) => fnRef.current(signal));
+  }, [key]);
+
+  const entry = useSyncExternalStore(subscribe, () => (key ? getQueryEntry<T>(key) : undefined));
+
+  useEffect(() => {
+    if (!key) return;
+    if (isStale(getQueryEntry(key), staleTime)) {
+      fetchQuery(key, (signal) => fnRef.current(signal)).catch(() => {});
+    }
+  }, [key, staleTime]);
+
+  useEffect(() => {
+    if (!key || !refetchInterval) return;
+    const timer = setInterval(() => {
+      if (isOnline()) fetchQuery(key, (signal) => fnRef.current(signal)).catch(() => {});
+    }, refetchInterval);
+    return () => clearInterval(timer);
+  }, [key, refetchInterval]);
+
+  const refetch = useCallback(() => {
+    if (key) fetchQuery(key, (signal) => fnRef.current(signal)).catch(() => {});
+  }, [key]);
+
+  return {
+    data: entry?.data,
+    error: entry?.error,
+    loading: !!key && entry?.data === undefined && entry?.error === undefined,
+    fetching: entry?.fetching ?? false,
+    refetch,
+  };
+}
+
+// useSyncExternalStore needs a snapshot that keeps its identity until an entry
+// changes. Entries are replaced on every update, so comparing them is enough.
+function entriesSnapshot<T>(keys: QueryKey[]) {
+  let last: (QueryEntry<T> | undefined)[] = [];
+  return () => {
+    const next = keys.map((key) => getQueryEntry<T>(key));
+    if (next.length !== last.length || next.some((entry, i) => entry !== last[i])) last = next;
+    return last;
+  };
+}
+
+// useQuery for a list of keys whose length varies at runtime, such as one
+// query per cluster. Results come back in the order of `queries`.
+export function useQueries<T>(
+  queries: QueryConfig<T>[],
+  { staleTime = DEFAULT_STALE_TIME }: QueryOptions = {},
+): QueryResult<T>[] {
+  const hash = JSON.stringify(queries.map((q) => q.queryKey));
+  const keys = useMemo<QueryKey[]>(() => JSON.parse(hash), [hash]);
+
+  const fnsRef = useRef(queries.map((q) => q.fn));
+  useEffect(() => {
+    fnsRef.current = queries.map((q) => q.fn);
+  });
+
+  const subscribe = useCallback((cb: () => void) => {
+    const unsubscribes = keys.map((key, i) => subscribeQuery(key, cb, (signal) => fnsRef.current[i](signal)));
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [keys]);
+
+  const getSnapshot = useMemo(() => entriesSnapshot<T>(keys), [keys]);
+
+  const snapshot = useSyncExternalStore(subscribe, getSnapshot);
+
+  useEffect(() => {
+    keys.forEach((key, i) => {
+      if (isStale(getQueryEntry(key), staleTime)) {
+        fetchQuery(key, (signal) => fnsRef.current[i](signal)).catch(() => {});
+      }
+    });
+  }, [keys, staleTime]);
+
+  return useMemo(() => snapshot.map((entry, i) => ({
+    data: entry?.data,
+    error: entry?.error,
+    loading: entry?.data === undefined && entry?.error === undefined,
+    fetching: entry?.fetching ?? false,
+    refetch: () => {
+      fetchQuery(keys[i], (signal) => fnsRef.current[i](signal)).catch(() => {});
+    },
+  })), [snapshot, keys]);
+}
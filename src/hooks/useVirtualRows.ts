@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+// Windowing for long lists of fixed-height rows: only the rows in view, plus
+// `overscan` on either side, are rendered. Spread `ref` and `onScroll` onto the
+// scrolling element and pad above and below the rendered slice.
+export function useVirtualRows(count: number, rowHeight: number, overscan = 10) {
+  // A callback ref, so the observer follows the element if it is replaced
+  const [el, ref] = useState<HTMLElement | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(0);
+
+  useEffect(() => {
+    if (!el) return;
+    // Fires once on observe, then on every resize
+    const observer = new ResizeObserver(([entry]) => setViewport(entry.contentRect.height));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [el]);
+
+  const first = Math.min(count, Math.max(0, Math.floor(scrollTop / rowHeight) - overscan));
+  const last = Math.min(count, Math.ceil((scrollTop + viewport) / rowHeight) + overscan);
+
+  return {
+    ref,
+    onScroll: (e: React.UIEvent<HTMLElement>) => setScrollTop(e.currentTarget.scrollTop),
+    start: first,
+    end: last,
+    padTop: first * rowHeight,
+    padBottom: (count - last) * rowHeight,
+  };
+}
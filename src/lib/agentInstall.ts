@@ -0,0 +1,183 @@
+import { api } from './api';
+
+// Everything the onboarding wizard shows for installing the agent. The
+// snippets are generated here so the Helm values, the raw manifests and the
+// one-liner always agree on namespace, secret name and permissions.
+
+export type InstallMethod = 'helm' | 'manifests' | 'kubectl';
+
+export interface AgentConfig {
+  clusterName: string;
+  apiKey: string;
+  apiUrl: string;
+}
+
+export const AGENT_NAMESPACE = 'infradar';
+export const AGENT_IMAGE = 'ghcr.io/infradar/agent:latest';
+
+export const installMethods: { value: InstallMethod; label: string }[] = [
+  { value: 'helm', label: 'Helm' },
+  { value: 'manifests', label: 'Manifests' },
+  { value: 'kubectl', label: 'kubectl one-liner' },
+];
+
+export function agentConfig(clusterName: string, apiKey: string): AgentConfig {
+  return { clusterName, apiKey, apiUrl: api.agentApiUrl() };
+}
+
+export function helmValues({ clusterName, apiKey, apiUrl }: AgentConfig) {
+  return `# infradar-values.yaml
+config:
+  apiUrl: ${apiUrl}
+  apiKey: ${apiKey}
+  clusterName: ${clusterName}
+resources:
+  requests:
+    cpu: 50m
+    memory: 64Mi
+  limits:
+    memory: 256Mi`;
+}
+
+export function helmCommand() {
+  return `helm install infradar-agent ./deploy/helm \\
+  -f infradar-values.yaml \\
+  --namespace ${AGENT_NAMESPACE} --create-namespace`;
+}
+
+// Read-only access to what a snapshot contains; the agent never writes to the cluster
+export function manifests({ clusterName, apiKey, apiUrl }: AgentConfig) {
+  return `apiVersion: v1
+kind: Namespace
+metadata:
+  name: ${AGENT_NAMESPACE}
+---
+apiVersion: v1
+kind: Secret
+metadata:
+  name: infradar-agent
+  namespace: ${AGENT_NAMESPACE}
+stringData:
+  api-key: ${apiKey}
+---
+apiVersion: v1
+kind: ServiceAccount
+metadata:
+  name: infradar-agent
+  namespace: ${AGENT_NAMESPACE}
+---
+apiVersion: rbac.authorization.k8s.io/v1
+kind: ClusterRole
+metadata:
+  name: infradar-agent
+rules:
+  - apiGroups: [""]
+    resources: [nodes, pods, namespaces, services, events]
+    verbs: [get, list, watch]
+  - apiGroups: [apps]
+    resources: [deployments, replicasets, statefulsets, daemonsets]
+    verbs: [get, list, watch]
+  - apiGroups: [networking.k8s.io]
+    resources: [ingresses, networkpolicies]
+    verbs: [get, list, watch]
+  - apiGroups: [metrics.k8s.io]
+    resources: [nodes, pods]
+    verbs: [get, list]
+---
+apiVersion: rbac.authorization.k8s.io/v1
+kind: ClusterRoleBinding
+metadata:
+  name: infradar-agent
+roleRef:
+  apiGroup: rbac.authorization.k8s.io
+  kind: ClusterRole
+  name: infradar-agent
+subjects:
+  - kind: ServiceAccount
+    name: infradar-agent
+    namespace: ${AGENT_NAMESPACE}
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: infradar-agent
+  namespace: ${AGENT_NAMESPACE}
+spec:
+  replicas: 1
+  selector:
+    matchLabels:
+      app: infradar-agent
+  template:
+    metadata:
+      labels:
+        app: infradar-agent
+    spec:
+      serviceAccountName: infradar-agent
+      securityContext:
+        runAsNonRoot: true
+        seccompProfile:
+          type: RuntimeDefault
+      containers:
+        - name: agent
+          image: ${AGENT_IMAGE}
+          env:
+            - name: INFRADAR_API_URL
+              value: ${apiUrl}
+            - name: INFRADAR_CLUSTER_NAME
+              value: ${clusterName}
+            - name: INFRADAR_API_KEY
+              valueFrom:
+                secretKeyRef:
+                  name: infradar-agent
+                  key: api-key
+          resources:
+            requests:
+              cpu: 50m
+              memory: 64Mi
+            limits:
+              memory: 256Mi
+          securityContext:
+            allowPrivilegeEscalation: false
+            readOnlyRootFilesystem: true
+            capabilities:
+              drop: [ALL]`;
+}
+
+// The backend renders the same manifests for the key it is called with
+export function kubectlOneLiner({ apiKey }: AgentConfig) {
+  return `curl -fsSL -H "Authorization: Bearer ${apiKey}" ${api.agentManifestUrl()} | kubectl apply -f -`;
+}
+
+// Things that commonly trip up the install on each provider
+export const providerNotes: Record<string, string[]> = {
+  eks: [
+    'Nodes need outbound HTTPS to the API URL. Private clusters need a NAT gateway or a VPC endpoint.',
+    'Pods on Fargate are reported, but Fargate nodes have no node-level metrics.',
+  ],
+  gke: [
+    'Creating the ClusterRole needs cluster-admin: kubectl create clusterrolebinding cluster-admin-binding --clusterrole cluster-admin --user "$(gcloud config get-value account)"',
+    'Private clusters need Cloud NAT for the agent to reach the API URL.',
+    'On Autopilot the resource requests above are required and are already set.',
+  ],
+  aks: [
+    'Fetch credentials first: az aks get-credentials --resource-group <group> --name <cluster>',
+    `If network policies restrict egress, allow HTTPS out of the ${AGENT_NAMESPACE} namespace.`,
+  ],
+  k3s: [
+    'Point kubectl and helm at the k3s kubeconfig: export KUBECONFIG=/etc/rancher/k3s/k3s.yaml, or use k3s kubectl.',
+    'metrics-server ships with k3s, so usage metrics work out of the box.',
+  ],
+  openshift: [
+    'Use oc in place of kubectl, and create the project with oc new-project infradar if you apply manifests.',
+    'The agent runs as non-root with a read-only filesystem and fits the restricted-v2 SCC; no extra SCC is needed.',
+  ],
+};
+
+// Shown when the agent hasn't reported after a while
+export const troubleshootingTips = [
+  `Check that the agent pod is running: kubectl -n ${AGENT_NAMESPACE} get pods`,
+  `Look for errors in its log: kubectl -n ${AGENT_NAMESPACE} logs deploy/infradar-agent`,
+  'A 401 in the log means the API key is wrong, revoked or expired; rotate it in the cluster settings.',
+  'Connection timeouts mean the cluster can\'t reach the API URL; check egress rules, proxies and DNS.',
+  'Image pull errors usually mean nodes can\'t reach ghcr.io; mirror the image to your own registry.',
+];
@@ -1,588 +1,411 @@
+import type { z } from 'zod';
+import { isMockBackend } from './demo';
+import {
+  ApiError, NetworkError, RateLimitError, ServerError, UnauthorizedError, errorFromStatus,
+} from './errors';
+import { isOnline } from './network';
+import { refreshSsoTokens } from './oidc';
+import {
+  alertsResponseSchema, apiKeySchema, apiKeySecretSchema, attackPathAnalysisSchema, auditEntrySchema,
+  blastRadiusResultSchema, clusterSchema, clusterTopologySchema, costReportSchema, createdClusterSchema,
+  eventStreamSchema, goldenSignalsSchema, heartbeatSchema, heatmapDataSchema, invitePreviewSchema, inviteSchema,
+  memberSchema, namespaceListSchema, nsCompareResponseSchema, rotatedApiKeySchema, securityReportSchema,
+  securityRuleSchema, serviceMeshResponseSchema, simulationResultSchema, snapshotSchema, timelinePointSchema,
+  tokenResponseSchema, userSchema,
+} from './schemas';
+import type { ClusterEnvironment, NamespaceList, NSCompareResponse, Role } from './schemas';
+import {
+  clearSession, getRefreshToken, getSessionKind, getToken, markSessionExpired, setSession, waitForReauth,
+} from './session';
+import type { SessionKind } from './session';
+import { parseResponse } from './validation';
+
 const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:8080';
 
-async function request<T>(path: string, options: RequestInit = {}): Promise<T> {
-  const token = localStorage.getItem('token');
-  const res = await fetch(`${API_URL}${path}`, {
+// Every filter is optional; `from` and `to` are ISO timestamps
+export interface AuditFilters {
+  actor?: string;
+  action?: string;
+  clusterId?: string;
+  from?: string;
+  to?: string;
+}
+
+// Fields of PATCH /clusters/:id; omitted ones stay as they are and null clears one
+export interface ClusterUpdate {
+  name?: string;
+  provider?: string;
+  environment?: ClusterEnvironment | null;
+  labels?: Record<string, string>;
+  owner_team?: string | null;
+  description?: string | null;
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+// Per-call options for read endpoints; `signal` cancels the underlying fetch
+// and `retry` overrides the method's default retry policy. With `reauth` off a
+// 401 that a token refresh cannot fix fails at once instead of waiting for the
+// user to sign in again.
+export interface RequestOpts {
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy>;
+  reauth?: boolean;
+}
+
+// Only idempotent reads are retried by default. A POST such as /simulate
+// must never run twice because the first response got lost.
+const RETRY_POLICIES: Record<string, RetryPolicy> = {
+  GET: { retries: 3, baseDelay: 500, maxDelay: 8_000 },
+};
+
+const NO_RETRY: RetryPolicy = { retries: 0, baseDelay: 0, maxDelay: 0 };
+
+// Loaded on demand so the fixtures stay out of the production bundle
+async function mockFetch(path: string, init: RequestInit) {
+  const { mockFetch } = await import('../mock/server');
+  return mockFetch(path, init);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function retryDelay(err: ApiError, attempt: number, policy: RetryPolicy): number | null {
+  const retryAfter = err instanceof RateLimitError || err instanceof ServerError ? err.retryAfter : null;
+  // Waiting longer than the policy allows would leave the page spinning; fail and let the user retry
+  if (retryAfter !== null) return retryAfter <= policy.maxDelay ? retryAfter : null;
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt);
+  return backoff / 2 + Math.random() * (backoff / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal | null) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+async function send<S extends z.ZodType>(
+  schema: S | null, path: string, endpoint: string, options: RequestInit, token: string | null,
+): Promise<z.output<S>> {
+  const init: RequestInit = {
     ...options,
     headers: {
       'Content-Type': 'application/json',
       ...(token ? { Authorization: `Bearer ${token}` } : {}),
       ...options.headers,
     },
-  });
+  };
 
-  if (res.status === 401) {
-    localStorage.removeItem('token');
-    window.location.href = '/login';
-    throw new Error('Unauthorized');
+  let res: Response;
+  try {
+    res = isMockBackend() ? await mockFetch(path, init) : await fetch(`${API_URL}${path}`, init);
+  } catch (err) {
+    // Cancellation is not a failure; let callers recognise the AbortError
+    if (options.signal?.aborted) throw err;
+    throw new NetworkError(endpoint, err);
   }
 
   if (!res.ok) {
-    const err = await res.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(err.error || 'Request failed');
+    const body = await res.json().catch(() => null);
+    throw errorFromStatus(res.status, endpoint, body?.error || null, parseRetryAfter(res.headers.get('Retry-After')));
+  }
+
+  if (res.status === 204 || !schema) return undefined as z.output<S>;
+  return parseResponse(schema, await res.json(), endpoint, res.status);
+}
+
+let refreshing: Promise<boolean> | null = null;
+
+function refreshTokens(kind: SessionKind, refreshToken: string) {
+  if (kind === 'sso') {
+    return refreshSsoTokens(refreshToken).then(({ access_token, refresh_token }) => ({ token: access_token, refresh_token }));
   }
+  return request(tokenResponseSchema, '/api/v1/auth/refresh', {
+    method: 'POST',
+    body: JSON.stringify({ refresh_token: refreshToken }),
+  });
+}
 
-  return res.json();
+// Single-flight: concurrent 401s share one refresh request. SSO sessions are
+// refreshed by the identity provider that issued them.
+export function refreshSession(): Promise<boolean> {
+  const refreshToken = getRefreshToken();
+  if (!refreshToken) return Promise.resolve(false);
+  const kind = getSessionKind();
+  refreshing ??= refreshTokens(kind, refreshToken)
+    .then(({ token, refresh_token }) => {
+      setSession(token, refresh_token ?? refreshToken, kind);
+      return true;
+    })
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+// Decides whether a request that got a 401 with `sentToken` can be sent again
+async function recoverSession(sentToken: string | null, reauth: boolean, signal?: AbortSignal | null) {
+  // Another request already refreshed the token in the meantime
+  const current = getToken();
+  if (current && current !== sentToken) return true;
+  if (await refreshSession()) return true;
+  if (!reauth) {
+    clearSession();
+    return false;
+  }
+  markSessionExpired();
+  return waitForReauth(signal);
+}
+
+// Analyses run on the latest snapshot unless asked about an older one
+function asOf(snapshotId?: string) {
+  return snapshotId ? `?${new URLSearchParams({ snapshot_id: snapshotId })}` : '';
+}
+
+// Every response is checked against its schema; `null` skips the check for
+// endpoints whose body is ignored. Retryable failures are retried with
+// exponential backoff according to the method's policy, and a 401 first tries
+// a token refresh, then waits for the user to sign in again.
+async function request<S extends z.ZodType>(schema: S | null, path: string, options: RequestInit & RequestOpts = {}): Promise<z.output<S>> {
+  const { retry, reauth = true, ...init } = options;
+  const method = init.method || 'GET';
+  const endpoint = `${method} ${path.split('?')[0]}`;
+  const policy = { ...(RETRY_POLICIES[method] ?? NO_RETRY), ...retry };
+  // Auth endpoints answer 401 for bad credentials; that is not an expired session
+  const authEndpoint = path.startsWith('/api/v1/auth/');
+  let attempt = 0;
+  let recoveries = 0;
+
+  for (;;) {
+    const token = getToken();
+    try {
+      return await send(schema, path, endpoint, init, token);
+    } catch (err) {
+      if (err instanceof UnauthorizedError && !authEndpoint && recoveries < 2) {
+        recoveries++;
+        if (await recoverSession(token, reauth, init.signal)) continue;
+        throw err;
+      }
+      // Offline requests are refetched once the connection returns instead
+      if (!(err instanceof ApiError) || !err.retryable || attempt >= policy.retries || init.signal?.aborted || !isOnline()) throw err;
+      const delay = retryDelay(err, attempt, policy);
+      if (delay === null) throw err;
+      attempt++;
+      await sleep(delay, init.signal);
+    }
+  }
 }
 
 export const api = {
   // Auth
   login: (email: string, password: string) =>
-    request<{ token: string }>('/api/v1/auth/login', {
+    request(tokenResponseSchema, '/api/v1/auth/login', {
       method: 'POST',
       body: JSON.stringify({ email, password }),
     }),
 
-  register: (email: string, password: string) =>
-    request<{ token: string }>('/api/v1/auth/register', {
+  // With an invite token the new account joins the inviting org
+  register: (email: string, password: string, inviteToken?: string) =>
+    request(tokenResponseSchema, '/api/v1/auth/register', {
       method: 'POST',
-      body: JSON.stringify({ email, password }),
+      body: JSON.stringify({ email, password, invite_token: inviteToken }),
     }),
 
-  me: () => request<{ id: string; email: string }>('/api/v1/me'),
+  me: (opts: RequestOpts = {}) => request(userSchema, '/api/v1/me', opts),
 
-  // Clusters
-  getClusters: () => request<Cluster[]>('/api/v1/clusters'),
+  // Members and invitations
+  getMembers: (orgId: string, opts: RequestOpts = {}) =>
+    request(memberSchema.array(), `/api/v1/orgs/${orgId}/members`, opts),
 
-  getCluster: (id: string) => request<Cluster>(`/api/v1/clusters/${id}`),
-
-  createCluster: (name: string, provider: string) =>
-    request<Cluster>('/api/v1/clusters', {
-      method: 'POST',
-      body: JSON.stringify({ name, provider }),
+  updateMemberRole: (orgId: string, userId: string, role: Role) =>
+    request(memberSchema, `/api/v1/orgs/${orgId}/members/${userId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ role }),
     }),
 
-  deleteCluster: (id: string) =>
-    request(`/api/v1/clusters/${id}`, { method: 'DELETE' }),
-
-  // Snapshots
-  getLatestSnapshot: (clusterId: string) =>
-    request<Snapshot>(`/api/v1/clusters/${clusterId}/snapshots/latest`),
-
-  getSnapshots: (clusterId: string) =>
-    request<Snapshot[]>(`/api/v1/clusters/${clusterId}/snapshots`),
-
-  // Security
-  getSecurityReport: (clusterId: string) =>
-    request<SecurityReport>(`/api/v1/clusters/${clusterId}/security`),
+  removeMember: (orgId: string, userId: string) =>
+    request(null, `/api/v1/orgs/${orgId}/members/${userId}`, { method: 'DELETE' }),
 
-  getSecurityRules: () => request<SecurityRule[]>('/api/v1/security/rules'),
+  getInvites: (orgId: string, opts: RequestOpts = {}) =>
+    request(inviteSchema.array(), `/api/v1/orgs/${orgId}/invites`, opts),
 
-  // Innovative features
-  getAttackPaths: (clusterId: string) =>
-    request<AttackPathAnalysis>(`/api/v1/clusters/${clusterId}/attack-paths`),
-
-  simulate: (clusterId: string, type: string, params: Record<string, unknown>) =>
-    request<SimulationResult>(`/api/v1/clusters/${clusterId}/simulate`, {
+  createInvite: (orgId: string, email: string, role: Role) =>
+    request(inviteSchema, `/api/v1/orgs/${orgId}/invites`, {
       method: 'POST',
-      body: JSON.stringify({ type, params }),
+      body: JSON.stringify({ email, role }),
     }),
 
-  getCosts: (clusterId: string) =>
-    request<CostReport>(`/api/v1/clusters/${clusterId}/costs`),
-
-  getBlastRadius: (clusterId: string, targetType: string, target: string, namespace?: string) => {
-    const params = new URLSearchParams({ type: targetType, target });
-    if (namespace) params.set('namespace', namespace);
-    return request<BlastRadiusResult>(`/api/v1/clusters/${clusterId}/blast-radius?${params}`);
+  revokeInvite: (orgId: string, inviteId: string) =>
+    request(null, `/api/v1/orgs/${orgId}/invites/${inviteId}`, { method: 'DELETE' }),
+
+  getInvitePreview: (token: string, opts: RequestOpts = {}) =>
+    request(invitePreviewSchema, `/api/v1/invites/${encodeURIComponent(token)}`, opts),
+
+  // For users who already have an account
+  acceptInvite: (token: string) =>
+    request(null, `/api/v1/invites/${encodeURIComponent(token)}/accept`, { method: 'POST' }),
+
+  // Audit log, newest first
+  getAuditLog: (orgId: string, filters: AuditFilters, opts: RequestOpts = {}) => {
+    const params = new URLSearchParams();
+    if (filters.actor) params.set('actor', filters.actor);
+    if (filters.action) params.set('action', filters.action);
+    if (filters.clusterId) params.set('cluster_id', filters.clusterId);
+    if (filters.from) params.set('from', filters.from);
+    if (filters.to) params.set('to', filters.to);
+    return request(auditEntrySchema.array(), `/api/v1/orgs/${orgId}/audit?${params}`, opts);
   },
 
-  getTimeline: (clusterId: string) =>
-    request<TimelinePoint[]>(`/api/v1/clusters/${clusterId}/timeline`),
-
-  // Dashboard features
-  getTopology: (clusterId: string) =>
-    request<ClusterTopology>(`/api/v1/clusters/${clusterId}/topology`),
-
-  getHeatmap: (clusterId: string) =>
-    request<HeatmapData>(`/api/v1/clusters/${clusterId}/heatmap`),
-
-  getEvents: (clusterId: string) =>
-    request<EventStream>(`/api/v1/clusters/${clusterId}/events`),
-
-  getAlerts: (clusterId: string) =>
-    request<AlertsResponse>(`/api/v1/clusters/${clusterId}/alerts`),
-
-  getNSCompare: (clusterId: string, ns1?: string, ns2?: string) => {
-    const params = ns1 && ns2 ? `?ns1=${ns1}&ns2=${ns2}` : '';
-    return request<NSCompareResponse | { namespaces: string[] }>(`/api/v1/clusters/${clusterId}/ns-compare${params}`);
+  // Clusters
+  // Without an org the backend returns every cluster the user can see
+  getClusters: (orgId: string | null, opts: RequestOpts = {}) => {
+    const query = orgId ? `?${new URLSearchParams({ org_id: orgId })}` : '';
+    return request(clusterSchema.array(), `/api/v1/clusters${query}`, opts);
   },
 
-  getGoldenSignals: (clusterId: string) =>
-    request<GoldenSignals>(`/api/v1/clusters/${clusterId}/golden-signals`),
-
-  getServiceMesh: (clusterId: string) =>
-    request<ServiceMeshResponse>(`/api/v1/clusters/${clusterId}/service-mesh`),
-};
-
-// Types
-export interface Cluster {
-  id: string;
-  name: string;
-  provider: string;
-  api_key: string;
-  status: string;
-  last_seen_at: string | null;
-  created_at: string;
-}
+  getCluster: (id: string, opts: RequestOpts = {}) => request(clusterSchema, `/api/v1/clusters/${id}`, opts),
 
-export interface Snapshot {
-  id: string;
-  cluster_id: string;
-  nodes: NodeInfo[];
-  pods: PodInfo[];
-  summary: SnapshotSummary;
-  created_at: string;
-}
-
-export interface NodeInfo {
-  name: string;
-  instance_type?: string;
-  region?: string;
-  kubelet_version?: string;
-  cpu_capacity_millis: number;
-  memory_capacity_bytes: number;
-  cpu_allocatable_millis: number;
-  mem_allocatable_bytes: number;
-  pod_count: number;
-  ready: boolean;
-  cost_per_hour?: number;
-}
-
-export interface PodInfo {
-  name: string;
-  namespace: string;
-  node_name: string;
-  status: string;
-  image?: string;
-  image_tag: string;
-  cpu_request_millis: number;
-  cpu_limit_millis: number;
-  mem_request_bytes: number;
-  mem_limit_bytes: number;
-  cpu_usage_millis: number;
-  mem_usage_bytes: number;
-  restart_count: number;
-  run_as_root: boolean;
-  privileged: boolean;
-  host_network: boolean;
-  host_pid: boolean;
-  has_liveness_probe: boolean;
-  has_readiness_probe: boolean;
-  has_security_context: boolean;
-  read_only_root_fs: boolean;
-}
-
-export interface SnapshotSummary {
-  node_count: number;
-  pod_count: number;
-  total_cpu_request_millis: number;
-  total_cpu_usage_millis: number;
-  total_mem_request_bytes: number;
-  total_mem_usage_bytes: number;
-  cpu_utilization_percent: number;
-  mem_utilization_percent: number;
-  over_provisioned_pods: number;
-  run_as_root_pods: number;
-  latest_tag_pods: number;
-}
-
-export interface SecurityReport {
-  id: string;
-  cluster_id: string;
-  score: number;
-  total_findings: number;
-  report: {
-    total_findings: number;
-    by_severity: Record<string, number>;
-    by_category: Record<string, number>;
-    passed_rules: number;
-    failed_rules: number;
-    total_rules: number;
-    score: number;
-    findings: SecurityFinding[];
-  };
-  created_at: string;
-}
-
-export interface SecurityFinding {
-  rule_id: string;
-  rule_name: string;
-  severity: string;
-  category: string;
-  resource: string;
-  namespace: string;
-  message: string;
-  remediation: string;
-}
-
-export interface SecurityRule {
-  id: string;
-  name: string;
-  severity: string;
-  category: string;
-  description: string;
-}
-
-// Attack Path types
-export interface AttackPathAnalysis {
-  total_paths: number;
-  critical_paths: number;
-  high_paths: number;
-  medium_paths: number;
-  risk_score: number;
-  attack_paths: AttackPath[];
-  recommendations: string[];
-}
-
-export interface AttackPath {
-  id: string;
-  name: string;
-  description: string;
-  risk: string;
-  nodes: AttackPathNode[];
-  edges: AttackPathEdge[];
-  remediations: AttackPathRemediation[];
-}
-
-export interface AttackPathRemediation {
-  step: number;
-  action: string;
-  command?: string;
-  description: string;
-  priority: string;
-}
-
-export interface AttackPathNode {
-  id: string;
-  label: string;
-  type: string;
-  severity: string;
-  detail: string;
-}
-
-export interface AttackPathEdge {
-  from: string;
-  to: string;
-  label: string;
-  technique: string;
-  description: string;
-}
-
-// Simulation types
-export interface SimulationResult {
-  scenario: string;
-  impact: string;
-  summary: string;
-  evicted_pods: EvictedPod[];
-  affected_services: string[] | null;
-  resource_delta: ResourceDelta;
-  warnings: string[];
-  cost_savings_monthly: number;
-}
-
-export interface EvictedPod {
-  name: string;
-  namespace: string;
-  reason: string;
-  can_reschedule: boolean;
-}
-
-export interface ResourceDelta {
-  cpu_before_millis: number;
-  cpu_after_millis: number;
-  mem_before_bytes: number;
-  mem_after_bytes: number;
-  cpu_util_before: number;
-  cpu_util_after: number;
-  mem_util_before: number;
-  mem_util_after: number;
-}
+  createCluster: (name: string, provider: string, orgId: string | null) =>
+    request(createdClusterSchema, '/api/v1/clusters', {
+      method: 'POST',
+      body: JSON.stringify({ name, provider, org_id: orgId }),
+    }),
 
-// Cost types
-export interface CostReport {
-  provider: string;
-  pricing_model: { cpu_per_hour: number; mem_per_gb_hour: number; description: string };
-  total_monthly_cost: number;
-  total_wasted_cost: number;
-  savings_if_rightsized: number;
-  overall_efficiency: number;
-  nodes: NodeCost[];
-  top_expensive_pods: PodCost[];
-  top_wasteful_pods: PodCost[];
-  by_namespace: NamespaceCost[];
-  recommendations: CostRec[] | null;
-}
+  updateCluster: (id: string, update: ClusterUpdate) =>
+    request(clusterSchema, `/api/v1/clusters/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(update),
+    }),
 
-export interface NodeCost {
-  name: string;
-  cpu_capacity_millis: number;
-  mem_capacity_bytes: number;
-  hourly_cost: number;
-  daily_cost: number;
-  monthly_cost: number;
-}
+  deleteCluster: (id: string) =>
+    request(null, `/api/v1/clusters/${id}`, { method: 'DELETE' }),
 
-export interface PodCost {
-  name: string;
-  namespace: string;
-  cpu_request_millis: number;
-  mem_request_bytes: number;
-  cpu_usage_millis: number;
-  mem_usage_bytes: number;
-  hourly_cost: number;
-  monthly_cost: number;
-  wasted_cost_monthly: number;
-  efficiency_percent: number;
-  rightsize_cpu_millis: number;
-  rightsize_mem_bytes: number;
-  savings_if_rightsized: number;
-}
+  // Agent reports over the last day
+  getHeartbeats: (clusterId: string, opts: RequestOpts = {}) =>
+    request(heartbeatSchema.array(), `/api/v1/clusters/${clusterId}/heartbeats`, opts),
 
-export interface NamespaceCost {
-  namespace: string;
-  pod_count: number;
-  monthly_cost: number;
-  wasted_cost: number;
-}
+  // Agent API keys. Listing never returns a secret; revealing one is audited.
+  getApiKeys: (clusterId: string, opts: RequestOpts = {}) =>
+    request(apiKeySchema.array(), `/api/v1/clusters/${clusterId}/keys`, opts),
 
-export interface CostRec {
-  type: string;
-  resource: string;
-  message: string;
-  savings_monthly: number;
-}
+  // The current key keeps working for `gracePeriod` seconds so agents can be
+  // moved over; 0 cuts it off at once
+  rotateApiKey: (clusterId: string, gracePeriod: number) =>
+    request(rotatedApiKeySchema, `/api/v1/clusters/${clusterId}/keys/rotate`, {
+      method: 'POST',
+      body: JSON.stringify({ grace_period_seconds: gracePeriod }),
+    }),
 
-// Blast Radius types
-export interface BlastRadiusResult {
-  target: string;
-  target_type: string;
-  nodes: ServiceNode[];
-  dependencies: Dependency[];
-  impact: ImpactAssessment;
-  zones: BlastZone[];
-}
+  revealApiKey: (clusterId: string, keyId: string) =>
+    request(apiKeySecretSchema, `/api/v1/clusters/${clusterId}/keys/${keyId}/reveal`, { method: 'POST' }),
 
-export interface ServiceNode {
-  id: string;
-  name: string;
-  namespace: string;
-  type: string;
-  replicas: number;
-  critical: boolean;
-}
+  revokeApiKey: (clusterId: string, keyId: string) =>
+    request(null, `/api/v1/clusters/${clusterId}/keys/${keyId}/revoke`, { method: 'POST' }),
 
-export interface Dependency {
-  from: string;
-  to: string;
-  type: string;
-  label: string;
-}
+  // Snapshots
+  getLatestSnapshot: (clusterId: string, opts: RequestOpts = {}) =>
+    request(snapshotSchema, `/api/v1/clusters/${clusterId}/snapshots/latest`, opts),
 
-export interface ImpactAssessment {
-  affected_pods: number;
-  affected_services: number;
-  downtime_risk: string;
-  description: string;
-  cascade_chain: string[] | null;
-}
+  getSnapshots: (clusterId: string, opts: RequestOpts = {}) =>
+    request(snapshotSchema.array(), `/api/v1/clusters/${clusterId}/snapshots`, opts),
 
-export interface BlastZone {
-  level: number;
-  label: string;
-  services: ServiceNode[];
-}
+  getSnapshot: (clusterId: string, snapshotId: string, opts: RequestOpts = {}) =>
+    request(snapshotSchema, `/api/v1/clusters/${clusterId}/snapshots/${snapshotId}`, opts),
 
-// Timeline types
-export interface TimelinePoint {
-  id: string;
-  created_at: string;
-  node_count: number;
-  pod_count: number;
-  cpu_utilization: number;
-  mem_utilization: number;
-  run_as_root_pods: number;
-  latest_tag_pods: number;
-}
+  // Security
+  getSecurityReport: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(securityReportSchema, `/api/v1/clusters/${clusterId}/security${asOf(snapshotId)}`, opts),
 
-// Topology types
-export interface TopologyNode {
-  id: string;
-  label: string;
-  type: string;
-  namespace?: string;
-  status: string;
-  metadata?: Record<string, unknown>;
-}
+  getSecurityRules: (opts: RequestOpts = {}) => request(securityRuleSchema.array(), '/api/v1/security/rules', opts),
 
-export interface TopologyEdge {
-  source: string;
-  target: string;
-  type: string;
-}
+  // Innovative features
+  getAttackPaths: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(attackPathAnalysisSchema, `/api/v1/clusters/${clusterId}/attack-paths${asOf(snapshotId)}`, opts),
 
-export interface ClusterTopology {
-  nodes: TopologyNode[];
-  edges: TopologyEdge[];
-  stats: {
-    total_nodes: number;
-    total_pods: number;
-    total_namespaces: number;
-    healthy_pods: number;
-    warning_pods: number;
-    critical_pods: number;
-  };
-}
+  simulate: (clusterId: string, type: string, params: Record<string, unknown>, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(simulationResultSchema, `/api/v1/clusters/${clusterId}/simulate${asOf(snapshotId)}`, {
+      ...opts,
+      method: 'POST',
+      body: JSON.stringify({ type, params }),
+    }),
 
-// Heatmap types
-export interface HeatmapCell {
-  namespace: string;
-  metric: string;
-  value: number;
-  max: number;
-  intensity: number;
-}
+  getCosts: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(costReportSchema, `/api/v1/clusters/${clusterId}/costs${asOf(snapshotId)}`, opts),
 
-export interface NodeHeatmapRow {
-  node_name: string;
-  cpu_percent: number;
-  mem_percent: number;
-  pod_percent: number;
-  pod_count: number;
-  max_pods: number;
-  cpu_requested: number;
-  cpu_capacity: number;
-  mem_requested: number;
-  mem_capacity: number;
-}
+  getBlastRadius: (clusterId: string, targetType: string, target: string, namespace?: string, snapshotId?: string, opts: RequestOpts = {}) => {
+    const params = new URLSearchParams({ type: targetType, target });
+    if (namespace) params.set('namespace', namespace);
+    if (snapshotId) params.set('snapshot_id', snapshotId);
+    return request(blastRadiusResultSchema, `/api/v1/clusters/${clusterId}/blast-radius?${params}`, opts);
+  },
 
-export interface HeatmapData {
-  namespaces: string[];
-  metrics: string[];
-  cells: HeatmapCell[];
-  node_map: NodeHeatmapRow[];
-}
+  // History up to the snapshot, so the chart ends where the other pages are
+  getTimeline: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(timelinePointSchema.array(), `/api/v1/clusters/${clusterId}/timeline${asOf(snapshotId)}`, opts),
 
-// Event types
-export interface PodEvent {
-  type: string;
-  pod: string;
-  namespace: string;
-  message: string;
-  severity: string;
-  time: string;
-}
+  // Dashboard features
+  getTopology: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(clusterTopologySchema, `/api/v1/clusters/${clusterId}/topology${asOf(snapshotId)}`, opts),
 
-export interface EventStream {
-  events: PodEvent[];
-  summary: {
-    total_events: number;
-    additions: number;
-    removals: number;
-    restarts: number;
-    warnings: number;
-  };
-}
+  getHeatmap: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(heatmapDataSchema, `/api/v1/clusters/${clusterId}/heatmap${asOf(snapshotId)}`, opts),
 
-// Alert types
-export interface SmartAlert {
-  id: string;
-  type: string;
-  severity: string;
-  title: string;
-  description: string;
-  resource: string;
-  metric?: string;
-  suggestion: string;
-}
+  getEvents: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(eventStreamSchema, `/api/v1/clusters/${clusterId}/events${asOf(snapshotId)}`, opts),
 
-export interface AlertsResponse {
-  alerts: SmartAlert[];
-  critical: number;
-  warning: number;
-  info: number;
-}
+  getAlerts: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(alertsResponseSchema, `/api/v1/clusters/${clusterId}/alerts${asOf(snapshotId)}`, opts),
 
-// Namespace Compare types
-export interface NamespaceProfile {
-  namespace: string;
-  pod_count: number;
-  running_pods: number;
-  total_cpu_request: number;
-  total_mem_request: number;
-  total_cpu_usage: number;
-  total_mem_usage: number;
-  root_pods: number;
-  privileged_pods: number;
-  no_probes_pods: number;
-  total_restarts: number;
-  latest_tag_pods: number;
-  images: string[];
-}
+  getNSCompare: (clusterId: string, ns1?: string, ns2?: string, snapshotId?: string, opts: RequestOpts = {}): Promise<NSCompareResponse | NamespaceList> => {
+    // Without both namespaces the endpoint lists the available ones instead
+    if (!ns1 || !ns2) return request(namespaceListSchema, `/api/v1/clusters/${clusterId}/ns-compare${asOf(snapshotId)}`, opts);
+    const params = new URLSearchParams({ ns1, ns2 });
+    if (snapshotId) params.set('snapshot_id', snapshotId);
+    return request(nsCompareResponseSchema, `/api/v1/clusters/${clusterId}/ns-compare?${params}`, opts);
+  },
 
-export interface NSCompareResponse {
-  ns1: NamespaceProfile;
-  ns2: NamespaceProfile;
-}
+  getGoldenSignals: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(goldenSignalsSchema, `/api/v1/clusters/${clusterId}/golden-signals${asOf(snapshotId)}`, opts),
 
-// Golden Signals types
-export interface GoldenSignals {
-  saturation: {
-    cpu_request_percent: number;
-    mem_request_percent: number;
-    pod_capacity_used: number;
-    status: string;
-    message: string;
-  };
-  errors: {
-    crashing_pods: number;
-    restarting_pods: number;
-    not_ready_pods: number;
-    total_restarts: number;
-    status: string;
-    top_restarters: string[];
-  };
-  traffic: {
-    total_pods: number;
-    running_pods: number;
-    pending_pods: number;
-    availability_percent: number;
-    status: string;
-  };
-  utilization: {
-    cpu_usage_percent: number;
-    mem_usage_percent: number;
-    cpu_efficiency: number;
-    mem_efficiency: number;
-    status: string;
-  };
-  by_namespace: {
-    namespace: string;
-    pods: number;
-    restarts: number;
-    cpu_request: number;
-    mem_request: number;
-    health: string;
-  }[];
-}
+  getServiceMesh: (clusterId: string, snapshotId?: string, opts: RequestOpts = {}) =>
+    request(serviceMeshResponseSchema, `/api/v1/clusters/${clusterId}/service-mesh${asOf(snapshotId)}`, opts),
 
-// Service Mesh types
-export interface ServiceMeshNode {
-  id: string;
-  name: string;
-  namespace: string;
-  kind: string;
-  status: string;
-  details?: Record<string, unknown>;
-}
+  // Where agents report to, and the manifests the backend renders for the
+  // agent key it is called with
+  agentApiUrl: () => API_URL,
+  agentManifestUrl: () => `${API_URL}/api/v1/agent/manifest`,
 
-export interface ServiceMeshEdge {
-  source: string;
-  target: string;
-  type: string;
-}
+  // Live updates. EventSource cannot send headers, so the token goes in the query.
+  streamUrl: (clusterId: string) => {
+    const params = new URLSearchParams({ token: getToken() || '' });
+    return `${API_URL}/api/v1/clusters/${clusterId}/stream?${params}`;
+  },
+};
 
-export interface ServiceMeshResponse {
-  nodes: ServiceMeshNode[];
-  edges: ServiceMeshEdge[];
-}
+// Types are inferred from the runtime schemas
+export type {
+  AlertsResponse, ApiKey, ApiKeyStatus, AttackPath, AttackPathAnalysis, AttackPathEdge, AttackPathNode,
+  AttackPathRemediation, AuditEntry, BlastRadiusResult, BlastZone, Cluster, ClusterEnvironment, ClusterTopology,
+  CostRec, CostReport, CreatedCluster, Dependency, EventStream, EvictedPod, GoldenSignals, Heartbeat,
+  HeatmapCell, HeatmapData, ImpactAssessment, Invite, InvitePreview, LiveAlerts, LiveSnapshot, Member,
+  NamespaceCost, NamespaceList, NamespaceProfile, NodeCost, NodeHeatmapRow, NodeInfo, NSCompareResponse,
+  OrgMembership, PodCost, PodEvent, PodInfo, ResourceDelta, Role, RotatedApiKey, SecurityFinding,
+  SecurityReport, SecurityRule, ServiceMeshEdge, ServiceMeshNode, ServiceMeshResponse, ServiceNode,
+  SimulationResult, SmartAlert, Snapshot, SnapshotSummary, TimelinePoint, TopologyEdge, TopologyNode, User,
+} from './schemas';
@@ -0,0 +1,115 @@
+import type { Cluster, ClusterEnvironment } from './api';
+
+// Cluster metadata shared by the Clusters table, the sidebar selector and the
+// forms that edit it: the known providers and environments, plus the filter
+// and grouping rules both lists apply.
+
+export const providers = [
+  { value: 'eks', label: 'Amazon EKS', color: 'border-orange-400/30 hover:border-orange-400' },
+  { value: 'gke', label: 'Google GKE', color: 'border-blue-400/30 hover:border-blue-400' },
+  { value: 'aks', label: 'Azure AKS', color: 'border-sky-400/30 hover:border-sky-400' },
+  { value: 'k3s', label: 'K3s', color: 'border-green-400/30 hover:border-green-400' },
+  { value: 'openshift', label: 'OpenShift', color: 'border-red-400/30 hover:border-red-400' },
+  { value: 'other', label: 'Other', color: 'border-gray-400/30 hover:border-gray-400' },
+];
+
+// In display and grouping order
+export const environments: { value: ClusterEnvironment; label: string }[] = [
+  { value: 'prod', label: 'Production' },
+  { value: 'staging', label: 'Staging' },
+  { value: 'dev', label: 'Development' },
+];
+
+export type ClusterGrouping = 'none' | 'environment' | 'owner_team' | 'provider';
+
+export const groupings: { value: ClusterGrouping; label: string }[] = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'environment', label: 'Environment' },
+  { value: 'owner_team', label: 'Owner team' },
+  { value: 'provider', label: 'Provider' },
+];
+
+export interface ClusterView {
+  // Matches name, description, owner team and label keys and values
+  search: string;
+  environment: ClusterEnvironment | '';
+  team: string;
+  // `key` or `key=value`
+  label: string;
+  groupBy: ClusterGrouping;
+}
+
+export const NO_FILTERS: Omit<ClusterView, 'groupBy'> = { search: '', environment: '', team: '', label: '' };
+
+export const DEFAULT_VIEW: ClusterView = { ...NO_FILTERS, groupBy: 'none' };
+
+export interface ClusterGroup {
+  key: string;
+  label: string;
+  clusters: Cluster[];
+}
+
+// Kubernetes-style keys: alphanumerics with . _ / - inside
+const LABEL_KEY = /^[a-z0-9]([a-z0-9._/-]{0,61}[a-z0-9])?$/i;
+
+export function isValidLabelKey(key: string) {
+  return LABEL_KEY.test(key);
+}
+
+export const environmentLabel = (env: ClusterEnvironment) => environments.find((e) => e.value === env)?.label ?? env;
+
+export const providerLabel = (provider: string) => providers.find((p) => p.value === provider)?.label ?? provider.toUpperCase();
+
+export function isFiltered(view: ClusterView) {
+  return !!(view.search || view.environment || view.team || view.label);
+}
+
+export function ownerTeams(clusters: Cluster[]) {
+  return [...new Set(clusters.flatMap((c) => (c.owner_team ? [c.owner_team] : [])))].sort();
+}
+
+function matchesLabel(labels: Record<string, string>, filter: string) {
+  const [key, ...rest] = filter.split('=');
+  const value = rest.join('=').trim();
+  const actual = labels[key.trim()];
+  return actual !== undefined && (rest.length === 0 || actual === value);
+}
+
+export function filterClusters(clusters: Cluster[], view: ClusterView) {
+  const search = view.search.trim().toLowerCase();
+  const label = view.label.trim();
+  return clusters.filter((c) => {
+    if (view.environment && c.environment !== view.environment) return false;
+    if (view.team && c.owner_team !== view.team) return false;
+    if (label && !matchesLabel(c.labels, label)) return false;
+    if (!search) return true;
+    const haystack = [c.name, c.description, c.owner_team, ...Object.entries(c.labels).map(([k, v]) => `${k}=${v}`)];
+    return haystack.some((text) => text?.toLowerCase().includes(search));
+  });
+}
+
+// Environments sort in their natural order, everything else by name, and
+// clusters without a value come last. Within a group the input order is kept.
+export function groupClusters(clusters: Cluster[], groupBy: ClusterGrouping): ClusterGroup[] {
+  if (groupBy === 'none') return [{ key: 'all', label: 'All clusters', clusters }];
+
+  const keyOf = (c: Cluster) => (groupBy === 'environment' ? c.environment : groupBy === 'owner_team' ? c.owner_team : c.provider) ?? '';
+  const labelOf = (key: string) => {
+    if (!key) return groupBy === 'environment' ? 'No environment' : 'No owner team';
+    if (groupBy === 'environment') return environmentLabel(key as ClusterEnvironment);
+    return groupBy === 'provider' ? providerLabel(key) : key;
+  };
+  const order = (key: string) => {
+    if (!key) return Infinity;
+    return groupBy === 'environment' ? environments.findIndex((e) => e.value === key) : 0;
+  };
+
+  const groups = new Map<string, Cluster[]>();
+  for (const cluster of clusters) {
+    const key = keyOf(cluster);
+    groups.set(key, [...(groups.get(key) ?? []), cluster]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => order(a) - order(b) || a.localeCompare(b))
+    .map(([key, items]) => ({ key: key || 'none', label: labelOf(key), clusters: items }));
+}
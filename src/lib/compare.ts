@@ -0,0 +1,179 @@
+import type { Cluster, CostReport, NodeInfo, SecurityReport, Snapshot, SnapshotSummary } from './api';
+
+// Side-by-side comparison of two or more clusters. Every section is a table
+// with one column per cluster; a row drifts when the clusters disagree on it,
+// which is what a staging vs production review is looking for.
+
+export const MAX_COMPARED = 4;
+
+export interface ComparedCluster {
+  cluster: Cluster;
+  snapshot: Snapshot | null | undefined;
+  security: SecurityReport | null | undefined;
+  costs: CostReport | null | undefined;
+}
+
+export interface ComparisonRow {
+  key: string;
+  label: string;
+  // One per cluster, null where the cluster has nothing to show
+  values: (string | null)[];
+  drift: boolean;
+}
+
+export interface ComparisonSection {
+  id: string;
+  title: string;
+  description: string;
+  rows: ComparisonRow[];
+}
+
+const GI = 1024 * 1024 * 1024;
+
+// Clusters without data say nothing about drift
+function differ(values: unknown[]) {
+  return new Set(values.filter((v) => v !== null && v !== undefined)).size > 1;
+}
+
+function row(key: string, label: string, values: (string | null)[], drift = differ(values)): ComparisonRow {
+  return { key, label, values, drift };
+}
+
+// Summary numbers differ between any two clusters, so only the ratios that
+// should match across environments count as drift
+function summaryRows(clusters: ComparedCluster[]): ComparisonRow[] {
+  const summaries = clusters.map((c) => c.snapshot?.summary);
+  const metric = (key: string, label: string, format: (s: SnapshotSummary) => string, drift = false) =>
+    row(key, label, summaries.map((s) => (s ? format(s) : null)), drift);
+  const pct = (n: number) => `${n.toFixed(0)}%`;
+  const ratioDrift = (pick: (s: SnapshotSummary) => number) => {
+    // Like differ(), clusters without pods say nothing about drift
+    const ratios = summaries
+      .filter((s): s is SnapshotSummary => !!s && s.pod_count > 0)
+      .map((s) => pick(s) / s.pod_count);
+    return ratios.length > 1 && Math.max(...ratios) - Math.min(...ratios) > 0.1;
+  };
+
+  return [
+    metric('nodes', 'Nodes', (s) => String(s.node_count)),
+    metric('pods', 'Pods', (s) => String(s.pod_count)),
+    metric('cpu_requests', 'CPU requested', (s) => `${(s.total_cpu_request_millis / 1000).toFixed(1)} cores`),
+    metric('mem_requests', 'Memory requested', (s) => `${(s.total_mem_request_bytes / GI).toFixed(1)} GiB`),
+    metric('cpu_util', 'CPU utilization', (s) => pct(s.cpu_utilization_percent)),
+    metric('mem_util', 'Memory utilization', (s) => pct(s.mem_utilization_percent)),
+    metric('root', 'Pods running as root', (s) => String(s.run_as_root_pods), ratioDrift((s) => s.run_as_root_pods)),
+    metric('latest', 'Pods on :latest', (s) => String(s.latest_tag_pods), ratioDrift((s) => s.latest_tag_pods)),
+    metric('overprovisioned', 'Over-provisioned pods', (s) => String(s.over_provisioned_pods)),
+  ];
+}
+
+// "v1.29.3 ×3, v1.28.9 ×1" for the values a cluster's nodes or pods carry
+function tally(values: string[]) {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([v, n]) => (n > 1 ? `${v} ×${n}` : v)).join(', ');
+}
+
+function distinct(values: string[]) {
+  return [...new Set(values)].sort().join(', ');
+}
+
+function nodeRows(clusters: ComparedCluster[]): ComparisonRow[] {
+  const field = (pick: (n: NodeInfo) => string | undefined) =>
+    clusters.map((c) => c.snapshot?.nodes.map((n) => pick(n) ?? 'unknown'));
+  const kubelets = field((n) => n.kubelet_version);
+  const types = field((n) => n.instance_type);
+  const regions = field((n) => n.region);
+
+  // Drift is about which values are in use, not how many nodes run them
+  const rowOf = (key: string, label: string, lists: (string[] | undefined)[]) => row(
+    key,
+    label,
+    lists.map((l) => (l ? tally(l) : null)),
+    differ(lists.map((l) => l && distinct(l))),
+  );
+
+  return [
+    rowOf('kubelet', 'Kubelet versions', kubelets),
+    rowOf('instance_types', 'Instance types', types),
+    rowOf('regions', 'Regions', regions),
+  ];
+}
+
+function securityRows(clusters: ComparedCluster[]): ComparisonRow[] {
+  const reports = clusters.map((c) => c.security);
+  const rules = new Map<string, string>();
+  reports.forEach((r) => r?.report.findings.forEach((f) => rules.set(f.rule_id, `${f.rule_name} (${f.severity})`)));
+
+  const counts = reports.map((r) => (r ? r.report.findings.reduce<Record<string, number>>((acc, f) => {
+    acc[f.rule_id] = (acc[f.rule_id] ?? 0) + 1;
+    return acc;
+  }, {}) : null));
+
+  return [
+    row('score', 'Security score', reports.map((r) => (r ? `${r.score}/100` : null)), false),
+    row('failed_rules', 'Failed rules', reports.map((r) => (r ? `${r.report.failed_rules} of ${r.report.total_rules}` : null))),
+    ...[...rules.entries()].sort(([, a], [, b]) => a.localeCompare(b)).map(([id, label]) => row(
+      `rule:${id}`,
+      label,
+      counts.map((c) => (c === null ? null : c[id] ? `fails on ${c[id]}` : 'passes')),
+      differ(counts.map((c) => c && !!c[id])),
+    )),
+  ];
+}
+
+function costRows(clusters: ComparedCluster[]): ComparisonRow[] {
+  const reports = clusters.map((c) => c.costs);
+  const byNamespace = reports.map((r) => (r ? new Map(r.by_namespace.map((ns) => [ns.namespace, ns])) : null));
+  const namespaces = [...new Set(byNamespace.flatMap((m) => (m ? [...m.keys()] : [])))].sort();
+  const money = (n: number) => `$${n.toFixed(0)}`;
+
+  return [
+    row('total', 'Total per month', reports.map((r) => (r ? money(r.total_monthly_cost) : null)), false),
+    row('wasted', 'Wasted per month', reports.map((r) => (r ? money(r.total_wasted_cost) : null)), false),
+    row('efficiency', 'Efficiency', reports.map((r) => (r ? `${r.overall_efficiency.toFixed(0)}%` : null)), false),
+    // A namespace that only exists in some clusters is drift; its cost isn't
+    ...namespaces.map((ns) => {
+      const costs = byNamespace.map((m) => (m === null ? null : m.get(ns) ?? null));
+      return row(
+        `ns:${ns}`,
+        ns,
+        costs.map((c, i) => (byNamespace[i] === null ? null : c ? money(c.monthly_cost) : 'absent')),
+        costs.some((c, i) => byNamespace[i] !== null && !c),
+      );
+    }),
+  ];
+}
+
+// Images without their tags, so the same component lines up across clusters
+function imageRows(clusters: ComparedCluster[]): ComparisonRow[] {
+  const tags = clusters.map((c) => {
+    if (!c.snapshot) return null;
+    const byImage = new Map<string, Set<string>>();
+    for (const pod of c.snapshot.pods) {
+      const image = pod.image ?? 'unknown';
+      byImage.set(image, (byImage.get(image) ?? new Set()).add(pod.image_tag));
+    }
+    return byImage;
+  });
+  const images = [...new Set(tags.flatMap((m) => (m ? [...m.keys()] : [])))].sort();
+
+  return images.map((image) => {
+    const values = tags.map((m) => (m === null ? null : m.has(image) ? [...m.get(image)!].sort().join(', ') : 'absent'));
+    return row(`image:${image}`, image, values);
+  });
+}
+
+export function compareClusters(clusters: ComparedCluster[]): ComparisonSection[] {
+  return [
+    { id: 'summary', title: 'Summary', description: 'Size and usage from the latest snapshot', rows: summaryRows(clusters) },
+    { id: 'nodes', title: 'Nodes', description: 'Kubelet versions and instance types in use', rows: nodeRows(clusters) },
+    { id: 'security', title: 'Security', description: 'Score and the rules each cluster fails', rows: securityRows(clusters) },
+    { id: 'costs', title: 'Cost per namespace', description: 'Estimated monthly cost', rows: costRows(clusters) },
+    { id: 'images', title: 'Images', description: 'Tags of every image in use', rows: imageRows(clusters) },
+  ];
+}
+
+export function driftCount(sections: ComparisonSection[]) {
+  return sections.reduce((n, s) => n + s.rows.filter((r) => r.drift).length, 0);
+}
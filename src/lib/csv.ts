@@ -0,0 +1,29 @@
+// RFC 4180 CSV: fields containing a comma, quote or newline are quoted and
+// quotes are doubled. Cells starting with = + - @ are prefixed with a quote
+// so spreadsheet apps don't evaluate them as formulas.
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+function escapeCell(value: string | number | null | undefined) {
+  let text = value == null ? '' : String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]) {
+  const lines = [columns.map((c) => escapeCell(c.header))];
+  for (const row of rows) lines.push(columns.map((c) => escapeCell(c.value(row))));
+  return lines.map((cells) => cells.join(',')).join('\r\n');
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
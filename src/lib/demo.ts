@@ -0,0 +1,24 @@
+// Demo mode serves everything from the in-browser mock backend and signs the
+// visitor in automatically. It is switched on by opening any page with
+// ?demo=1 and lasts for the browser tab. VITE_MOCK=true uses the mock backend
+// for local development without the automatic sign-in.
+
+const DEMO_KEY = 'infradar-demo';
+
+export const DEMO_CREDENTIALS = { email: 'demo@infradar.dev', password: 'demo' };
+
+if (typeof window !== 'undefined' && new URLSearchParams(window.location.search).get('demo') === '1') {
+  sessionStorage.setItem(DEMO_KEY, '1');
+}
+
+export function isDemoMode() {
+  return typeof window !== 'undefined' && sessionStorage.getItem(DEMO_KEY) === '1';
+}
+
+export function isMockBackend() {
+  return import.meta.env.VITE_MOCK === 'true' || isDemoMode();
+}
+
+export function exitDemo() {
+  sessionStorage.removeItem(DEMO_KEY);
+}
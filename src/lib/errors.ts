@@ -0,0 +1,108 @@
+// Typed errors thrown by request<T>. Pages use these to tell a failed request
+// apart from an empty result and to decide whether retrying makes sense.
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly endpoint: string;
+  readonly backendMessage: string | null;
+  readonly retryable: boolean;
+
+  constructor(status: number, endpoint: string, backendMessage: string | null, retryable: boolean, fallback = 'Request failed') {
+    super(backendMessage || fallback);
+    this.name = 'ApiError';
+    this.status = status;
+    this.endpoint = endpoint;
+    this.backendMessage = backendMessage;
+    this.retryable = retryable;
+  }
+}
+
+// fetch itself failed: DNS, CORS, connection refused, offline
+export class NetworkError extends ApiError {
+  constructor(endpoint: string, cause?: unknown) {
+    super(0, endpoint, null, true, 'Could not reach the Infradar API');
+    this.name = 'NetworkError';
+    this.cause = cause;
+  }
+}
+
+export class UnauthorizedError extends ApiError {
+  constructor(endpoint: string, backendMessage: string | null) {
+    super(401, endpoint, backendMessage, false, 'Unauthorized');
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends ApiError {
+  constructor(endpoint: string, backendMessage: string | null) {
+    super(403, endpoint, backendMessage, false, 'You do not have access to this resource');
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(endpoint: string, backendMessage: string | null) {
+    super(404, endpoint, backendMessage, false, 'Not found');
+    this.name = 'NotFoundError';
+  }
+}
+
+// retryAfter is the server's Retry-After header in milliseconds, if it sent one
+export class RateLimitError extends ApiError {
+  readonly retryAfter: number | null;
+
+  constructor(endpoint: string, backendMessage: string | null, retryAfter: number | null = null) {
+    super(429, endpoint, backendMessage, true, 'Too many requests');
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class ServerError extends ApiError {
+  readonly retryAfter: number | null;
+
+  constructor(status: number, endpoint: string, backendMessage: string | null, retryAfter: number | null = null) {
+    super(status, endpoint, backendMessage, true, 'The Infradar API returned an error');
+    this.name = 'ServerError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export interface SchemaIssue {
+  path: string;
+  expected: string;
+  received: string;
+}
+
+// The request succeeded but the body does not match the schema in schemas.ts
+export class ResponseValidationError extends ApiError {
+  readonly issues: SchemaIssue[];
+
+  constructor(status: number, endpoint: string, issues: SchemaIssue[]) {
+    const first = issues[0];
+    const detail = first ? `${first.path}: expected ${first.expected}, received ${first.received}` : 'invalid body';
+    super(status, endpoint, null, false, `Unexpected response from ${endpoint} (${detail})`);
+    this.name = 'ResponseValidationError';
+    this.issues = issues;
+  }
+}
+
+export function errorFromStatus(status: number, endpoint: string, backendMessage: string | null, retryAfter: number | null = null): ApiError {
+  switch (status) {
+    case 401: return new UnauthorizedError(endpoint, backendMessage);
+    case 403: return new ForbiddenError(endpoint, backendMessage);
+    case 404: return new NotFoundError(endpoint, backendMessage);
+    case 429: return new RateLimitError(endpoint, backendMessage, retryAfter);
+  }
+  if (status >= 500) return new ServerError(status, endpoint, backendMessage, retryAfter);
+  return new ApiError(status, endpoint, backendMessage, false);
+}
+
+export function isNotFound(err: unknown): err is NotFoundError {
+  return err instanceof NotFoundError;
+}
+
+export function errorMessage(err: unknown, fallback = 'Something went wrong'): string {
+  if (err instanceof Error && err.message) return err.message;
+  return fallback;
+}
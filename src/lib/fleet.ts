@@ -0,0 +1,89 @@
+import type { AlertsResponse, Cluster, CostReport, SecurityReport, TimelinePoint } from './api';
+import { agentHealth } from './health';
+import type { AgentHealth } from './health';
+
+// The Dashboard's fleet overview: one row per cluster built from the same
+// per-cluster endpoints the analysis pages use, plus a health score that
+// sorts the clusters needing attention to the top.
+
+export interface FleetData {
+  security: SecurityReport | null | undefined;
+  costs: CostReport | null | undefined;
+  alerts: AlertsResponse | null | undefined;
+  timeline: TimelinePoint[] | undefined;
+  loading: boolean;
+}
+
+export interface FleetRow {
+  cluster: Cluster;
+  agent: AgentHealth;
+  nodes: number | null;
+  pods: number | null;
+  securityScore: number | null;
+  monthlyCost: number | null;
+  criticalAlerts: number | null;
+  // Oldest first, for the sparkline
+  utilization: { at: string; cpu: number; mem: number }[];
+  // null until the cluster has a snapshot to score
+  score: number | null;
+  loading: boolean;
+}
+
+export type FleetSortKey = 'score' | 'name' | 'nodes' | 'pods' | 'securityScore' | 'monthlyCost' | 'criticalAlerts';
+
+export interface FleetSort {
+  key: FleetSortKey;
+  desc: boolean;
+}
+
+// Worst first
+export const DEFAULT_FLEET_SORT: FleetSort = { key: 'score', desc: false };
+
+// Scores below this count as needing attention
+export const ATTENTION_SCORE = 70;
+
+const AGENT_SCORE: Record<AgentHealth, number> = { healthy: 100, pending: 100, stale: 40, offline: 0 };
+
+// Security posture weighs most; open alerts and a silent agent pull it down
+export function healthScore(securityScore: number, alerts: AlertsResponse | null | undefined, agent: AgentHealth) {
+  const alertScore = Math.max(0, 100 - 25 * (alerts?.critical ?? 0) - 5 * (alerts?.warning ?? 0));
+  return Math.round(0.5 * securityScore + 0.3 * alertScore + 0.2 * AGENT_SCORE[agent]);
+}
+
+export function fleetRow(cluster: Cluster, data: FleetData, now: number): FleetRow {
+  const { security, costs, alerts, timeline = [] } = data;
+  const agent = agentHealth(cluster, now);
+  // Newest first, so this is the latest snapshot's summary
+  const latest = timeline[0];
+  return {
+    cluster,
+    agent,
+    nodes: latest?.node_count ?? null,
+    pods: latest?.pod_count ?? null,
+    securityScore: security?.score ?? null,
+    monthlyCost: costs?.total_monthly_cost ?? null,
+    criticalAlerts: alerts?.critical ?? null,
+    utilization: [...timeline].reverse().map((p) => ({ at: p.created_at, cpu: p.cpu_utilization, mem: p.mem_utilization })),
+    score: latest && security ? healthScore(security.score, alerts, agent) : null,
+    loading: data.loading,
+  };
+}
+
+export function needsAttention(row: FleetRow) {
+  return (row.score !== null && row.score < ATTENTION_SCORE)
+    || (row.criticalAlerts ?? 0) > 0
+    || row.agent === 'stale'
+    || row.agent === 'offline';
+}
+
+// Clusters without a value sort last in either direction
+export function sortFleet(rows: FleetRow[], { key, desc }: FleetSort) {
+  const dir = desc ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    if (key === 'name') return dir * a.cluster.name.localeCompare(b.cluster.name);
+    const av = a[key];
+    const bv = b[key];
+    if (av === null || bv === null) return (av === null ? 1 : 0) - (bv === null ? 1 : 0);
+    return dir * (av - bv) || a.cluster.name.localeCompare(b.cluster.name);
+  });
+}
@@ -0,0 +1,56 @@
+import type { Cluster, Heartbeat } from './api';
+
+// Agent health derived from when the agent last reported, measured in
+// expected snapshot intervals. `status` from the API only knows whether an
+// agent ever connected; an agent that died keeps saying `connected`.
+
+export type AgentHealth = 'pending' | 'healthy' | 'stale' | 'offline';
+
+// Used when the backend doesn't say how the agent is configured
+export const DEFAULT_SNAPSHOT_INTERVAL = 5 * 60;
+
+// Missed intervals before an agent counts as stale, and as offline
+const STALE_AFTER = 2;
+const OFFLINE_AFTER = 6;
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export function snapshotInterval(cluster: Cluster) {
+  return (cluster.snapshot_interval_seconds ?? DEFAULT_SNAPSHOT_INTERVAL) * 1000;
+}
+
+export function agentHealth(cluster: Cluster, now: number): AgentHealth {
+  if (cluster.status === 'disconnected') return 'offline';
+  if (!cluster.last_seen_at) return 'pending';
+  const missed = (now - Date.parse(cluster.last_seen_at)) / snapshotInterval(cluster);
+  if (missed > OFFLINE_AFTER) return 'offline';
+  if (missed > STALE_AFTER) return 'stale';
+  return 'healthy';
+}
+
+export function isUnhealthy(health: AgentHealth) {
+  return health === 'stale' || health === 'offline';
+}
+
+export function formatAge(ms: number) {
+  if (ms < MINUTE) return 'just now';
+  if (ms < HOUR) return `${Math.floor(ms / MINUTE)} min ago`;
+  if (ms < DAY) return `${Math.floor(ms / HOUR)} h ago`;
+  return `${Math.floor(ms / DAY)} d ago`;
+}
+
+export function formatInterval(ms: number) {
+  return ms < HOUR ? `${Math.round(ms / MINUTE)} min` : `${Math.round(ms / HOUR)} h`;
+}
+
+// Minutes between consecutive reports, oldest first, for the heartbeat chart
+export function heartbeatGaps(heartbeats: Heartbeat[]) {
+  const times = heartbeats.map((h) => Date.parse(h.at)).sort((a, b) => a - b);
+  return times.slice(1).map((at, i) => ({ at, gap: (at - times[i]) / MINUTE }));
+}
+
+export function staleThreshold(cluster: Cluster) {
+  return snapshotInterval(cluster) * STALE_AFTER;
+}
@@ -0,0 +1,161 @@
+import { api } from './api';
+import type { EventStream, PodEvent } from './api';
+import { isMockBackend } from './demo';
+import { getQueryEntry, invalidateQueries, setQueryData } from './query';
+import { queryKeys } from './queries';
+import { liveAlertsSchema, liveSnapshotSchema, podEventSchema } from './schemas';
+import { parseResponse } from './validation';
+
+// Server-Sent Events channel for the cluster being viewed. Messages are applied
+// straight to the query cache, so every page showing the data updates itself.
+
+export type LiveStatus = 'idle' | 'connecting' | 'live' | 'reconnecting';
+
+export interface LiveHandlers {
+  onOpen: () => void;
+  onMessage: (type: string, data: unknown) => void;
+  onError: () => void;
+}
+
+// A transport opens the stream and returns a function that closes it
+export type LiveTransport = (clusterId: string, handlers: LiveHandlers) => () => void;
+
+const MESSAGE_TYPES = ['snapshot', 'pod_event', 'alerts'];
+const MAX_EVENTS = 500;
+const MIN_BACKOFF = 1_000;
+const MAX_BACKOFF = 30_000;
+
+let status: LiveStatus = 'idle';
+const listeners = new Set<() => void>();
+
+function setStatus(next: LiveStatus) {
+  if (next === status) return;
+  status = next;
+  listeners.forEach((cb) => cb());
+}
+
+export function getLiveStatus() {
+  return status;
+}
+
+export function subscribeLiveStatus(cb: () => void) {
+  listeners.add(cb);
+  return () => {
+    listeners.delete(cb);
+  };
+}
+
+const eventSourceTransport: LiveTransport = (clusterId, { onOpen, onMessage, onError }) => {
+  const source = new EventSource(api.streamUrl(clusterId));
+  source.onopen = onOpen;
+  source.onerror = onError;
+  for (const type of MESSAGE_TYPES) {
+    source.addEventListener(type, (e) => {
+      try {
+        onMessage(type, JSON.parse((e as MessageEvent<string>).data));
+      } catch {
+        // Malformed frames are dropped; the next snapshot resyncs everything
+      }
+    });
+  }
+  return () => source.close();
+};
+
+// The mock stream is loaded on demand, like the mock backend itself
+const mockTransport: LiveTransport = (clusterId, handlers) => {
+  let close: (() => void) | null = null;
+  let closed = false;
+  import('../mock/stream').then(({ openMockStream }) => {
+    if (!closed) close = openMockStream(clusterId, handlers);
+  });
+  return () => {
+    closed = true;
+    close?.();
+  };
+};
+
+function addEvent(clusterId: string, event: PodEvent) {
+  const key = queryKeys.events(clusterId);
+  // Nothing cached yet: the next fetch includes the event anyway
+  if (!getQueryEntry(key)?.data) return;
+  setQueryData<EventStream>(key, (prev) => {
+    const events = [event, ...prev!.events].slice(0, MAX_EVENTS);
+    const summary = { ...prev!.summary, total_events: prev!.summary.total_events + 1 };
+    if (event.type === 'pod_added') summary.additions++;
+    if (event.type === 'pod_removed') summary.removals++;
+    if (event.type === 'pod_restarted') summary.restarts++;
+    if (event.severity !== 'info') summary.warnings++;
+    return { events, summary };
+  });
+}
+
+function handleMessage(clusterId: string, type: string, data: unknown) {
+  const endpoint = `SSE /api/v1/clusters/${clusterId}/stream ${type}`;
+  try {
+    switch (type) {
+      case 'snapshot':
+        parseResponse(liveSnapshotSchema, data, endpoint, 200);
+        // Every analysis is derived from the latest snapshot
+        invalidateQueries(queryKeys.cluster(clusterId));
+        break;
+      case 'pod_event':
+        addEvent(clusterId, parseResponse(podEventSchema, data, endpoint, 200));
+        break;
+      case 'alerts':
+        parseResponse(liveAlertsSchema, data, endpoint, 200);
+        invalidateQueries(queryKeys.alerts(clusterId));
+        break;
+    }
+  } catch {
+    // Schema drift is already recorded by parseResponse
+  }
+}
+
+// Opens the stream and keeps it open, backing off exponentially between
+// reconnects. Returns a function that closes it for good.
+export function connectLive(clusterId: string): () => void {
+  const transport = isMockBackend() ? mockTransport : eventSourceTransport;
+  let attempt = 0;
+  let close: (() => void) | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const open = () => {
+    setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+    close = transport(clusterId, {
+      onOpen: () => {
+        // Anything pushed while disconnected was missed; refetch once
+        if (attempt > 0) invalidateQueries(queryKeys.cluster(clusterId));
+        attempt = 0;
+        setStatus('live');
+      },
+      onMessage: (type, data) => handleMessage(clusterId, type, data),
+      onError: () => {
+        if (stopped) return;
+        close?.();
+        close = null;
+        const backoff = Math.min(MAX_BACKOFF, MIN_BACKOFF * 2 ** attempt);
+        attempt++;
+        setStatus('reconnecting');
+        timer = setTimeout(open, backoff / 2 + Math.random() * (backoff / 2));
+      },
+    });
+  };
+
+  // Don't sit out the backoff once the network is back
+  const reconnectNow = () => {
+    if (close || stopped) return;
+    clearTimeout(timer);
+    open();
+  };
+
+  open();
+  window.addEventListener('online', reconnectNow);
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+    window.removeEventListener('online', reconnectNow);
+    close?.();
+    setStatus('idle');
+  };
+}
@@ -0,0 +1,16 @@
+// Browser connectivity as a subscribable store. navigator.onLine only knows
+// whether there is a network at all, not whether the API is reachable, so it
+// is used to pause retries and to trigger refetches, never to block requests.
+
+export function isOnline() {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+export function subscribeOnline(cb: () => void) {
+  window.addEventListener('online', cb);
+  window.addEventListener('offline', cb);
+  return () => {
+    window.removeEventListener('online', cb);
+    window.removeEventListener('offline', cb);
+  };
+}
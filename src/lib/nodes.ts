@@ -0,0 +1,83 @@
+import type { CostReport, NodeInfo, PodInfo, Snapshot } from './api';
+
+// What the node page works out about one node from the snapshot: how much of
+// it the pods placed there request and use, and how that splits by namespace
+
+// Without a snapshot the page shows the latest one, or the as-of one
+export function nodePath(clusterId: string, name: string, snapshotId?: string) {
+  const path = `/details/${clusterId}/nodes/${encodeURIComponent(name)}`;
+  return snapshotId ? `${path}?snapshot=${encodeURIComponent(snapshotId)}` : path;
+}
+
+export function findNode(snapshot: Snapshot, name: string) {
+  return snapshot.nodes.find((n) => n.name === name) ?? null;
+}
+
+export function podsOn(snapshot: Snapshot, name: string): PodInfo[] {
+  return snapshot.pods.filter((p) => p.node_name === name);
+}
+
+export interface NodeResource {
+  capacity: number;
+  allocatable: number;
+  requested: number;
+  used: number;
+}
+
+const sum = (pods: PodInfo[], pick: (p: PodInfo) => number) => pods.reduce((n, p) => n + pick(p), 0);
+
+export function nodeResources(node: NodeInfo, pods: PodInfo[]): { cpu: NodeResource; mem: NodeResource } {
+  return {
+    cpu: {
+      capacity: node.cpu_capacity_millis,
+      allocatable: node.cpu_allocatable_millis,
+      requested: sum(pods, (p) => p.cpu_request_millis),
+      used: sum(pods, (p) => p.cpu_usage_millis),
+    },
+    mem: {
+      capacity: node.memory_capacity_bytes,
+      allocatable: node.mem_allocatable_bytes,
+      requested: sum(pods, (p) => p.mem_request_bytes),
+      used: sum(pods, (p) => p.mem_usage_bytes),
+    },
+  };
+}
+
+export interface NamespaceShare {
+  namespace: string;
+  pods: number;
+  cpu: number;
+  mem: number;
+}
+
+// Requests per namespace, largest CPU first
+export function namespaceShares(pods: PodInfo[]): NamespaceShare[] {
+  const shares = new Map<string, NamespaceShare>();
+  for (const p of pods) {
+    const share = shares.get(p.namespace) ?? { namespace: p.namespace, pods: 0, cpu: 0, mem: 0 };
+    share.pods++;
+    share.cpu += p.cpu_request_millis;
+    share.mem += p.mem_request_bytes;
+    shares.set(p.namespace, share);
+  }
+  return [...shares.values()].sort((a, b) => b.cpu - a.cpu || a.namespace.localeCompare(b.namespace));
+}
+
+export function nodeCost(report: CostReport | null | undefined, name: string) {
+  return report?.nodes.find((n) => n.name === name) ?? null;
+}
+
+export interface ReadinessPoint {
+  snapshotId: string;
+  at: string;
+  // null where the node was not in the cluster
+  ready: boolean | null;
+}
+
+// One point per snapshot up to and including `until`, oldest first
+export function readinessHistory(snapshots: Snapshot[], name: string, until: string): ReadinessPoint[] {
+  return snapshots
+    .filter((s) => s.created_at <= until)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((s) => ({ snapshotId: s.id, at: s.created_at, ready: findNode(s, name)?.ready ?? null }));
+}
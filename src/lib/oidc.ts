@@ -0,0 +1,163 @@
+import { isMockBackend } from './demo';
+import { oidcDiscoverySchema, oidcTokenSchema } from './schemas';
+import type { OidcDiscovery, OidcTokens } from './schemas';
+import { parseResponse } from './validation';
+
+// SSO through an OIDC provider using the authorization code flow with PKCE.
+// The provider's access token is sent to the Infradar API as the bearer token,
+// and refreshed against the provider rather than /api/v1/auth/refresh.
+// Configure with VITE_OIDC_ISSUER and VITE_OIDC_CLIENT_ID; the mock backend
+// brings its own provider under /mock-oidc.
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  scope: string;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const PENDING_KEY = 'infradar-oidc';
+const DEFAULT_SCOPE = 'openid email profile offline_access';
+export const MOCK_OIDC_CLIENT_ID = 'infradar-mock';
+
+// What the callback needs to finish the flow, kept across the redirect
+interface PendingLogin {
+  state: string;
+  verifier: string;
+  returnTo: string;
+}
+
+export function mockOidcIssuer() {
+  return `${window.location.origin}/mock-oidc`;
+}
+
+export function oidcConfig(): OidcConfig | null {
+  const issuer = import.meta.env.VITE_OIDC_ISSUER;
+  const clientId = import.meta.env.VITE_OIDC_CLIENT_ID;
+  const scope = import.meta.env.VITE_OIDC_SCOPE || DEFAULT_SCOPE;
+  if (issuer && clientId) return { issuer: issuer.replace(/\/$/, ''), clientId, scope };
+  if (isMockBackend()) return { issuer: mockOidcIssuer(), clientId: MOCK_OIDC_CLIENT_ID, scope };
+  return null;
+}
+
+export function isSsoEnabled() {
+  return oidcConfig() !== null;
+}
+
+function requireConfig() {
+  const config = oidcConfig();
+  if (!config) throw new OidcError('Single sign-on is not configured');
+  return config;
+}
+
+function redirectUri() {
+  return `${window.location.origin}/auth/callback`;
+}
+
+// Loaded on demand, like the mock API
+async function providerFetch(url: string, init?: RequestInit) {
+  if (url.startsWith(mockOidcIssuer())) {
+    const { mockOidcFetch } = await import('../mock/oidc');
+    return mockOidcFetch(url, init);
+  }
+  return fetch(url, init);
+}
+
+let discovery: Promise<OidcDiscovery> | null = null;
+
+function discover(issuer: string) {
+  const url = `${issuer}/.well-known/openid-configuration`;
+  discovery ??= providerFetch(url)
+    .then(async (res) => {
+      if (!res.ok) throw new OidcError(`The identity provider returned ${res.status}`);
+      return parseResponse(oidcDiscoverySchema, await res.json(), `GET ${url}`, res.status);
+    })
+    .catch((err) => {
+      discovery = null;
+      throw err instanceof OidcError ? err : new OidcError('Could not reach the identity provider');
+    });
+  return discovery;
+}
+
+function base64url(bytes: Uint8Array) {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function randomString() {
+  return base64url(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+export async function pkceChallenge(verifier: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64url(new Uint8Array(digest));
+}
+
+async function tokenRequest(params: Record<string, string>): Promise<OidcTokens> {
+  const config = requireConfig();
+  const { token_endpoint } = await discover(config.issuer);
+  let res: Response;
+  try {
+    res = await providerFetch(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ ...params, client_id: config.clientId }).toString(),
+    });
+  } catch {
+    throw new OidcError('Could not reach the identity provider');
+  }
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new OidcError(body?.error_description || body?.error || 'The identity provider rejected the sign-in');
+  return parseResponse(oidcTokenSchema, body, `POST ${token_endpoint}`, res.status);
+}
+
+// Sends the browser to the provider; it comes back to /auth/callback
+export async function startSsoLogin(returnTo: string) {
+  const config = requireConfig();
+  const { authorization_endpoint } = await discover(config.issuer);
+  const pending: PendingLogin = { state: randomString(), verifier: randomString(), returnTo };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const url = new URL(authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: redirectUri(),
+    scope: config.scope,
+    state: pending.state,
+    code_challenge: await pkceChallenge(pending.verifier),
+    code_challenge_method: 'S256',
+  }).toString();
+  window.location.assign(url.toString());
+}
+
+// Exchanges the code the provider sent back for tokens
+export async function completeSsoLogin(params: URLSearchParams): Promise<{ tokens: OidcTokens; returnTo: string }> {
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+  const pending: PendingLogin | null = raw ? JSON.parse(raw) : null;
+
+  const error = params.get('error');
+  if (error) throw new OidcError(params.get('error_description') || `Sign-in failed: ${error}`);
+  const code = params.get('code');
+  if (!pending || !code || params.get('state') !== pending.state) {
+    throw new OidcError('This sign-in link is invalid or has already been used');
+  }
+
+  const tokens = await tokenRequest({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri(),
+    code_verifier: pending.verifier,
+  });
+  return { tokens, returnTo: pending.returnTo };
+}
+
+export function refreshSsoTokens(refreshToken: string) {
+  return tokenRequest({ grant_type: 'refresh_token', refresh_token: refreshToken });
+}
@@ -0,0 +1,31 @@
+import type { Role } from './schemas';
+
+// What each role may do. Roles are ordered: an editor can do everything a
+// viewer can, an admin everything an editor can. The backend enforces the
+// same rules; this only decides what the UI offers.
+
+export type Action =
+  | 'cluster:create' | 'cluster:edit' | 'cluster:delete' | 'cluster:reveal_key' | 'cluster:manage_keys'
+  | 'simulation:run' | 'members:manage' | 'audit:view';
+
+const RANK: Record<Role, number> = { viewer: 0, editor: 1, admin: 2 };
+
+const REQUIRED_ROLE: Record<Action, Role> = {
+  'cluster:create': 'editor',
+  'cluster:edit': 'editor',
+  'cluster:delete': 'editor',
+  'cluster:reveal_key': 'editor',
+  'cluster:manage_keys': 'admin',
+  'simulation:run': 'editor',
+  'members:manage': 'admin',
+  'audit:view': 'admin',
+};
+
+export function requiredRole(action: Action): Role {
+  return REQUIRED_ROLE[action];
+}
+
+// A null role means the backend has no organizations; nothing is restricted then
+export function can(role: Role | null, action: Action) {
+  return role === null || RANK[role] >= RANK[REQUIRED_ROLE[action]];
+}
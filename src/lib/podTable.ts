@@ -0,0 +1,109 @@
+import type { PodInfo } from './api';
+import { podSearch, searchItems } from './search';
+
+// Sorting, filtering and column choices for the pods table. The whole state
+// is saved per user, so each person gets their table back as they left it.
+
+export type PodColumn = 'name' | 'namespace' | 'status' | 'node' | 'image' | 'cpu' | 'memory' | 'restarts' | 'security' | 'probes';
+
+export const podColumns: { key: PodColumn; label: string; align: 'left' | 'right' }[] = [
+  { key: 'name', label: 'Name', align: 'left' },
+  { key: 'namespace', label: 'Namespace', align: 'left' },
+  { key: 'status', label: 'Status', align: 'left' },
+  { key: 'node', label: 'Node', align: 'left' },
+  { key: 'image', label: 'Image', align: 'left' },
+  { key: 'cpu', label: 'CPU', align: 'right' },
+  { key: 'memory', label: 'Memory', align: 'right' },
+  { key: 'restarts', label: 'Restarts', align: 'right' },
+  { key: 'security', label: 'Security', align: 'left' },
+  { key: 'probes', label: 'Probes', align: 'left' },
+];
+
+export interface PodFilters {
+  // A lib/search query, e.g. ns:payments restarts>3
+  search: string;
+  status: string;
+  node: string;
+  tag: string;
+  root: boolean;
+  privileged: boolean;
+  missingProbes: boolean;
+  // Only pods restarted more than this many times; null for any
+  minRestarts: number | null;
+}
+
+export interface PodSort {
+  key: PodColumn;
+  desc: boolean;
+}
+
+export interface PodTableState {
+  filters: PodFilters;
+  sort: PodSort;
+  hidden: PodColumn[];
+}
+
+export const NO_POD_FILTERS: PodFilters = {
+  search: '', status: '', node: '', tag: '', root: false, privileged: false, missingProbes: false, minRestarts: null,
+};
+
+export const DEFAULT_POD_TABLE: PodTableState = {
+  filters: NO_POD_FILTERS,
+  sort: { key: 'namespace', desc: false },
+  hidden: ['node', 'probes'],
+};
+
+export function isPodFiltered({ search, status, node, tag, root, privileged, missingProbes, minRestarts }: PodFilters) {
+  return !!(search || status || node || tag || root || privileged || missingProbes || minRestarts !== null);
+}
+
+const missingProbes = (p: PodInfo) => !p.has_liveness_probe || !p.has_readiness_probe;
+
+export function filterPods(pods: PodInfo[], f: PodFilters) {
+  return searchItems(pods, f.search, podSearch).filter((p) => (!f.status || p.status === f.status)
+    && (!f.node || p.node_name === f.node)
+    && (!f.tag || p.image_tag === f.tag)
+    && (!f.root || p.run_as_root)
+    && (!f.privileged || p.privileged)
+    && (!f.missingProbes || missingProbes(p))
+    && (f.minRestarts === null || p.restart_count > f.minRestarts));
+}
+
+// Number of risky flags, so the riskiest pods sort together
+const riskOf = (p: PodInfo) => [p.run_as_root, p.privileged, p.host_network, p.host_pid].filter(Boolean).length;
+const probesOf = (p: PodInfo) => Number(p.has_liveness_probe) + Number(p.has_readiness_probe);
+
+const sortValue: Record<PodColumn, (p: PodInfo) => string | number> = {
+  name: (p) => p.name,
+  namespace: (p) => p.namespace,
+  status: (p) => p.status,
+  node: (p) => p.node_name,
+  image: (p) => `${p.image ?? ''}:${p.image_tag}`,
+  cpu: (p) => p.cpu_request_millis,
+  memory: (p) => p.mem_request_bytes,
+  restarts: (p) => p.restart_count,
+  security: riskOf,
+  probes: probesOf,
+};
+
+// Ties fall back to namespace and name so the order stays stable
+export function sortPods(pods: PodInfo[], { key, desc }: PodSort) {
+  const dir = desc ? -1 : 1;
+  const value = sortValue[key];
+  return [...pods].sort((a, b) => {
+    const av = value(a);
+    const bv = value(b);
+    const order = typeof av === 'number' && typeof bv === 'number' ? av - bv : String(av).localeCompare(String(bv));
+    return dir * order || a.namespace.localeCompare(b.namespace) || a.name.localeCompare(b.name);
+  });
+}
+
+// Options for the per-column filters, taken from the pods themselves
+export function podFilterOptions(pods: PodInfo[]) {
+  const distinct = (pick: (p: PodInfo) => string) => [...new Set(pods.map(pick).filter(Boolean))].sort();
+  return {
+    statuses: distinct((p) => p.status),
+    nodes: distinct((p) => p.node_name),
+    tags: distinct((p) => p.image_tag),
+  };
+}
@@ -0,0 +1,98 @@
+import type { CostReport, PodCost, PodInfo, SecurityFinding, SecurityReport, ServiceMeshNode, ServiceMeshResponse, Snapshot } from './api';
+
+// Everything the pod page gathers about one pod from the snapshot and the
+// analyses run on it. Pods are identified by namespace and name.
+
+const GI = 1024 * 1024 * 1024;
+const HOURS_PER_MONTH = 730;
+
+const APP_KINDS = new Set(['Deployment', 'StatefulSet', 'DaemonSet', 'CronJob', 'Job']);
+
+// Without a snapshot the page shows the latest one, or the as-of one
+export function podPath(clusterId: string, pod: { namespace: string; name: string }, snapshotId?: string) {
+  const path = `/details/${clusterId}/pods/${encodeURIComponent(pod.namespace)}/${encodeURIComponent(pod.name)}`;
+  return snapshotId ? `${path}?snapshot=${encodeURIComponent(snapshotId)}` : path;
+}
+
+export function findPod(snapshot: Snapshot, namespace: string, name: string) {
+  return snapshot.pods.find((p) => p.namespace === namespace && p.name === name) ?? null;
+}
+
+// Findings name the pod as pod/<name> within its namespace
+export function podFindings(report: SecurityReport | null | undefined, pod: PodInfo): SecurityFinding[] {
+  if (!report) return [];
+  return report.report.findings.filter((f) => f.namespace === pod.namespace && (f.resource === `pod/${pod.name}` || f.resource === pod.name));
+}
+
+export interface PodCostEstimate {
+  hourly: number;
+  monthly: number;
+  // Only set for pods the report lists in full
+  detail: PodCost | null;
+}
+
+// The report lists only the most expensive and the most wasteful pods in full;
+// any other pod is priced from its requests with the report's pricing model
+export function podCost(report: CostReport | null | undefined, pod: PodInfo): PodCostEstimate | null {
+  if (!report) return null;
+  const detail = [...report.top_expensive_pods, ...report.top_wasteful_pods]
+    .find((p) => p.namespace === pod.namespace && p.name === pod.name);
+  if (detail) return { hourly: detail.hourly_cost, monthly: detail.monthly_cost, detail };
+  const { cpu_per_hour, mem_per_gb_hour } = report.pricing_model;
+  const hourly = (pod.cpu_request_millis / 1000) * cpu_per_hour + (pod.mem_request_bytes / GI) * mem_per_gb_hour;
+  return { hourly, monthly: hourly * HOURS_PER_MONTH, detail: null };
+}
+
+export interface RestartPoint {
+  snapshotId: string;
+  at: string;
+  // null where the pod was not in the snapshot
+  restarts: number | null;
+  status: string | null;
+}
+
+// One point per snapshot up to and including `until`, oldest first
+export function restartHistory(snapshots: Snapshot[], pod: PodInfo, until: string): RestartPoint[] {
+  return snapshots
+    .filter((s) => s.created_at <= until)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map((s) => {
+      const then = findPod(s, pod.namespace, pod.name);
+      return { snapshotId: s.id, at: s.created_at, restarts: then?.restart_count ?? null, status: then?.status ?? null };
+    });
+}
+
+export interface MeshPosition {
+  // From the namespace down to the pod
+  path: ServiceMeshNode[];
+  app: ServiceMeshNode | null;
+  // Services, volumes, config and the node the pod or its app is wired to
+  related: ServiceMeshNode[];
+}
+
+const OWNER_EDGES = new Set(['owns', 'contains']);
+
+export function meshPosition(mesh: ServiceMeshResponse | null | undefined, pod: PodInfo): MeshPosition | null {
+  const node = mesh?.nodes.find((n) => n.kind === 'Pod' && n.namespace === pod.namespace && n.name === pod.name);
+  if (!mesh || !node) return null;
+  const byId = new Map(mesh.nodes.map((n) => [n.id, n]));
+
+  const parentOf = (child: ServiceMeshNode) => {
+    const edge = mesh.edges.find((e) => e.target === child.id && OWNER_EDGES.has(e.type));
+    return edge && byId.get(edge.source);
+  };
+  const path = [node];
+  for (let parent = parentOf(node); parent && !path.includes(parent); parent = parentOf(parent)) path.unshift(parent);
+  const app = path.find((n) => APP_KINDS.has(n.kind)) ?? null;
+
+  const ids = new Set<string>();
+  for (const e of mesh.edges) {
+    if (e.source === node.id && !OWNER_EDGES.has(e.type)) ids.add(e.target);
+    if (app && e.source === app.id && e.type === 'mounts') ids.add(e.target);
+    if (app && e.target === app.id && !OWNER_EDGES.has(e.type)) ids.add(e.source);
+  }
+  const related = [...ids].map((id) => byId.get(id)).filter((n): n is ServiceMeshNode => !!n)
+    .sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
+
+  return { path, app, related };
+}
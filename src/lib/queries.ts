@@ -0,0 +1,107 @@
+import { api } from './api';
+import type { AuditFilters, ClusterUpdate, Role } from './api';
+import { invalidateQueries } from './query';
+
+// Everything scoped to a cluster lives under ['clusters', id, ...] so a
+// single prefix invalidation clears all of its cached analyses. Analyses end
+// in the snapshot they were run on, null for the latest.
+export const queryKeys = {
+  clusters: () => ['clusters'] as const,
+  clusterList: (orgId: string | null) => ['clusters', 'list', orgId] as const,
+  cluster: (id: string) => ['clusters', id] as const,
+  latestSnapshot: (id: string) => ['clusters', id, 'snapshots', 'latest'] as const,
+  snapshots: (id: string) => ['clusters', id, 'snapshots'] as const,
+  snapshot: (id: string, snapshotId: string) => ['clusters', id, 'snapshots', snapshotId] as const,
+  security: (id: string, snapshotId?: string) => ['clusters', id, 'security', snapshotId ?? null] as const,
+  securityRules: () => ['security-rules'] as const,
+  attackPaths: (id: string, snapshotId?: string) => ['clusters', id, 'attack-paths', snapshotId ?? null] as const,
+  costs: (id: string, snapshotId?: string) => ['clusters', id, 'costs', snapshotId ?? null] as const,
+  timeline: (id: string, snapshotId?: string) => ['clusters', id, 'timeline', snapshotId ?? null] as const,
+  topology: (id: string, snapshotId?: string) => ['clusters', id, 'topology', snapshotId ?? null] as const,
+  heatmap: (id: string, snapshotId?: string) => ['clusters', id, 'heatmap', snapshotId ?? null] as const,
+  events: (id: string, snapshotId?: string) => ['clusters', id, 'events', snapshotId ?? null] as const,
+  alerts: (id: string, snapshotId?: string) => ['clusters', id, 'alerts', snapshotId ?? null] as const,
+  nsCompare: (id: string, ns1?: string, ns2?: string, snapshotId?: string) =>
+    ['clusters', id, 'ns-compare', ns1 ?? null, ns2 ?? null, snapshotId ?? null] as const,
+  blastRadius: (id: string, targetType: string, target: string, namespace?: string, snapshotId?: string) =>
+    ['clusters', id, 'blast-radius', targetType, target, namespace ?? null, snapshotId ?? null] as const,
+  goldenSignals: (id: string, snapshotId?: string) => ['clusters', id, 'golden-signals', snapshotId ?? null] as const,
+  serviceMesh: (id: string, snapshotId?: string) => ['clusters', id, 'service-mesh', snapshotId ?? null] as const,
+  apiKeys: (id: string) => ['clusters', id, 'keys'] as const,
+  heartbeats: (id: string) => ['clusters', id, 'heartbeats'] as const,
+  members: (orgId: string) => ['orgs', orgId, 'members'] as const,
+  invites: (orgId: string) => ['orgs', orgId, 'invites'] as const,
+  invitePreview: (token: string) => ['invites', token] as const,
+  // Every audited mutation invalidates the whole log, whatever the org and filters
+  auditLog: () => ['audit'] as const,
+  audit: (orgId: string, filters: AuditFilters) => ['audit', orgId, filters] as const,
+};
+
+// Mutations that change server state go through here so the cache follows
+export const mutations = {
+  createCluster: async (name: string, provider: string, orgId: string | null) => {
+    const cluster = await api.createCluster(name, provider, orgId);
+    invalidateQueries(queryKeys.clusters());
+    invalidateQueries(queryKeys.auditLog());
+    return cluster;
+  },
+
+  updateCluster: async (id: string, update: ClusterUpdate) => {
+    const cluster = await api.updateCluster(id, update);
+    invalidateQueries(queryKeys.clusters());
+    invalidateQueries(queryKeys.auditLog());
+    return cluster;
+  },
+
+  deleteCluster: async (id: string) => {
+    await api.deleteCluster(id);
+    invalidateQueries(queryKeys.clusters());
+    invalidateQueries(queryKeys.auditLog());
+  },
+
+  // Key changes can flip the cluster's connection status, so the list goes too
+  rotateApiKey: async (clusterId: string, gracePeriod: number) => {
+    const key = await api.rotateApiKey(clusterId, gracePeriod);
+    invalidateQueries(queryKeys.clusters());
+    invalidateQueries(queryKeys.auditLog());
+    return key;
+  },
+
+  revokeApiKey: async (clusterId: string, keyId: string) => {
+    await api.revokeApiKey(clusterId, keyId);
+    invalidateQueries(queryKeys.clusters());
+    invalidateQueries(queryKeys.auditLog());
+  },
+
+  // Not cached anywhere, but the reveal shows up in the audit log
+  revealApiKey: async (clusterId: string, keyId: string) => {
+    const { api_key } = await api.revealApiKey(clusterId, keyId);
+    invalidateQueries(queryKeys.auditLog());
+    return api_key;
+  },
+
+  inviteMember: async (orgId: string, email: string, role: Role) => {
+    const invite = await api.createInvite(orgId, email, role);
+    invalidateQueries(queryKeys.invites(orgId));
+    invalidateQueries(queryKeys.auditLog());
+    return invite;
+  },
+
+  revokeInvite: async (orgId: string, inviteId: string) => {
+    await api.revokeInvite(orgId, inviteId);
+    invalidateQueries(queryKeys.invites(orgId));
+    invalidateQueries(queryKeys.auditLog());
+  },
+
+  updateMemberRole: async (orgId: string, userId: string, role: Role) => {
+    await api.updateMemberRole(orgId, userId, role);
+    invalidateQueries(queryKeys.members(orgId));
+    invalidateQueries(queryKeys.auditLog());
+  },
+
+  removeMember: async (orgId: string, userId: string) => {
+    await api.removeMember(orgId, userId);
+    invalidateQueries(queryKeys.members(orgId));
+    invalidateQueries(queryKeys.auditLog());
+  },
+};
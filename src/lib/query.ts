@@ -0,0 +1,176 @@
+import { isOnline } from './network';
+
+// Shared in-memory query cache. Entries are keyed by an array such as
+// ['clusters', id, 'costs'] so whole groups can be invalidated by prefix.
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryEntry<T = unknown> {
+  key: QueryKey;
+  data?: T;
+  error?: unknown;
+  updatedAt: number;
+  fetching: boolean;
+  invalidated: boolean;
+}
+
+export const DEFAULT_STALE_TIME = 30_000;
+
+const entries = new Map<string, QueryEntry>();
+const listeners = new Map<string, Set<() => void>>();
+const fetchers = new Map<string, (signal: AbortSignal) => Promise<unknown>>();
+const inFlight = new Map<string, { promise: Promise<unknown>; controller: AbortController }>();
+
+export function hashKey(key: QueryKey): string {
+  return JSON.stringify(key);
+}
+
+function isPrefix(prefix: QueryKey, key: QueryKey) {
+  return prefix.length <= key.length && prefix.every((part, i) => part === key[i]);
+}
+
+function notify(hash: string) {
+  listeners.get(hash)?.forEach((cb) => cb());
+}
+
+// Entries are replaced rather than mutated so subscribers can compare by reference
+function updateEntry(key: QueryKey, patch: Partial<QueryEntry>) {
+  const hash = hashKey(key);
+  const prev = entries.get(hash);
+  entries.set(hash, {
+    key,
+    updatedAt: 0,
+    fetching: false,
+    invalidated: false,
+    ...prev,
+    ...patch,
+  });
+  notify(hash);
+}
+
+export function getQueryEntry<T>(key: QueryKey): QueryEntry<T> | undefined {
+  return entries.get(hashKey(key)) as QueryEntry<T> | undefined;
+}
+
+export function isStale(entry: QueryEntry | undefined, staleTime = DEFAULT_STALE_TIME) {
+  if (!entry || entry.invalidated) return true;
+  return Date.now() - entry.updatedAt > staleTime;
+}
+
+export function fetchQuery<T>(key: QueryKey, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const hash = hashKey(key);
+  const pending = inFlight.get(hash);
+  if (pending) return pending.promise as Promise<T>;
+
+  const controller = new AbortController();
+  updateEntry(key, { fetching: true });
+  const promise = fn(controller.signal)
+    .then((data) => {
+      // A cancelled request must never overwrite what is cached
+      if (controller.signal.aborted) throw controller.signal.reason;
+      updateEntry(key, { data, error: undefined, updatedAt: Date.now(), invalidated: false });
+      return data;
+    })
+    .catch((error) => {
+      // Keep previously cached data around; the error is surfaced next to it
+      if (!controller.signal.aborted) updateEntry(key, { error, updatedAt: Date.now() });
+      throw error;
+    })
+    .finally(() => {
+      if (inFlight.get(hash)?.controller === controller) {
+        inFlight.delete(hash);
+        updateEntry(key, { fetching: false });
+      }
+    });
+
+  inFlight.set(hash, { promise, controller });
+  return promise;
+}
+
+export function cancelQuery(key: QueryKey) {
+  const hash = hashKey(key);
+  const pending = inFlight.get(hash);
+  if (!pending) return;
+  inFlight.delete(hash);
+  pending.controller.abort();
+  updateEntry(key, { fetching: false });
+}
+
+export function subscribeQuery(key: QueryKey, cb: () => void, fetcher: (signal: AbortSignal) => Promise<unknown>) {
+  const hash = hashKey(key);
+  let set = listeners.get(hash);
+  if (!set) {
+    set = new Set();
+    listeners.set(hash, set);
+  }
+  set.add(cb);
+  fetchers.set(hash, fetcher);
+
+  return () => {
+    set.delete(cb);
+    if (set.size === 0) {
+      listeners.delete(hash);
+      fetchers.delete(hash);
+      // Deferred so a quick unmount/remount (StrictMode, tab switches) keeps the request
+      setTimeout(() => {
+        if (!listeners.has(hash)) cancelQuery(key);
+      }, 0);
+    }
+  };
+}
+
+function revalidate(hash: string) {
+  const entry = entries.get(hash);
+  const fetcher = fetchers.get(hash);
+  if (entry && fetcher) fetchQuery(entry.key, fetcher).catch(() => {});
+}
+
+// Marks every entry under the prefix stale and refetches the ones still on screen
+export function invalidateQueries(prefix: QueryKey) {
+  for (const [hash, entry] of entries) {
+    if (!isPrefix(prefix, entry.key)) continue;
+    updateEntry(entry.key, { invalidated: true });
+    // A request started before the invalidation may return outdated data
+    cancelQuery(entry.key);
+    if (listeners.has(hash)) revalidate(hash);
+  }
+}
+
+export function setQueryData<T>(key: QueryKey, updater: (prev: T | undefined) => T) {
+  const prev = getQueryEntry<T>(key)?.data;
+  updateEntry(key, { data: updater(prev), error: undefined, updatedAt: Date.now() });
+}
+
+// Used on logout, after the session is gone: nothing is refetched, since the
+// requests would go out unauthenticated. Pages remount and fetch on next login.
+export function clearQueries() {
+  for (const { controller } of inFlight.values()) controller.abort();
+  entries.clear();
+  inFlight.clear();
+  for (const hash of listeners.keys()) notify(hash);
+}
+
+// Revalidate whatever is on screen when the tab regains focus
+function revalidateActive() {
+  if (!isOnline()) return;
+  for (const hash of listeners.keys()) {
+    if (isStale(entries.get(hash))) revalidate(hash);
+  }
+}
+
+// Requests that failed while offline are queued implicitly: they are the
+// entries with an error, and they are refetched as soon as we are back
+function revalidateAfterReconnect() {
+  for (const hash of listeners.keys()) {
+    const entry = entries.get(hash);
+    if (entry?.error !== undefined || isStale(entry)) revalidate(hash);
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('focus', revalidateActive);
+  window.addEventListener('online', revalidateAfterReconnect);
+  document.addEventListener('visibilitychange', () => {
+    if (document.visibilityState === 'visible') revalidateActive();
+  });
+}
@@ -0,0 +1,686 @@
+import { z } from 'zod';
+
+// Runtime schemas for every API response. The exported types are inferred
+// from these, so the compile-time shape and the runtime check cannot drift.
+
+// The backend is written in Go: empty slices and maps arrive as null.
+// Normalise them here so pages never have to guard with `|| []`.
+const list = <T extends z.ZodType>(item: T) =>
+  z.array(item).nullish().transform((v): z.output<T>[] => v ?? []);
+
+const dict = <T extends z.ZodType>(value: T) =>
+  z.record(z.string(), value).nullish().transform((v): Record<string, z.output<T>> => v ?? {});
+
+// Auth
+export const tokenResponseSchema = z.object({
+  token: z.string(),
+  refresh_token: z.string().optional(),
+});
+
+// OIDC provider (discovery document and token endpoint)
+export const oidcDiscoverySchema = z.object({
+  issuer: z.string(),
+  authorization_endpoint: z.string(),
+  token_endpoint: z.string(),
+  end_session_endpoint: z.string().optional(),
+});
+
+export const oidcTokenSchema = z.object({
+  access_token: z.string(),
+  token_type: z.string(),
+  expires_in: z.number().optional(),
+  refresh_token: z.string().optional(),
+  id_token: z.string().optional(),
+});
+
+// Organizations: every membership carries the user's role in that org
+export const roleSchema = z.enum(['viewer', 'editor', 'admin']);
+
+export const orgMembershipSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  role: roleSchema,
+});
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  orgs: list(orgMembershipSchema),
+});
+
+// Members and invitations of an org
+export const memberSchema = z.object({
+  user_id: z.string(),
+  email: z.string(),
+  role: roleSchema,
+  joined_at: z.string(),
+});
+
+// `token` is only returned to admins so they can share the link themselves
+export const inviteSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  role: roleSchema,
+  invited_by: z.string(),
+  created_at: z.string(),
+  expires_at: z.string(),
+  token: z.string().optional(),
+});
+
+// What the accept page shows before the invitee has an account
+export const invitePreviewSchema = z.object({
+  org_id: z.string(),
+  org_name: z.string(),
+  email: z.string(),
+  role: roleSchema,
+  invited_by: z.string(),
+  expires_at: z.string(),
+});
+
+// Audit log. `action` stays a plain string so entries for actions this
+// version doesn't know yet still render.
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  at: z.string(),
+  actor_id: z.string().nullable(),
+  actor_email: z.string(),
+  action: z.string(),
+  cluster_id: z.string().nullish(),
+  cluster_name: z.string().nullish(),
+  ip: z.string().nullish(),
+  metadata: dict(z.string()),
+});
+
+// Clusters. Everything from `environment` on is optional metadata the user
+// maintains for filtering and grouping.
+export const clusterEnvironmentSchema = z.enum(['prod', 'staging', 'dev']);
+
+export const clusterSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  provider: z.string(),
+  status: z.string(),
+  last_seen_at: z.string().nullable(),
+  created_at: z.string(),
+  org_id: z.string().nullish(),
+  environment: clusterEnvironmentSchema.nullish(),
+  labels: dict(z.string()),
+  owner_team: z.string().nullish(),
+  description: z.string().nullish(),
+  // How often the agent is configured to report
+  snapshot_interval_seconds: z.number().nullish(),
+});
+
+// One entry per report the agent made, newest first
+export const heartbeatSchema = z.object({
+  at: z.string(),
+});
+
+// The agent's API key is only part of the response that creates the cluster
+export const createdClusterSchema = clusterSchema.extend({
+  api_key: z.string(),
+});
+
+// API keys are listed masked. A rotated key stays `expiring` until its grace
+// period ends; `expired` and `revoked` keys no longer authenticate.
+export const apiKeyStatusSchema = z.enum(['active', 'expiring', 'expired', 'revoked']);
+
+export const apiKeySchema = z.object({
+  id: z.string(),
+  masked: z.string(),
+  status: apiKeyStatusSchema,
+  created_at: z.string(),
+  created_by: z.string().nullish(),
+  expires_at: z.string().nullish(),
+  revoked_at: z.string().nullish(),
+  last_used_at: z.string().nullish(),
+});
+
+export const apiKeySecretSchema = z.object({
+  api_key: z.string(),
+});
+
+export const rotatedApiKeySchema = apiKeySchema.extend({
+  api_key: z.string(),
+});
+
+// Snapshots
+export const nodeInfoSchema = z.object({
+  name: z.string(),
+  instance_type: z.string().optional(),
+  region: z.string().optional(),
+  kubelet_version: z.string().optional(),
+  cpu_capacity_millis: z.number(),
+  memory_capacity_bytes: z.number(),
+  cpu_allocatable_millis: z.number(),
+  mem_allocatable_bytes: z.number(),
+  pod_count: z.number(),
+  ready: z.boolean(),
+  cost_per_hour: z.number().optional(),
+});
+
+export const podInfoSchema = z.object({
+  name: z.string(),
+  namespace: z.string(),
+  node_name: z.string(),
+  status: z.string(),
+  image: z.string().optional(),
+  image_tag: z.string(),
+  cpu_request_millis: z.number(),
+  cpu_limit_millis: z.number(),
+  mem_request_bytes: z.number(),
+  mem_limit_bytes: z.number(),
+  cpu_usage_millis: z.number(),
+  mem_usage_bytes: z.number(),
+  restart_count: z.number(),
+  run_as_root: z.boolean(),
+  privileged: z.boolean(),
+  host_network: z.boolean(),
+  host_pid: z.boolean(),
+  has_liveness_probe: z.boolean(),
+  has_readiness_probe: z.boolean(),
+  has_security_context: z.boolean(),
+  read_only_root_fs: z.boolean(),
+});
+
+export const snapshotSummarySchema = z.object({
+  node_count: z.number(),
+  pod_count: z.number(),
+  total_cpu_request_millis: z.number(),
+  total_cpu_usage_millis: z.number(),
+  total_mem_request_bytes: z.number(),
+  total_mem_usage_bytes: z.number(),
+  cpu_utilization_percent: z.number(),
+  mem_utilization_percent: z.number(),
+  over_provisioned_pods: z.number(),
+  run_as_root_pods: z.number(),
+  latest_tag_pods: z.number(),
+});
+
+export const snapshotSchema = z.object({
+  id: z.string(),
+  cluster_id: z.string(),
+  nodes: list(nodeInfoSchema),
+  pods: list(podInfoSchema),
+  summary: snapshotSummarySchema,
+  created_at: z.string(),
+});
+
+// Security
+export const securityFindingSchema = z.object({
+  rule_id: z.string(),
+  rule_name: z.string(),
+  severity: z.string(),
+  category: z.string(),
+  resource: z.string(),
+  namespace: z.string(),
+  message: z.string(),
+  remediation: z.string(),
+});
+
+export const securityReportSchema = z.object({
+  id: z.string(),
+  cluster_id: z.string(),
+  score: z.number(),
+  total_findings: z.number(),
+  report: z.object({
+    total_findings: z.number(),
+    by_severity: dict(z.number()),
+    by_category: dict(z.number()),
+    passed_rules: z.number(),
+    failed_rules: z.number(),
+    total_rules: z.number(),
+    score: z.number(),
+    findings: list(securityFindingSchema),
+  }),
+  created_at: z.string(),
+});
+
+export const securityRuleSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  severity: z.string(),
+  category: z.string(),
+  description: z.string(),
+});
+
+// Attack Path types
+export const attackPathRemediationSchema = z.object({
+  step: z.number(),
+  action: z.string(),
+  command: z.string().optional(),
+  description: z.string(),
+  priority: z.string(),
+});
+
+export const attackPathNodeSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  type: z.string(),
+  severity: z.string(),
+  detail: z.string(),
+});
+
+export const attackPathEdgeSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  label: z.string(),
+  technique: z.string(),
+  description: z.string(),
+});
+
+export const attackPathSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string(),
+  risk: z.string(),
+  nodes: list(attackPathNodeSchema),
+  edges: list(attackPathEdgeSchema),
+  remediations: list(attackPathRemediationSchema),
+});
+
+export const attackPathAnalysisSchema = z.object({
+  total_paths: z.number(),
+  critical_paths: z.number(),
+  high_paths: z.number(),
+  medium_paths: z.number(),
+  risk_score: z.number(),
+  attack_paths: list(attackPathSchema),
+  recommendations: list(z.string()),
+});
+
+// Simulation types
+export const evictedPodSchema = z.object({
+  name: z.string(),
+  namespace: z.string(),
+  reason: z.string(),
+  can_reschedule: z.boolean(),
+});
+
+export const resourceDeltaSchema = z.object({
+  cpu_before_millis: z.number(),
+  cpu_after_millis: z.number(),
+  mem_before_bytes: z.number(),
+  mem_after_bytes: z.number(),
+  cpu_util_before: z.number(),
+  cpu_util_after: z.number(),
+  mem_util_before: z.number(),
+  mem_util_after: z.number(),
+});
+
+export const simulationResultSchema = z.object({
+  scenario: z.string(),
+  impact: z.string(),
+  summary: z.string(),
+  evicted_pods: list(evictedPodSchema),
+  affected_services: list(z.string()),
+  resource_delta: resourceDeltaSchema,
+  warnings: list(z.string()),
+  cost_savings_monthly: z.number(),
+});
+
+// Cost types
+export const nodeCostSchema = z.object({
+  name: z.string(),
+  cpu_capacity_millis: z.number(),
+  mem_capacity_bytes: z.number(),
+  hourly_cost: z.number(),
+  daily_cost: z.number(),
+  monthly_cost: z.number(),
+});
+
+export const podCostSchema = z.object({
+  name: z.string(),
+  namespace: z.string(),
+  cpu_request_millis: z.number(),
+  mem_request_bytes: z.number(),
+  cpu_usage_millis: z.number(),
+  mem_usage_bytes: z.number(),
+  hourly_cost: z.number(),
+  monthly_cost: z.number(),
+  wasted_cost_monthly: z.number(),
+  efficiency_percent: z.number(),
+  rightsize_cpu_millis: z.number(),
+  rightsize_mem_bytes: z.number(),
+  savings_if_rightsized: z.number(),
+});
+
+export const namespaceCostSchema = z.object({
+  namespace: z.string(),
+  pod_count: z.number(),
+  monthly_cost: z.number(),
+  wasted_cost: z.number(),
+});
+
+export const costRecSchema = z.object({
+  type: z.string(),
+  resource: z.string(),
+  message: z.string(),
+  savings_monthly: z.number(),
+});
+
+export const costReportSchema = z.object({
+  provider: z.string(),
+  pricing_model: z.object({ cpu_per_hour: z.number(), mem_per_gb_hour: z.number(), description: z.string() }),
+  total_monthly_cost: z.number(),
+  total_wasted_cost: z.number(),
+  savings_if_rightsized: z.number(),
+  overall_efficiency: z.number(),
+  nodes: list(nodeCostSchema),
+  top_expensive_pods: list(podCostSchema),
+  top_wasteful_pods: list(podCostSchema),
+  by_namespace: list(namespaceCostSchema),
+  recommendations: list(costRecSchema),
+});
+
+// Blast Radius types
+export const serviceNodeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  namespace: z.string(),
+  type: z.string(),
+  replicas: z.number(),
+  critical: z.boolean(),
+});
+
+export const dependencySchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  type: z.string(),
+  label: z.string(),
+});
+
+export const impactAssessmentSchema = z.object({
+  affected_pods: z.number(),
+  affected_services: z.number(),
+  downtime_risk: z.string(),
+  description: z.string(),
+  cascade_chain: list(z.string()),
+});
+
+export const blastZoneSchema = z.object({
+  level: z.number(),
+  label: z.string(),
+  services: list(serviceNodeSchema),
+});
+
+export const blastRadiusResultSchema = z.object({
+  target: z.string(),
+  target_type: z.string(),
+  nodes: list(serviceNodeSchema),
+  dependencies: list(dependencySchema),
+  impact: impactAssessmentSchema,
+  zones: list(blastZoneSchema),
+});
+
+// Timeline types
+export const timelinePointSchema = z.object({
+  id: z.string(),
+  created_at: z.string(),
+  node_count: z.number(),
+  pod_count: z.number(),
+  cpu_utilization: z.number(),
+  mem_utilization: z.number(),
+  run_as_root_pods: z.number(),
+  latest_tag_pods: z.number(),
+});
+
+// Topology types
+export const topologyNodeSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  type: z.string(),
+  namespace: z.string().optional(),
+  status: z.string(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const topologyEdgeSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  type: z.string(),
+});
+
+export const clusterTopologySchema = z.object({
+  nodes: list(topologyNodeSchema),
+  edges: list(topologyEdgeSchema),
+  stats: z.object({
+    total_nodes: z.number(),
+    total_pods: z.number(),
+    total_namespaces: z.number(),
+    healthy_pods: z.number(),
+    warning_pods: z.number(),
+    critical_pods: z.number(),
+  }),
+});
+
+// Heatmap types
+export const heatmapCellSchema = z.object({
+  namespace: z.string(),
+  metric: z.string(),
+  value: z.number(),
+  max: z.number(),
+  intensity: z.number(),
+});
+
+export const nodeHeatmapRowSchema = z.object({
+  node_name: z.string(),
+  cpu_percent: z.number(),
+  mem_percent: z.number(),
+  pod_percent: z.number(),
+  pod_count: z.number(),
+  max_pods: z.number(),
+  cpu_requested: z.number(),
+  cpu_capacity: z.number(),
+  mem_requested: z.number(),
+  mem_capacity: z.number(),
+});
+
+export const heatmapDataSchema = z.object({
+  namespaces: list(z.string()),
+  metrics: list(z.string()),
+  cells: list(heatmapCellSchema),
+  node_map: list(nodeHeatmapRowSchema),
+});
+
+// Event types
+export const podEventSchema = z.object({
+  type: z.string(),
+  pod: z.string(),
+  namespace: z.string(),
+  message: z.string(),
+  severity: z.string(),
+  time: z.string(),
+});
+
+export const eventStreamSchema = z.object({
+  events: list(podEventSchema),
+  summary: z.object({
+    total_events: z.number(),
+    additions: z.number(),
+    removals: z.number(),
+    restarts: z.number(),
+    warnings: z.number(),
+  }),
+});
+
+// Alert types
+export const smartAlertSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  severity: z.string(),
+  title: z.string(),
+  description: z.string(),
+  resource: z.string(),
+  metric: z.string().optional(),
+  suggestion: z.string(),
+});
+
+export const alertsResponseSchema = z.object({
+  alerts: list(smartAlertSchema),
+  critical: z.number(),
+  warning: z.number(),
+  info: z.number(),
+});
+
+// Namespace Compare types
+export const namespaceProfileSchema = z.object({
+  namespace: z.string(),
+  pod_count: z.number(),
+  running_pods: z.number(),
+  total_cpu_request: z.number(),
+  total_mem_request: z.number(),
+  total_cpu_usage: z.number(),
+  total_mem_usage: z.number(),
+  root_pods: z.number(),
+  privileged_pods: z.number(),
+  no_probes_pods: z.number(),
+  total_restarts: z.number(),
+  latest_tag_pods: z.number(),
+  images: list(z.string()),
+});
+
+export const nsCompareResponseSchema = z.object({
+  ns1: namespaceProfileSchema,
+  ns2: namespaceProfileSchema,
+});
+
+export const namespaceListSchema = z.object({
+  namespaces: list(z.string()),
+});
+
+// Golden Signals types
+export const goldenSignalsSchema = z.object({
+  saturation: z.object({
+    cpu_request_percent: z.number(),
+    mem_request_percent: z.number(),
+    pod_capacity_used: z.number(),
+    status: z.string(),
+    message: z.string(),
+  }),
+  errors: z.object({
+    crashing_pods: z.number(),
+    restarting_pods: z.number(),
+    not_ready_pods: z.number(),
+    total_restarts: z.number(),
+    status: z.string(),
+    top_restarters: list(z.string()),
+  }),
+  traffic: z.object({
+    total_pods: z.number(),
+    running_pods: z.number(),
+    pending_pods: z.number(),
+    availability_percent: z.number(),
+    status: z.string(),
+  }),
+  utilization: z.object({
+    cpu_usage_percent: z.number(),
+    mem_usage_percent: z.number(),
+    cpu_efficiency: z.number(),
+    mem_efficiency: z.number(),
+    status: z.string(),
+  }),
+  by_namespace: list(z.object({
+    namespace: z.string(),
+    pods: z.number(),
+    restarts: z.number(),
+    cpu_request: z.number(),
+    mem_request: z.number(),
+    health: z.string(),
+  })),
+});
+
+// Service Mesh types
+export const serviceMeshNodeSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  namespace: z.string(),
+  kind: z.string(),
+  status: z.string(),
+  details: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const serviceMeshEdgeSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  type: z.string(),
+});
+
+export const serviceMeshResponseSchema = z.object({
+  nodes: list(serviceMeshNodeSchema),
+  edges: list(serviceMeshEdgeSchema),
+});
+
+// Live stream messages (GET /clusters/:id/stream, Server-Sent Events)
+export const liveSnapshotSchema = z.object({
+  snapshot_id: z.string(),
+  created_at: z.string(),
+});
+
+export const liveAlertsSchema = z.object({
+  critical: z.number(),
+  warning: z.number(),
+  info: z.number(),
+});
+
+export type Role = z.output<typeof roleSchema>;
+export type OrgMembership = z.output<typeof orgMembershipSchema>;
+export type User = z.output<typeof userSchema>;
+export type Member = z.output<typeof memberSchema>;
+export type Invite = z.output<typeof inviteSchema>;
+export type InvitePreview = z.output<typeof invitePreviewSchema>;
+export type AuditEntry = z.output<typeof auditEntrySchema>;
+export type OidcDiscovery = z.output<typeof oidcDiscoverySchema>;
+export type OidcTokens = z.output<typeof oidcTokenSchema>;
+export type ClusterEnvironment = z.output<typeof clusterEnvironmentSchema>;
+export type Cluster = z.output<typeof clusterSchema>;
+export type CreatedCluster = z.output<typeof createdClusterSchema>;
+export type Heartbeat = z.output<typeof heartbeatSchema>;
+export type ApiKeyStatus = z.output<typeof apiKeyStatusSchema>;
+export type ApiKey = z.output<typeof apiKeySchema>;
+export type RotatedApiKey = z.output<typeof rotatedApiKeySchema>;
+export type Snapshot = z.output<typeof snapshotSchema>;
+export type NodeInfo = z.output<typeof nodeInfoSchema>;
+export type PodInfo = z.output<typeof podInfoSchema>;
+export type SnapshotSummary = z.output<typeof snapshotSummarySchema>;
+export type SecurityReport = z.output<typeof securityReportSchema>;
+export type SecurityFinding = z.output<typeof securityFindingSchema>;
+export type SecurityRule = z.output<typeof securityRuleSchema>;
+export type AttackPathAnalysis = z.output<typeof attackPathAnalysisSchema>;
+export type AttackPath = z.output<typeof attackPathSchema>;
+export type AttackPathRemediation = z.output<typeof attackPathRemediationSchema>;
+export type AttackPathNode = z.output<typeof attackPathNodeSchema>;
+export type AttackPathEdge = z.output<typeof attackPathEdgeSchema>;
+export type SimulationResult = z.output<typeof simulationResultSchema>;
+export type EvictedPod = z.output<typeof evictedPodSchema>;
+export type ResourceDelta = z.output<typeof resourceDeltaSchema>;
+export type CostReport = z.output<typeof costReportSchema>;
+export type NodeCost = z.output<typeof nodeCostSchema>;
+export type PodCost = z.output<typeof podCostSchema>;
+export type NamespaceCost = z.output<typeof namespaceCostSchema>;
+export type CostRec = z.output<typeof costRecSchema>;
+export type BlastRadiusResult = z.output<typeof blastRadiusResultSchema>;
+export type ServiceNode = z.output<typeof serviceNodeSchema>;
+export type Dependency = z.output<typeof dependencySchema>;
+export type ImpactAssessment = z.output<typeof impactAssessmentSchema>;
+export type BlastZone = z.output<typeof blastZoneSchema>;
+export type TimelinePoint = z.output<typeof timelinePointSchema>;
+export type TopologyNode = z.output<typeof topologyNodeSchema>;
+export type TopologyEdge = z.output<typeof topologyEdgeSchema>;
+export type ClusterTopology = z.output<typeof clusterTopologySchema>;
+export type HeatmapCell = z.output<typeof heatmapCellSchema>;
+export type NodeHeatmapRow = z.output<typeof nodeHeatmapRowSchema>;
+export type HeatmapData = z.output<typeof heatmapDataSchema>;
+export type PodEvent = z.output<typeof podEventSchema>;
+export type EventStream = z.output<typeof eventStreamSchema>;
+export type SmartAlert = z.output<typeof smartAlertSchema>;
+export type AlertsResponse = z.output<typeof alertsResponseSchema>;
+export type NamespaceProfile = z.output<typeof namespaceProfileSchema>;
+export type NSCompareResponse = z.output<typeof nsCompareResponseSchema>;
+export type NamespaceList = z.output<typeof namespaceListSchema>;
+export type GoldenSignals = z.output<typeof goldenSignalsSchema>;
+export type ServiceMeshNode = z.output<typeof serviceMeshNodeSchema>;
+export type ServiceMeshEdge = z.output<typeof serviceMeshEdgeSchema>;
+export type ServiceMeshResponse = z.output<typeof serviceMeshResponseSchema>;
+export type LiveSnapshot = z.output<typeof liveSnapshotSchema>;
+export type LiveAlerts = z.output<typeof liveAlertsSchema>;
@@ -0,0 +1,239 @@
+import type { PodEvent, PodInfo, SecurityFinding, ServiceMeshNode, SmartAlert, TopologyNode } from './api';
+
+// A small query language shared by every list that can be searched, e.g.
+//
+//   ns:payments status!=Running restarts>3 image:*:latest privileged:true
+//
+// Terms are separated by spaces and must all match. A term is either
+// `field<op>value` or a bare word matched against the item's text. `:` and
+// `=` compare equal, `*` matches anything, and values with spaces are quoted.
+
+export type SearchOp = ':' | '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export interface SearchTerm {
+  // null for a bare word
+  field: string | null;
+  op: SearchOp;
+  value: string;
+}
+
+export type SearchValue = string | number | boolean | null | undefined;
+
+export interface SearchSchema<T> {
+  fields: Record<string, (item: T) => SearchValue>;
+  // Short names, e.g. ns for namespace
+  aliases?: Record<string, string>;
+  // What bare words are matched against
+  text: (item: T) => string;
+}
+
+export interface SearchSuggestion {
+  label: string;
+  // The whole query once the suggestion is picked
+  query: string;
+}
+
+const TOKEN = /(?:[^\s"]+|"[^"]*"?)+/g;
+const TERM = /^([a-z_]\w*)(!=|>=|<=|=|:|>|<)(.*)$/i;
+
+const unquote = (s: string) => s.replace(/"/g, '');
+const quote = (s: string) => (/\s/.test(s) ? `"${s}"` : s);
+
+export function parseQuery(query: string): SearchTerm[] {
+  const terms: SearchTerm[] = [];
+  for (const token of query.match(TOKEN) ?? []) {
+    const m = TERM.exec(token);
+    if (!m) {
+      terms.push({ field: null, op: ':', value: unquote(token) });
+    } else if (m[3] !== '') {
+      // `status:` on its own is still being typed, so it matches everything
+      terms.push({ field: m[1].toLowerCase(), op: m[2] as SearchOp, value: unquote(m[3]) });
+    }
+  }
+  return terms;
+}
+
+function resolve<T>(schema: SearchSchema<T>, field: string) {
+  const name = schema.aliases?.[field] ?? field;
+  return schema.fields[name] ? name : null;
+}
+
+function glob(pattern: string) {
+  const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function equals(actual: SearchValue, value: string) {
+  if (typeof actual === 'boolean') return actual === ['true', 'yes', '1'].includes(value.toLowerCase());
+  if (actual === null || actual === undefined) return false;
+  return glob(value).test(String(actual));
+}
+
+function compare(actual: SearchValue, op: SearchOp, value: string) {
+  switch (op) {
+    case ':':
+    case '=':
+      return equals(actual, value);
+    case '!=':
+      return !equals(actual, value);
+    default: {
+      if (typeof actual !== 'number') return false;
+      const n = Number(value);
+      return op === '>' ? actual > n : op === '>=' ? actual >= n : op === '<' ? actual < n : actual <= n;
+    }
+  }
+}
+
+// Terms that can't match anything are reported rather than silently emptying
+// the list; they are left out of the filter.
+export function compileQuery<T>(query: string, schema: SearchSchema<T>) {
+  const errors: string[] = [];
+  const tests: ((item: T) => boolean)[] = [];
+
+  for (const term of parseQuery(query)) {
+    if (term.field === null) {
+      const word = term.value.toLowerCase();
+      tests.push((item) => schema.text(item).toLowerCase().includes(word));
+      continue;
+    }
+    const field = resolve(schema, term.field);
+    if (!field) {
+      errors.push(`Unknown field "${term.field}"`);
+      continue;
+    }
+    if (['>', '>=', '<', '<='].includes(term.op) && Number.isNaN(Number(term.value))) {
+      errors.push(`${term.field}${term.op} needs a number`);
+      continue;
+    }
+    const get = schema.fields[field];
+    tests.push((item) => compare(get(item), term.op, term.value));
+  }
+
+  return { errors, test: (item: T) => tests.every((t) => t(item)) };
+}
+
+export function searchItems<T>(items: T[], query: string, schema: SearchSchema<T>) {
+  if (!query.trim()) return items;
+  const { test } = compileQuery(query, schema);
+  return items.filter(test);
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Completes the last word of the query: field names first, then, once a field
+// and operator are typed, the values that field takes in `items`.
+export function suggest<T>(query: string, items: T[], schema: SearchSchema<T>): SearchSuggestion[] {
+  const start = query.search(/\S*$/);
+  const before = query.slice(0, start);
+  const word = query.slice(start);
+  const m = TERM.exec(word);
+
+  if (!m) {
+    const prefix = word.toLowerCase();
+    const names = [...Object.keys(schema.fields), ...Object.keys(schema.aliases ?? {})];
+    return names
+      .filter((name) => name.startsWith(prefix) && name !== prefix)
+      .sort()
+      .slice(0, MAX_SUGGESTIONS)
+      .map((name) => ({ label: `${name}:`, query: `${before}${name}:` }));
+  }
+
+  const [, typed, op, partial] = m;
+  const field = resolve(schema, typed.toLowerCase());
+  if (!field) return [];
+  const get = schema.fields[field];
+  const prefix = unquote(partial).toLowerCase();
+
+  const values = new Set<string>();
+  for (const item of items) {
+    const v = get(item);
+    if (v !== null && v !== undefined && v !== '') values.add(String(v));
+  }
+  return [...values]
+    .filter((v) => v.toLowerCase().startsWith(prefix) && v.toLowerCase() !== prefix)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    .slice(0, MAX_SUGGESTIONS)
+    .map((v) => ({ label: v, query: `${before}${typed}${op}${quote(v)} ` }));
+}
+
+/* ── Searchable resources ── */
+
+const MI = 1024 * 1024;
+
+export const podSearch: SearchSchema<PodInfo> = {
+  fields: {
+    name: (p) => p.name,
+    namespace: (p) => p.namespace,
+    status: (p) => p.status,
+    node: (p) => p.node_name,
+    image: (p) => `${p.image ?? ''}:${p.image_tag}`,
+    tag: (p) => p.image_tag,
+    restarts: (p) => p.restart_count,
+    cpu: (p) => p.cpu_request_millis,
+    // In Mi, like the table shows it
+    memory: (p) => Math.round(p.mem_request_bytes / MI),
+    root: (p) => p.run_as_root,
+    privileged: (p) => p.privileged,
+    host_network: (p) => p.host_network,
+    host_pid: (p) => p.host_pid,
+    liveness: (p) => p.has_liveness_probe,
+    readiness: (p) => p.has_readiness_probe,
+  },
+  aliases: { ns: 'namespace' },
+  text: (p) => `${p.namespace}/${p.name}`,
+};
+
+export const topologySearch: SearchSchema<TopologyNode> = {
+  fields: {
+    name: (n) => n.label,
+    type: (n) => n.type,
+    namespace: (n) => n.namespace,
+    status: (n) => n.status,
+  },
+  aliases: { ns: 'namespace' },
+  text: (n) => `${n.namespace ?? ''}/${n.label}`,
+};
+
+export const eventSearch: SearchSchema<PodEvent> = {
+  fields: {
+    type: (e) => e.type,
+    pod: (e) => e.pod,
+    namespace: (e) => e.namespace,
+    severity: (e) => e.severity,
+  },
+  aliases: { ns: 'namespace' },
+  text: (e) => `${e.namespace}/${e.pod} ${e.message}`,
+};
+
+export const alertSearch: SearchSchema<SmartAlert> = {
+  fields: {
+    type: (a) => a.type,
+    severity: (a) => a.severity,
+    resource: (a) => a.resource,
+    metric: (a) => a.metric,
+  },
+  text: (a) => `${a.title} ${a.description} ${a.resource}`,
+};
+
+export const findingSearch: SearchSchema<SecurityFinding> = {
+  fields: {
+    rule: (f) => f.rule_id,
+    severity: (f) => f.severity,
+    category: (f) => f.category,
+    resource: (f) => f.resource,
+    namespace: (f) => f.namespace,
+  },
+  aliases: { ns: 'namespace' },
+  text: (f) => `${f.rule_name} ${f.namespace}/${f.resource} ${f.message}`,
+};
+
+export const meshSearch: SearchSchema<ServiceMeshNode> = {
+  fields: {
+    name: (n) => n.name,
+    kind: (n) => n.kind,
+    namespace: (n) => n.namespace,
+    status: (n) => n.status,
+  },
+  aliases: { ns: 'namespace' },
+  text: (n) => `${n.namespace}/${n.name}`,
+};
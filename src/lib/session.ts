@@ -0,0 +1,98 @@
+// Access and refresh tokens plus the "session expired" state. When a request
+// gets a 401 that a refresh cannot fix, it waits here until the user signs in
+// again through the re-login modal, so the page underneath keeps its state.
+
+// A password session is refreshed by the Infradar API, an SSO session by the
+// OIDC provider that issued its tokens
+export type SessionKind = 'password' | 'sso';
+
+const TOKEN_KEY = 'token';
+const REFRESH_KEY = 'refresh_token';
+const KIND_KEY = 'session_kind';
+
+let expired = false;
+let waiters: ((reauthenticated: boolean) => void)[] = [];
+const listeners = new Set<() => void>();
+
+function emit() {
+  listeners.forEach((cb) => cb());
+}
+
+export function subscribeSession(cb: () => void) {
+  listeners.add(cb);
+  return () => {
+    listeners.delete(cb);
+  };
+}
+
+export function getToken() {
+  return localStorage.getItem(TOKEN_KEY);
+}
+
+export function getRefreshToken() {
+  return localStorage.getItem(REFRESH_KEY);
+}
+
+export function getSessionKind(): SessionKind {
+  return localStorage.getItem(KIND_KEY) === 'sso' ? 'sso' : 'password';
+}
+
+export function isSessionExpired() {
+  return expired;
+}
+
+// A new token also ends an expired session and releases waiting requests
+export function setSession(token: string, refreshToken?: string | null, kind: SessionKind = 'password') {
+  localStorage.setItem(TOKEN_KEY, token);
+  localStorage.setItem(KIND_KEY, kind);
+  if (refreshToken) localStorage.setItem(REFRESH_KEY, refreshToken);
+  else localStorage.removeItem(REFRESH_KEY);
+  settle(true);
+  emit();
+}
+
+export function clearSession() {
+  localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_KEY);
+  localStorage.removeItem(KIND_KEY);
+  settle(false);
+  emit();
+}
+
+export function markSessionExpired() {
+  if (expired) return;
+  expired = true;
+  emit();
+}
+
+function settle(reauthenticated: boolean) {
+  expired = false;
+  const pending = waiters;
+  waiters = [];
+  pending.forEach((resolve) => resolve(reauthenticated));
+}
+
+// Resolves true once the user signs in again, false if they sign out instead
+export function waitForReauth(signal?: AbortSignal | null): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const waiter = (reauthenticated: boolean) => resolve(reauthenticated);
+    waiters.push(waiter);
+    signal?.addEventListener('abort', () => {
+      waiters = waiters.filter((w) => w !== waiter);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+// Expiry of a JWT in epoch milliseconds, or null if it is not a JWT or has no exp
+export function tokenExpiry(token: string | null): number | null {
+  const payload = token?.split('.')[1];
+  if (!payload) return null;
+  try {
+    const { exp } = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof exp === 'number' ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,152 @@
+import type { NodeInfo, PodInfo, Snapshot } from './api';
+
+// What changed between two snapshots of the same cluster. Pods are matched by
+// namespace and name; a pod replaced by its controller under a new name shows
+// up as one removed and one added pod.
+
+export type ChangeKind = 'added' | 'removed' | 'rescheduled' | 'image' | 'resources' | 'restarts' | 'security';
+
+export const changeKinds: { value: ChangeKind; label: string }[] = [
+  { value: 'added', label: 'Added' },
+  { value: 'removed', label: 'Removed' },
+  { value: 'rescheduled', label: 'Rescheduled' },
+  { value: 'image', label: 'Image' },
+  { value: 'resources', label: 'Requests & limits' },
+  { value: 'restarts', label: 'Restarts' },
+  { value: 'security', label: 'Security' },
+];
+
+export interface FieldChange {
+  kind: ChangeKind;
+  field: string;
+  from: string;
+  to: string;
+  // For security flips: whether the change made the pod riskier
+  worse?: boolean;
+}
+
+export interface PodDiff {
+  name: string;
+  namespace: string;
+  // Added and removed pods carry a single change of that kind
+  changes: FieldChange[];
+}
+
+export interface NamespaceDiff {
+  namespace: string;
+  pods: PodDiff[];
+}
+
+export interface SnapshotDiff {
+  nodesAdded: NodeInfo[];
+  nodesRemoved: NodeInfo[];
+  namespaces: NamespaceDiff[];
+  counts: Record<ChangeKind, number>;
+}
+
+const MI = 1024 * 1024;
+
+const cpu = (m: number) => (m ? `${m}m` : 'none');
+const mem = (b: number) => (b ? `${Math.round(b / MI)}Mi` : 'none');
+
+const resourceFields: { field: string; pick: (p: PodInfo) => number; format: (n: number) => string }[] = [
+  { field: 'cpu request', pick: (p) => p.cpu_request_millis, format: cpu },
+  { field: 'cpu limit', pick: (p) => p.cpu_limit_millis, format: cpu },
+  { field: 'memory request', pick: (p) => p.mem_request_bytes, format: mem },
+  { field: 'memory limit', pick: (p) => p.mem_limit_bytes, format: mem },
+];
+
+// `risky` is the value that weakens the pod's security posture
+const securityFields: { field: string; pick: (p: PodInfo) => boolean; risky: boolean }[] = [
+  { field: 'run_as_root', pick: (p) => p.run_as_root, risky: true },
+  { field: 'privileged', pick: (p) => p.privileged, risky: true },
+  { field: 'host_network', pick: (p) => p.host_network, risky: true },
+  { field: 'host_pid', pick: (p) => p.host_pid, risky: true },
+  { field: 'read_only_root_fs', pick: (p) => p.read_only_root_fs, risky: false },
+  { field: 'has_security_context', pick: (p) => p.has_security_context, risky: false },
+];
+
+const podKey = (p: PodInfo) => `${p.namespace}/${p.name}`;
+const imageOf = (p: PodInfo) => `${p.image ?? 'unknown'}:${p.image_tag}`;
+
+function podChanges(before: PodInfo, after: PodInfo): FieldChange[] {
+  const changes: FieldChange[] = [];
+  if (before.node_name !== after.node_name) {
+    changes.push({ kind: 'rescheduled', field: 'node', from: before.node_name || 'unscheduled', to: after.node_name || 'unscheduled' });
+  }
+  if (imageOf(before) !== imageOf(after)) {
+    changes.push({ kind: 'image', field: 'image', from: imageOf(before), to: imageOf(after) });
+  }
+  for (const { field, pick, format } of resourceFields) {
+    if (pick(before) !== pick(after)) changes.push({ kind: 'resources', field, from: format(pick(before)), to: format(pick(after)) });
+  }
+  if (after.restart_count !== before.restart_count) {
+    const delta = after.restart_count - before.restart_count;
+    changes.push({ kind: 'restarts', field: 'restarts', from: String(before.restart_count), to: `${after.restart_count} (${delta > 0 ? '+' : ''}${delta})` });
+  }
+  for (const { field, pick, risky } of securityFields) {
+    if (pick(before) !== pick(after)) {
+      changes.push({ kind: 'security', field, from: String(pick(before)), to: String(pick(after)), worse: pick(after) === risky });
+    }
+  }
+  return changes;
+}
+
+export function diffSnapshots(from: Snapshot, to: Snapshot): SnapshotDiff {
+  const beforeNodes = new Set(from.nodes.map((n) => n.name));
+  const afterNodes = new Set(to.nodes.map((n) => n.name));
+  const beforePods = new Map(from.pods.map((p) => [podKey(p), p]));
+  const afterPods = new Map(to.pods.map((p) => [podKey(p), p]));
+
+  const pods: PodDiff[] = [];
+  for (const [key, after] of afterPods) {
+    const before = beforePods.get(key);
+    const changes = before
+      ? podChanges(before, after)
+      : [{ kind: 'added' as const, field: 'pod', from: '', to: `${imageOf(after)} on ${after.node_name || 'unscheduled'}` }];
+    if (changes.length > 0) pods.push({ name: after.name, namespace: after.namespace, changes });
+  }
+  for (const [key, before] of beforePods) {
+    if (afterPods.has(key)) continue;
+    pods.push({
+      name: before.name,
+      namespace: before.namespace,
+      changes: [{ kind: 'removed', field: 'pod', from: `${imageOf(before)} on ${before.node_name || 'unscheduled'}`, to: '' }],
+    });
+  }
+
+  const byNamespace = new Map<string, PodDiff[]>();
+  for (const pod of pods) byNamespace.set(pod.namespace, [...(byNamespace.get(pod.namespace) ?? []), pod]);
+
+  const counts = Object.fromEntries(changeKinds.map((k) => [k.value, 0])) as Record<ChangeKind, number>;
+  // Counted per pod, so a pod with two resource changes counts once
+  for (const pod of pods) new Set(pod.changes.map((c) => c.kind)).forEach((kind) => counts[kind]++);
+
+  return {
+    nodesAdded: to.nodes.filter((n) => !beforeNodes.has(n.name)),
+    nodesRemoved: from.nodes.filter((n) => !afterNodes.has(n.name)),
+    namespaces: [...byNamespace.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([namespace, list]) => ({ namespace, pods: list.sort((a, b) => a.name.localeCompare(b.name)) })),
+    counts,
+  };
+}
+
+export interface DiffFilter {
+  kinds: ChangeKind[];
+  namespace: string;
+  search: string;
+}
+
+// Empty kinds means every kind
+export function filterDiff(namespaces: NamespaceDiff[], { kinds, namespace, search }: DiffFilter): NamespaceDiff[] {
+  const term = search.trim().toLowerCase();
+  return namespaces
+    .filter((ns) => !namespace || ns.namespace === namespace)
+    .map((ns) => ({
+      ...ns,
+      pods: ns.pods.filter((p) => (kinds.length === 0 || p.changes.some((c) => kinds.includes(c.kind)))
+        && (!term || p.name.toLowerCase().includes(term))),
+    }))
+    .filter((ns) => ns.pods.length > 0);
+}
@@ -0,0 +1,39 @@
+// Time travel: the snapshot each cluster's analysis pages show instead of the
+// latest one. Picked per cluster and kept for the browser tab, so a reload in
+// the middle of an incident review doesn't jump back to the present.
+
+const AS_OF_KEY = 'infradar-as-of';
+
+function load(): Record<string, string> {
+  if (typeof window === 'undefined') return {};
+  try {
+    return JSON.parse(sessionStorage.getItem(AS_OF_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+let asOf = load();
+const listeners = new Set<() => void>();
+
+// Replaced on every change so subscribers can compare by reference
+export function getAsOf(): Readonly<Record<string, string>> {
+  return asOf;
+}
+
+// null goes back to the latest snapshot
+export function setAsOf(clusterId: string, snapshotId: string | null) {
+  const next = { ...asOf };
+  if (snapshotId) next[clusterId] = snapshotId;
+  else delete next[clusterId];
+  asOf = next;
+  sessionStorage.setItem(AS_OF_KEY, JSON.stringify(next));
+  listeners.forEach((cb) => cb());
+}
+
+export function subscribeAsOf(cb: () => void) {
+  listeners.add(cb);
+  return () => {
+    listeners.delete(cb);
+  };
+}
@@ -0,0 +1,82 @@
+import type { z } from 'zod';
+import { ResponseValidationError } from './errors';
+import type { SchemaIssue } from './errors';
+
+// Every schema mismatch is recorded here, one entry per endpoint, so the dev
+// banner can show the drift even when the page handles the error itself.
+
+export interface SchemaDrift {
+  endpoint: string;
+  issues: SchemaIssue[];
+  at: number;
+}
+
+let drift: SchemaDrift[] = [];
+const listeners = new Set<() => void>();
+
+function emit() {
+  listeners.forEach((cb) => cb());
+}
+
+export function getSchemaDrift(): SchemaDrift[] {
+  return drift;
+}
+
+export function subscribeSchemaDrift(cb: () => void) {
+  listeners.add(cb);
+  return () => {
+    listeners.delete(cb);
+  };
+}
+
+export function clearSchemaDrift() {
+  drift = [];
+  emit();
+}
+
+function recordDrift(endpoint: string, issues: SchemaIssue[]) {
+  drift = [...drift.filter((d) => d.endpoint !== endpoint), { endpoint, issues, at: Date.now() }];
+  emit();
+}
+
+function formatPath(path: PropertyKey[]) {
+  if (path.length === 0) return '(root)';
+  return path
+    .map((part, i) => (typeof part === 'number' ? `[${part}]` : `${i > 0 ? '.' : ''}${String(part)}`))
+    .join('');
+}
+
+function valueAt(data: unknown, path: PropertyKey[]): unknown {
+  let cur = data;
+  for (const part of path) {
+    if (cur === null || typeof cur !== 'object') return undefined;
+    cur = (cur as Record<PropertyKey, unknown>)[part];
+  }
+  return cur;
+}
+
+function describe(value: unknown) {
+  if (value === undefined) return 'nothing (field missing)';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === 'string') return `string ${JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value)}`;
+  if (typeof value === 'object') return 'object';
+  return `${typeof value} ${String(value)}`;
+}
+
+function toIssue(issue: z.core.$ZodIssue, data: unknown): SchemaIssue {
+  return {
+    path: formatPath(issue.path),
+    expected: issue.code === 'invalid_type' ? issue.expected : issue.message,
+    received: describe(valueAt(data, issue.path)),
+  };
+}
+
+export function parseResponse<S extends z.ZodType>(schema: S, data: unknown, endpoint: string, status: number): z.output<S> {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+
+  const issues = result.error.issues.map((issue) => toIssue(issue, data));
+  recordDrift(endpoint, issues);
+  throw new ResponseValidationError(status, endpoint, issues);
+}
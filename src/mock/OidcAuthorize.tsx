@@ -0,0 +1,66 @@
+import { useSearchParams } from 'react-router-dom';
+import { KeyRound, UserCircle } from 'lucide-react';
+import { MOCK_OIDC_CLIENT_ID } from '../lib/oidc';
+import { authorizationCode, identities } from './oidc';
+import type { MockIdentity } from './oidc';
+
+// Sign-in page of the mock OIDC provider. A real provider would ask for
+// credentials; here the visitor just picks who to be.
+export default function OidcAuthorize() {
+  const [params] = useSearchParams();
+  const redirectUri = params.get('redirect_uri') ?? '';
+  const valid = params.get('client_id') === MOCK_OIDC_CLIENT_ID
+    && params.get('response_type') === 'code'
+    && params.get('code_challenge_method') === 'S256'
+    && redirectUri.startsWith(`${window.location.origin}/`);
+
+  const finish = (result: Record<string, string>) => {
+    const url = new URL(redirectUri);
+    url.search = new URLSearchParams({ ...result, state: params.get('state') ?? '' }).toString();
+    window.location.assign(url.toString());
+  };
+
+  const signIn = (identity: MockIdentity) => finish({ code: authorizationCode(identity, params) });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <KeyRound className="w-12 h-12 text-cyan-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold">Mock identity provider</h1>
+          <p className="text-gray-400 mt-1">Choose an account to sign in to Infradar</p>
+        </div>
+
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-8 space-y-3">
+          {!valid ? (
+            <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3">
+              Invalid authorization request: unknown client, unsupported response type or redirect URI.
+            </div>
+          ) : (
+            <>
+              {identities.map((identity) => (
+                <button
+                  key={identity.sub}
+                  onClick={() => signIn(identity)}
+                  className="w-full flex items-center gap-3 bg-navy-900 border border-white/10 hover:border-cyan-500 rounded-lg px-4 py-3 text-left transition-colors"
+                >
+                  <UserCircle className="w-8 h-8 text-gray-400 shrink-0" />
+                  <div>
+                    <p className="text-sm font-medium">{identity.name}</p>
+                    <p className="text-xs text-gray-400">{identity.email}</p>
+                  </div>
+                </button>
+              ))}
+              <button
+                onClick={() => finish({ error: 'access_denied', error_description: 'Sign-in was cancelled' })}
+                className="w-full text-sm text-gray-400 hover:text-white pt-2 transition-colors"
+              >
+                Cancel
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,921 @@
+import type {
+  AlertsResponse, AttackPath, AttackPathAnalysis, BlastRadiusResult, BlastZone, ClusterTopology, CostRec, CostReport,
+  Dependency, EventStream, GoldenSignals, HeatmapData, NamespaceProfile, NodeInfo, PodCost, PodEvent, PodInfo,
+  SecurityFinding, SecurityReport, SecurityRule, ServiceMeshEdge, ServiceMeshNode, ServiceMeshResponse, ServiceNode,
+  SimulationResult, SmartAlert, Snapshot, TimelinePoint, TopologyEdge, TopologyNode,
+} from '../lib/api';
+import type { AppSpec, ClusterSpec } from './fixtures';
+import { SNAPSHOT_HISTORY, SNAPSHOT_INTERVAL, appOf, round1, snapshotAt, summarize } from './fixtures';
+
+// Everything the backend derives from a snapshot, recomputed in the browser.
+// The numbers only need to be plausible and consistent with the snapshot.
+
+const MI = 1024 * 1024;
+const GI = 1024 * MI;
+const HOURS_PER_MONTH = 730;
+
+// Security
+
+interface RuleCheck extends SecurityRule {
+  weight: number;
+  failed: (p: PodInfo) => boolean;
+  message: string;
+  remediation: string;
+}
+
+const RULES: RuleCheck[] = [
+  {
+    id: 'SEC001', name: 'Privileged container', severity: 'critical', category: 'pod_security', weight: 8,
+    description: 'Containers should not run in privileged mode',
+    failed: (p) => p.privileged,
+    message: 'Container runs in privileged mode with full access to the host',
+    remediation: 'Set securityContext.privileged to false',
+  },
+  {
+    id: 'SEC002', name: 'Host PID namespace', severity: 'critical', category: 'pod_security', weight: 6,
+    description: 'Pods should not share the host process namespace',
+    failed: (p) => p.host_pid,
+    message: 'Pod shares the host PID namespace',
+    remediation: 'Remove hostPID: true from the pod spec',
+  },
+  {
+    id: 'SEC003', name: 'Host network', severity: 'high', category: 'network', weight: 4,
+    description: 'Pods should not use the host network',
+    failed: (p) => p.host_network,
+    message: 'Pod uses the host network stack',
+    remediation: 'Remove hostNetwork: true and expose the pod through a Service',
+  },
+  {
+    id: 'SEC004', name: 'Runs as root', severity: 'high', category: 'pod_security', weight: 3,
+    description: 'Containers should run as a non-root user',
+    failed: (p) => p.run_as_root,
+    message: 'Container runs as UID 0',
+    remediation: 'Set securityContext.runAsNonRoot to true and choose a non-zero runAsUser',
+  },
+  {
+    id: 'SEC005', name: 'Mutable image tag', severity: 'medium', category: 'supply_chain', weight: 2,
+    description: 'Images should be pinned to a version or digest',
+    failed: (p) => p.image_tag === 'latest',
+    message: 'Image uses the :latest tag',
+    remediation: 'Pin the image to an immutable version tag or digest',
+  },
+  {
+    id: 'SEC006', name: 'Missing security context', severity: 'medium', category: 'pod_security', weight: 2,
+    description: 'Containers should declare a security context',
+    failed: (p) => !p.has_security_context,
+    message: 'No securityContext is defined',
+    remediation: 'Add a securityContext with runAsNonRoot, allowPrivilegeEscalation: false and dropped capabilities',
+  },
+  {
+    id: 'SEC007', name: 'Writable root filesystem', severity: 'low', category: 'pod_security', weight: 1,
+    description: 'Containers should use a read-only root filesystem',
+    failed: (p) => !p.read_only_root_fs,
+    message: 'Root filesystem is writable',
+    remediation: 'Set securityContext.readOnlyRootFilesystem to true and mount writable paths as volumes',
+  },
+  {
+    id: 'SEC008', name: 'Missing liveness probe', severity: 'low', category: 'reliability', weight: 1,
+    description: 'Containers should define a liveness probe',
+    failed: (p) => !p.has_liveness_probe,
+    message: 'No liveness probe configured',
+    remediation: 'Add a livenessProbe so the kubelet can restart a hung container',
+  },
+  {
+    id: 'SEC009', name: 'Missing readiness probe', severity: 'low', category: 'reliability', weight: 1,
+    description: 'Containers should define a readiness probe',
+    failed: (p) => !p.has_readiness_probe,
+    message: 'No readiness probe configured',
+    remediation: 'Add a readinessProbe so traffic only reaches ready pods',
+  },
+  {
+    id: 'SEC010', name: 'Missing resource limits', severity: 'medium', category: 'resources', weight: 2,
+    description: 'Containers should set CPU and memory limits',
+    failed: (p) => p.cpu_limit_millis === 0 || p.mem_limit_bytes === 0,
+    message: 'No CPU or memory limit set',
+    remediation: 'Set resources.limits for cpu and memory',
+  },
+];
+
+export const securityRules: SecurityRule[] = RULES.map(({ id, name, severity, category, description }) => ({
+  id, name, severity, category, description,
+}));
+
+export function securityReport(snapshot: Snapshot): SecurityReport {
+  const findings: SecurityFinding[] = [];
+  const bySeverity: Record<string, number> = {};
+  const byCategory: Record<string, number> = {};
+  let failedRules = 0;
+  let penalty = 0;
+
+  for (const rule of RULES) {
+    const failing = snapshot.pods.filter(rule.failed);
+    if (failing.length === 0) continue;
+    failedRules++;
+    penalty += rule.weight * Math.min(1, failing.length / Math.max(snapshot.pods.length * 0.3, 1)) * 2;
+    for (const p of failing) {
+      findings.push({
+        rule_id: rule.id, rule_name: rule.name, severity: rule.severity, category: rule.category,
+        resource: `pod/${p.name}`, namespace: p.namespace, message: rule.message, remediation: rule.remediation,
+      });
+      bySeverity[rule.severity] = (bySeverity[rule.severity] || 0) + 1;
+      byCategory[rule.category] = (byCategory[rule.category] || 0) + 1;
+    }
+  }
+
+  const score = Math.max(0, Math.round(100 - penalty));
+  return {
+    id: `${snapshot.id}-security`,
+    cluster_id: snapshot.cluster_id,
+    score,
+    total_findings: findings.length,
+    report: {
+      total_findings: findings.length,
+      by_severity: bySeverity,
+      by_category: byCategory,
+      passed_rules: RULES.length - failedRules,
+      failed_rules: failedRules,
+      total_rules: RULES.length,
+      score,
+      findings,
+    },
+    created_at: snapshot.created_at,
+  };
+}
+
+// Attack paths
+
+export function attackPaths(spec: ClusterSpec, snapshot: Snapshot): AttackPathAnalysis {
+  const paths: AttackPath[] = [];
+  // Node agents are expected to be privileged; only flag application pods
+  const workloads = snapshot.pods.filter((p) => !appOf(spec, p)?.system);
+
+  for (const p of workloads.filter((p) => p.privileged).slice(0, 3)) {
+    paths.push({
+      id: `ap-escape-${p.name}`,
+      name: `Container escape from ${p.name}`,
+      description: 'A privileged container can mount the host filesystem and take over the node, then read every secret scheduled there.',
+      risk: 'critical',
+      nodes: [
+        { id: 'internet', label: 'Attacker', type: 'entry', severity: 'info', detail: 'Exploits a vulnerability in the workload' },
+        { id: p.name, label: p.name, type: 'pod', severity: 'critical', detail: `${p.namespace}, privileged` },
+        { id: p.node_name || 'node', label: p.node_name || 'node', type: 'node', severity: 'critical', detail: 'Host root via /proc/1/root' },
+        { id: 'secrets', label: 'Cluster secrets', type: 'target', severity: 'critical', detail: 'Kubelet credentials and mounted secrets' },
+      ],
+      edges: [
+        { from: 'internet', to: p.name, label: 'RCE', technique: 'T1190', description: 'Exploit public-facing application' },
+        { from: p.name, to: p.node_name || 'node', label: 'Escape', technique: 'T1611', description: 'Escape to host' },
+        { from: p.node_name || 'node', to: 'secrets', label: 'Harvest', technique: 'T1552', description: 'Unsecured credentials' },
+      ],
+      remediations: [
+        { step: 1, action: 'Drop privileged mode', command: `kubectl -n ${p.namespace} patch pod ${p.name} --type json -p '[{"op":"replace","path":"/spec/containers/0/securityContext/privileged","value":false}]'`, description: 'Remove the privileged flag from the container', priority: 'immediate' },
+        { step: 2, action: 'Enforce Pod Security Standards', command: `kubectl label ns ${p.namespace} pod-security.kubernetes.io/enforce=restricted`, description: 'Reject privileged pods at admission', priority: 'short_term' },
+      ],
+    });
+  }
+
+  for (const p of workloads.filter((p) => p.host_network).slice(0, 2)) {
+    paths.push({
+      id: `ap-hostnet-${p.name}`,
+      name: `Lateral movement via host network (${p.name})`,
+      description: 'A pod on the host network bypasses NetworkPolicies and can reach the cloud metadata endpoint.',
+      risk: 'high',
+      nodes: [
+        { id: p.name, label: p.name, type: 'pod', severity: 'high', detail: `${p.namespace}, hostNetwork` },
+        { id: 'metadata', label: 'Instance metadata', type: 'service', severity: 'high', detail: '169.254.169.254' },
+        { id: 'cloud', label: 'Cloud account', type: 'target', severity: 'critical', detail: 'Node IAM role credentials' },
+      ],
+      edges: [
+        { from: p.name, to: 'metadata', label: 'Query', technique: 'T1552.005', description: 'Cloud instance metadata API' },
+        { from: 'metadata', to: 'cloud', label: 'Assume role', technique: 'T1078.004', description: 'Valid cloud accounts' },
+      ],
+      remediations: [
+        { step: 1, action: 'Disable host networking', description: 'Remove hostNetwork: true and expose the pod through a Service', priority: 'immediate' },
+        { step: 2, action: 'Block metadata access', description: 'Require IMDSv2 with a hop limit of 1', priority: 'long_term' },
+      ],
+    });
+  }
+
+  const rootLatest = workloads.filter((p) => p.run_as_root && p.image_tag === 'latest');
+  if (rootLatest.length > 0) {
+    const p = rootLatest[0];
+    paths.push({
+      id: 'ap-supply-chain',
+      name: 'Supply chain compromise of unpinned images',
+      description: `${rootLatest.length} pods run :latest images as root; a poisoned image would be pulled on the next restart.`,
+      risk: 'medium',
+      nodes: [
+        { id: 'registry', label: 'Image registry', type: 'entry', severity: 'medium', detail: `${p.image || p.name}:latest` },
+        { id: p.name, label: p.name, type: 'pod', severity: 'high', detail: `${p.namespace}, runs as root` },
+      ],
+      edges: [
+        { from: 'registry', to: p.name, label: 'Pull', technique: 'T1195.002', description: 'Compromise software supply chain' },
+      ],
+      remediations: [
+        { step: 1, action: 'Pin image versions', description: 'Reference images by version tag or digest', priority: 'short_term' },
+        { step: 2, action: 'Run as non-root', description: 'Set runAsNonRoot: true', priority: 'short_term' },
+      ],
+    });
+  }
+
+  const critical = paths.filter((p) => p.risk === 'critical').length;
+  const high = paths.filter((p) => p.risk === 'high').length;
+  const medium = paths.filter((p) => p.risk === 'medium').length;
+  const recommendations: string[] = [];
+  if (critical > 0) recommendations.push('Enforce the restricted Pod Security Standard on application namespaces');
+  if (high > 0) recommendations.push('Add default-deny NetworkPolicies and block the instance metadata endpoint');
+  if (medium > 0) recommendations.push('Pin every image to a version and enable image signature verification');
+
+  return {
+    total_paths: paths.length,
+    critical_paths: critical,
+    high_paths: high,
+    medium_paths: medium,
+    risk_score: Math.min(100, critical * 30 + high * 15 + medium * 5),
+    attack_paths: paths,
+    recommendations,
+  };
+}
+
+// Costs
+
+const PRICING: Record<string, { cpu: number; mem: number; description: string }> = {
+  eks: { cpu: 0.0408, mem: 0.0054, description: 'AWS on-demand, us-east-1' },
+  gke: { cpu: 0.0331, mem: 0.0044, description: 'GCP on-demand, us-central1' },
+  aks: { cpu: 0.0430, mem: 0.0058, description: 'Azure pay-as-you-go, West Europe' },
+  k3s: { cpu: 0.0050, mem: 0.0012, description: 'Self-hosted, amortised hardware' },
+};
+
+function pricing(provider: string) {
+  return PRICING[provider] || { cpu: 0.035, mem: 0.0047, description: 'Blended on-demand estimate' };
+}
+
+export function costReport(spec: ClusterSpec, snapshot: Snapshot): CostReport {
+  const price = pricing(spec.cluster.provider);
+  const hourly = (cpu: number, mem: number) => (cpu / 1000) * price.cpu + (mem / GI) * price.mem;
+  const money = (n: number) => Math.round(n * 100) / 100;
+
+  const nodes = snapshot.nodes.map((n) => {
+    const h = n.cost_per_hour ?? hourly(n.cpu_capacity_millis, n.memory_capacity_bytes);
+    return {
+      name: n.name,
+      cpu_capacity_millis: n.cpu_capacity_millis,
+      mem_capacity_bytes: n.memory_capacity_bytes,
+      hourly_cost: money(h),
+      daily_cost: money(h * 24),
+      monthly_cost: money(h * HOURS_PER_MONTH),
+    };
+  });
+
+  const pods: PodCost[] = snapshot.pods.map((p) => {
+    const h = hourly(p.cpu_request_millis, p.mem_request_bytes);
+    const used = hourly(Math.min(p.cpu_usage_millis, p.cpu_request_millis), Math.min(p.mem_usage_bytes, p.mem_request_bytes));
+    const rightCpu = Math.max(10, Math.ceil((p.cpu_usage_millis * 1.2) / 10) * 10);
+    const rightMem = Math.max(32 * MI, Math.ceil((p.mem_usage_bytes * 1.2) / MI) * MI);
+    const rightsized = hourly(rightCpu, rightMem);
+    return {
+      name: p.name,
+      namespace: p.namespace,
+      cpu_request_millis: p.cpu_request_millis,
+      mem_request_bytes: p.mem_request_bytes,
+      cpu_usage_millis: p.cpu_usage_millis,
+      mem_usage_bytes: p.mem_usage_bytes,
+      hourly_cost: money(h),
+      monthly_cost: money(h * HOURS_PER_MONTH),
+      wasted_cost_monthly: money((h - used) * HOURS_PER_MONTH),
+      efficiency_percent: h > 0 ? Math.round((used / h) * 100) : 100,
+      rightsize_cpu_millis: rightCpu,
+      rightsize_mem_bytes: rightMem,
+      savings_if_rightsized: money(Math.max(0, h - rightsized) * HOURS_PER_MONTH),
+    };
+  });
+
+  const byNamespace = new Map<string, { pod_count: number; monthly_cost: number; wasted_cost: number }>();
+  for (const p of pods) {
+    const ns = byNamespace.get(p.namespace) || { pod_count: 0, monthly_cost: 0, wasted_cost: 0 };
+    ns.pod_count++;
+    ns.monthly_cost += p.monthly_cost;
+    ns.wasted_cost += p.wasted_cost_monthly;
+    byNamespace.set(p.namespace, ns);
+  }
+
+  const totalMonthly = nodes.reduce((s, n) => s + n.monthly_cost, 0);
+  const podMonthly = pods.reduce((s, p) => s + p.monthly_cost, 0);
+  const wasted = pods.reduce((s, p) => s + p.wasted_cost_monthly, 0);
+  const savings = pods.reduce((s, p) => s + p.savings_if_rightsized, 0);
+  const wasteful = [...pods].sort((a, b) => b.wasted_cost_monthly - a.wasted_cost_monthly);
+
+  const recommendations: CostRec[] = wasteful.slice(0, 5).filter((p) => p.savings_if_rightsized > 1).map((p) => ({
+    type: 'rightsize',
+    resource: `${p.namespace}/${p.name}`,
+    message: `Lower requests to ${p.rightsize_cpu_millis}m CPU and ${Math.round(p.rightsize_mem_bytes / MI)}Mi memory`,
+    savings_monthly: p.savings_if_rightsized,
+  }));
+  const requestedCpu = snapshot.summary.total_cpu_request_millis;
+  const allocCpu = snapshot.nodes.reduce((s, n) => s + n.cpu_allocatable_millis, 0);
+  if (snapshot.nodes.length > 2 && requestedCpu < allocCpu * 0.5) {
+    const spare = Math.floor(((allocCpu * 0.7 - requestedCpu) / allocCpu) * snapshot.nodes.length);
+    if (spare > 0) {
+      recommendations.push({
+        type: 'scale_down',
+        resource: 'node pool',
+        message: `Requests fit on ${snapshot.nodes.length - spare} nodes; consider removing ${spare}`,
+        savings_monthly: money(spare * (nodes[0]?.monthly_cost ?? 0)),
+      });
+    }
+  }
+
+  return {
+    provider: spec.cluster.provider,
+    pricing_model: { cpu_per_hour: price.cpu, mem_per_gb_hour: price.mem, description: price.description },
+    total_monthly_cost: money(totalMonthly),
+    total_wasted_cost: money(wasted),
+    savings_if_rightsized: money(savings),
+    overall_efficiency: podMonthly > 0 ? Math.round(((podMonthly - wasted) / podMonthly) * 100) : 100,
+    nodes,
+    top_expensive_pods: [...pods].sort((a, b) => b.monthly_cost - a.monthly_cost).slice(0, 10),
+    top_wasteful_pods: wasteful.slice(0, 10),
+    by_namespace: [...byNamespace].map(([namespace, v]) => ({
+      namespace, pod_count: v.pod_count, monthly_cost: money(v.monthly_cost), wasted_cost: money(v.wasted_cost),
+    })).sort((a, b) => b.monthly_cost - a.monthly_cost),
+    recommendations,
+  };
+}
+
+// Timeline
+
+// Up to and including snapshot `index`, newest first like the API
+export function timeline(spec: ClusterSpec, index = 0): TimelinePoint[] {
+  return Array.from({ length: SNAPSHOT_HISTORY - index }, (_, i) => {
+    const s = snapshotAt(spec, index + i);
+    return {
+      id: s.id,
+      created_at: s.created_at,
+      node_count: s.summary.node_count,
+      pod_count: s.summary.pod_count,
+      cpu_utilization: s.summary.cpu_utilization_percent,
+      mem_utilization: s.summary.mem_utilization_percent,
+      run_as_root_pods: s.summary.run_as_root_pods,
+      latest_tag_pods: s.summary.latest_tag_pods,
+    };
+  });
+}
+
+// Topology and heatmap
+
+function podHealth(p: PodInfo) {
+  if (p.status === 'CrashLoopBackOff' || p.status === 'Failed') return 'critical';
+  if (p.status !== 'Running' || p.restart_count > 3) return 'warning';
+  return 'healthy';
+}
+
+export function topology(snapshot: Snapshot): ClusterTopology {
+  const nodes: TopologyNode[] = snapshot.nodes.map((n) => ({
+    id: `node/${n.name}`,
+    label: n.name,
+    type: 'node',
+    status: n.ready ? 'healthy' : 'critical',
+    metadata: { instance_type: n.instance_type, region: n.region, pods: n.pod_count, kubelet: n.kubelet_version },
+  }));
+  const edges: TopologyEdge[] = [];
+
+  for (const p of snapshot.pods) {
+    nodes.push({
+      id: `pod/${p.namespace}/${p.name}`,
+      label: p.name,
+      type: 'pod',
+      namespace: p.namespace,
+      status: podHealth(p),
+      metadata: { status: p.status, image: `${p.image || p.name}:${p.image_tag}`, restarts: p.restart_count },
+    });
+    if (p.node_name) edges.push({ source: `pod/${p.namespace}/${p.name}`, target: `node/${p.node_name}`, type: 'scheduled_on' });
+  }
+
+  const health = snapshot.pods.map(podHealth);
+  return {
+    nodes,
+    edges,
+    stats: {
+      total_nodes: snapshot.nodes.length,
+      total_pods: snapshot.pods.length,
+      total_namespaces: new Set(snapshot.pods.map((p) => p.namespace)).size,
+      healthy_pods: health.filter((h) => h === 'healthy').length,
+      warning_pods: health.filter((h) => h === 'warning').length,
+      critical_pods: health.filter((h) => h === 'critical').length,
+    },
+  };
+}
+
+export function heatmap(snapshot: Snapshot): HeatmapData {
+  const namespaces = [...new Set(snapshot.pods.map((p) => p.namespace))].sort();
+  const metrics = ['cpu_request', 'mem_request', 'pod_count'];
+  const value = (ns: string, metric: string) => {
+    const pods = snapshot.pods.filter((p) => p.namespace === ns);
+    if (metric === 'cpu_request') return pods.reduce((s, p) => s + p.cpu_request_millis, 0);
+    if (metric === 'mem_request') return pods.reduce((s, p) => s + p.mem_request_bytes, 0);
+    return pods.length;
+  };
+
+  const cells = metrics.flatMap((metric) => {
+    const values = namespaces.map((ns) => value(ns, metric));
+    const max = Math.max(...values, 1);
+    return namespaces.map((ns, i) => ({ namespace: ns, metric, value: values[i], max, intensity: round1(values[i] / max) }));
+  });
+
+  const maxPods = Math.max(...snapshot.nodes.map((n) => n.pod_count), 1) > 58 ? 110 : 58;
+  const node_map = snapshot.nodes.map((n) => {
+    const pods = snapshot.pods.filter((p) => p.node_name === n.name);
+    const cpu = pods.reduce((s, p) => s + p.cpu_request_millis, 0);
+    const mem = pods.reduce((s, p) => s + p.mem_request_bytes, 0);
+    return {
+      node_name: n.name,
+      cpu_percent: round1((cpu / n.cpu_allocatable_millis) * 100),
+      mem_percent: round1((mem / n.mem_allocatable_bytes) * 100),
+      pod_percent: round1((pods.length / maxPods) * 100),
+      pod_count: pods.length,
+      max_pods: maxPods,
+      cpu_requested: cpu,
+      cpu_capacity: n.cpu_allocatable_millis,
+      mem_requested: mem,
+      mem_capacity: n.mem_allocatable_bytes,
+    };
+  });
+
+  return { namespaces, metrics, cells, node_map };
+}
+
+// Events: what changed between snapshot `index` and the one before it
+
+export function events(spec: ClusterSpec, index = 0): EventStream {
+  const latest = snapshotAt(spec, index);
+  const previous = snapshotAt(spec, index + 1);
+  const before = new Map(previous.pods.map((p) => [`${p.namespace}/${p.name}`, p]));
+  const after = new Map(latest.pods.map((p) => [`${p.namespace}/${p.name}`, p]));
+  const end = Date.parse(latest.created_at);
+  const list: PodEvent[] = [];
+  const at = (i: number) => new Date(end - ((i * 7919) % SNAPSHOT_INTERVAL)).toISOString();
+
+  for (const [key, p] of after) {
+    const prev = before.get(key);
+    if (!prev) {
+      list.push({ type: 'pod_added', pod: p.name, namespace: p.namespace, message: `Pod scheduled on ${p.node_name || 'no node yet'}`, severity: 'info', time: at(list.length) });
+      continue;
+    }
+    if (p.restart_count > prev.restart_count) {
+      list.push({
+        type: 'pod_restarted', pod: p.name, namespace: p.namespace,
+        message: `Restarted ${p.restart_count - prev.restart_count} time(s), ${p.restart_count} total`,
+        severity: p.status === 'CrashLoopBackOff' ? 'critical' : 'warning', time: at(list.length),
+      });
+    }
+    if (p.status !== prev.status) {
+      list.push({
+        type: 'status_changed', pod: p.name, namespace: p.namespace, message: `${prev.status} → ${p.status}`,
+        severity: p.status === 'Running' ? 'info' : 'warning', time: at(list.length),
+      });
+    }
+  }
+  for (const [key, p] of before) {
+    if (!after.has(key)) {
+      list.push({ type: 'pod_removed', pod: p.name, namespace: p.namespace, message: 'Pod terminated', severity: 'info', time: at(list.length) });
+    }
+  }
+
+  list.sort((a, b) => b.time.localeCompare(a.time));
+  return {
+    events: list,
+    summary: {
+      total_events: list.length,
+      additions: list.filter((e) => e.type === 'pod_added').length,
+      removals: list.filter((e) => e.type === 'pod_removed').length,
+      restarts: list.filter((e) => e.type === 'pod_restarted').length,
+      warnings: list.filter((e) => e.severity !== 'info').length,
+    },
+  };
+}
+
+// Alerts
+
+export function alerts(snapshot: Snapshot): AlertsResponse {
+  const list: SmartAlert[] = [];
+
+  for (const p of snapshot.pods.filter((p) => p.status === 'CrashLoopBackOff')) {
+    list.push({
+      id: `crash-${p.name}`, type: 'crash_loop', severity: 'critical', title: `${p.name} is crash looping`,
+      description: `The container has restarted ${p.restart_count} times and keeps failing.`,
+      resource: `${p.namespace}/${p.name}`, metric: `${p.restart_count} restarts`,
+      suggestion: `Check the logs with kubectl -n ${p.namespace} logs ${p.name} --previous`,
+    });
+  }
+  for (const p of snapshot.pods.filter((p) => p.status === 'Pending')) {
+    list.push({
+      id: `pending-${p.name}`, type: 'unschedulable', severity: 'warning', title: `${p.name} cannot be scheduled`,
+      description: 'No node has enough free resources or the pod selectors do not match.',
+      resource: `${p.namespace}/${p.name}`,
+      suggestion: 'Lower the requests or add capacity to the node pool',
+    });
+  }
+  for (const n of snapshot.nodes) {
+    const pods = snapshot.pods.filter((p) => p.node_name === n.name);
+    const cpu = pods.reduce((s, p) => s + p.cpu_request_millis, 0) / n.cpu_allocatable_millis;
+    if (!n.ready) {
+      list.push({
+        id: `notready-${n.name}`, type: 'node_not_ready', severity: 'critical', title: `${n.name} is NotReady`,
+        description: 'The kubelet stopped reporting; pods on this node are not being scheduled.',
+        resource: n.name, suggestion: 'Check the kubelet and container runtime on the node',
+      });
+    } else if (cpu > 0.85) {
+      list.push({
+        id: `pressure-${n.name}`, type: 'node_pressure', severity: 'warning', title: `${n.name} is nearly full`,
+        description: 'CPU requests are above 85% of allocatable capacity.',
+        resource: n.name, metric: `${Math.round(cpu * 100)}% CPU requested`,
+        suggestion: 'Spread workloads or add a node',
+      });
+    }
+  }
+  for (const p of snapshot.pods.filter((p) => p.restart_count > 3 && p.status === 'Running').slice(0, 5)) {
+    list.push({
+      id: `restarts-${p.name}`, type: 'high_restarts', severity: 'warning', title: `${p.name} restarts frequently`,
+      description: 'The pod recovered but has restarted several times.',
+      resource: `${p.namespace}/${p.name}`, metric: `${p.restart_count} restarts`,
+      suggestion: 'Look for OOM kills and check the memory limit',
+    });
+  }
+  const idle = snapshot.pods.filter((p) => p.cpu_request_millis >= 1000 && p.cpu_usage_millis < p.cpu_request_millis * 0.2);
+  if (idle.length > 0) {
+    list.push({
+      id: 'overprovisioned', type: 'over_provisioned', severity: 'info', title: `${idle.length} pods use under 20% of their CPU request`,
+      description: 'Large requests that are never used block capacity and cost money.',
+      resource: idle.slice(0, 3).map((p) => p.name).join(', '),
+      suggestion: 'Apply the rightsizing recommendations from the Costs page',
+    });
+  }
+  if (snapshot.summary.latest_tag_pods > 0) {
+    list.push({
+      id: 'latest-tags', type: 'mutable_tags', severity: 'info', title: `${snapshot.summary.latest_tag_pods} pods use :latest`,
+      description: 'Restarts may silently pull a different image.',
+      resource: 'cluster', suggestion: 'Pin images to a version or digest',
+    });
+  }
+
+  return {
+    alerts: list,
+    critical: list.filter((a) => a.severity === 'critical').length,
+    warning: list.filter((a) => a.severity === 'warning').length,
+    info: list.filter((a) => a.severity === 'info').length,
+  };
+}
+
+// Namespace comparison
+
+export function namespaceProfile(snapshot: Snapshot, namespace: string): NamespaceProfile {
+  const pods = snapshot.pods.filter((p) => p.namespace === namespace);
+  const sum = (f: (p: PodInfo) => number) => pods.reduce((s, p) => s + f(p), 0);
+  return {
+    namespace,
+    pod_count: pods.length,
+    running_pods: pods.filter((p) => p.status === 'Running').length,
+    total_cpu_request: sum((p) => p.cpu_request_millis),
+    total_mem_request: sum((p) => p.mem_request_bytes),
+    total_cpu_usage: sum((p) => p.cpu_usage_millis),
+    total_mem_usage: sum((p) => p.mem_usage_bytes),
+    root_pods: pods.filter((p) => p.run_as_root).length,
+    privileged_pods: pods.filter((p) => p.privileged).length,
+    no_probes_pods: pods.filter((p) => !p.has_liveness_probe && !p.has_readiness_probe).length,
+    total_restarts: sum((p) => p.restart_count),
+    latest_tag_pods: pods.filter((p) => p.image_tag === 'latest').length,
+    images: [...new Set(pods.map((p) => `${p.image || p.name}:${p.image_tag}`))].sort(),
+  };
+}
+
+// Golden signals
+
+export function goldenSignals(snapshot: Snapshot): GoldenSignals {
+  const { pods, nodes, summary } = snapshot;
+  const allocCpu = nodes.reduce((s, n) => s + n.cpu_allocatable_millis, 0);
+  const allocMem = nodes.reduce((s, n) => s + n.mem_allocatable_bytes, 0);
+  const cpuReq = round1((summary.total_cpu_request_millis / allocCpu) * 100);
+  const memReq = round1((summary.total_mem_request_bytes / allocMem) * 100);
+  const podCap = round1((pods.length / (nodes.length * 110)) * 100);
+  const crashing = pods.filter((p) => p.status === 'CrashLoopBackOff').length;
+  const restarting = pods.filter((p) => p.restart_count > 0).length;
+  const notReady = pods.filter((p) => p.status !== 'Running').length;
+  const running = pods.filter((p) => p.status === 'Running').length;
+  const pending = pods.filter((p) => p.status === 'Pending').length;
+  const availability = pods.length ? round1((running / pods.length) * 100) : 100;
+  const level = (bad: boolean, warn: boolean) => (bad ? 'critical' : warn ? 'warning' : 'healthy');
+  const cpuEff = summary.total_cpu_request_millis ? round1((summary.total_cpu_usage_millis / summary.total_cpu_request_millis) * 100) : 0;
+  const memEff = summary.total_mem_request_bytes ? round1((summary.total_mem_usage_bytes / summary.total_mem_request_bytes) * 100) : 0;
+
+  const namespaces = [...new Set(pods.map((p) => p.namespace))].sort();
+  return {
+    saturation: {
+      cpu_request_percent: cpuReq,
+      mem_request_percent: memReq,
+      pod_capacity_used: podCap,
+      status: level(cpuReq > 90 || memReq > 90, cpuReq > 75 || memReq > 75),
+      message: cpuReq > 75 || memReq > 75 ? 'Requests are close to allocatable capacity' : 'Plenty of headroom for new workloads',
+    },
+    errors: {
+      crashing_pods: crashing,
+      restarting_pods: restarting,
+      not_ready_pods: notReady,
+      total_restarts: pods.reduce((s, p) => s + p.restart_count, 0),
+      status: level(crashing > 0, restarting > pods.length * 0.1),
+      top_restarters: [...pods].filter((p) => p.restart_count > 0).sort((a, b) => b.restart_count - a.restart_count).slice(0, 5).map((p) => `${p.namespace}/${p.name}`),
+    },
+    traffic: {
+      total_pods: pods.length,
+      running_pods: running,
+      pending_pods: pending,
+      availability_percent: availability,
+      status: level(availability < 90, availability < 98),
+    },
+    utilization: {
+      cpu_usage_percent: summary.cpu_utilization_percent,
+      mem_usage_percent: summary.mem_utilization_percent,
+      cpu_efficiency: cpuEff,
+      mem_efficiency: memEff,
+      status: level(cpuEff < 15, cpuEff < 40),
+    },
+    by_namespace: namespaces.map((ns) => {
+      const nsPods = pods.filter((p) => p.namespace === ns);
+      const restarts = nsPods.reduce((s, p) => s + p.restart_count, 0);
+      const broken = nsPods.some((p) => p.status !== 'Running');
+      return {
+        namespace: ns,
+        pods: nsPods.length,
+        restarts,
+        cpu_request: nsPods.reduce((s, p) => s + p.cpu_request_millis, 0),
+        mem_request: nsPods.reduce((s, p) => s + p.mem_request_bytes, 0),
+        health: broken ? 'unhealthy' : restarts > 5 ? 'degraded' : 'healthy',
+      };
+    }),
+  };
+}
+
+// Service mesh: the Kubernetes object graph behind each app
+
+export function serviceMesh(spec: ClusterSpec, snapshot: Snapshot): ServiceMeshResponse {
+  const nodes: ServiceMeshNode[] = [];
+  const edges: ServiceMeshEdge[] = [];
+  const add = (kind: string, namespace: string, name: string, status: string, details?: Record<string, unknown>) => {
+    const id = `${kind}/${namespace}/${name}`;
+    nodes.push({ id, name, namespace, kind, status, details });
+    return id;
+  };
+
+  for (const n of snapshot.nodes) add('Node', '', n.name, n.ready ? 'healthy' : 'unhealthy', { instance_type: n.instance_type, pods: n.pod_count });
+
+  for (const ns of spec.namespaces) {
+    const nsPods = snapshot.pods.filter((p) => p.namespace === ns.name);
+    if (nsPods.length === 0) continue;
+    const nsId = add('Namespace', ns.name, ns.name, 'healthy');
+    const saId = add('ServiceAccount', ns.name, 'default', 'healthy');
+    edges.push({ source: nsId, target: saId, type: 'contains' });
+
+    for (const a of ns.apps) {
+      const pods = nsPods.filter((p) => appOf(spec, p)?.name === a.name);
+      if (pods.length === 0) continue;
+      const ready = pods.filter((p) => p.status === 'Running').length;
+      const status = ready === pods.length ? 'healthy' : ready === 0 ? 'unhealthy' : 'degraded';
+      const appId = add(a.kind, ns.name, a.name, status, { replicas: pods.length, ready, image: `${a.image}:${a.tag}` });
+      edges.push({ source: nsId, target: appId, type: 'contains' });
+
+      let owner = appId;
+      if (a.kind === 'Deployment') {
+        owner = add('ReplicaSet', ns.name, pods[0].name.split('-').slice(0, -1).join('-'), status, { replicas: pods.length });
+        edges.push({ source: appId, target: owner, type: 'owns' });
+      }
+      const cmId = add('ConfigMap', ns.name, `${a.name}-config`, 'healthy');
+      edges.push({ source: appId, target: cmId, type: 'mounts' });
+
+      for (const p of pods) {
+        const podId = add('Pod', ns.name, p.name, p.status === 'Running' ? 'healthy' : 'unhealthy', { status: p.status, node: p.node_name, restarts: p.restart_count });
+        edges.push({ source: owner, target: podId, type: 'owns' });
+        edges.push({ source: podId, target: saId, type: 'uses' });
+        if (p.node_name) edges.push({ source: podId, target: `Node//${p.node_name}`, type: 'scheduled_on' });
+      }
+
+      if (a.kind !== 'DaemonSet') {
+        const svcId = add('Service', ns.name, a.name, status, { type: 'ClusterIP', ports: a.kind === 'StatefulSet' ? '5432/TCP' : '80/TCP' });
+        const epId = add('Endpoints', ns.name, a.name, status, { ready });
+        edges.push({ source: svcId, target: appId, type: 'selects' });
+        edges.push({ source: svcId, target: epId, type: 'owns' });
+        if (a.exposed) {
+          const ingId = add('Ingress', ns.name, a.name, 'healthy', { host: `${a.name}.${spec.cluster.name}.example.com` });
+          edges.push({ source: ingId, target: svcId, type: 'routes' });
+        }
+        if (a.replicas > 1) {
+          const hpaId = add('HPA', ns.name, a.name, 'healthy', { min: a.replicas, max: a.replicas * 3 });
+          edges.push({ source: hpaId, target: appId, type: 'scales' });
+        }
+      }
+      if (a.kind === 'StatefulSet') {
+        for (const p of pods) {
+          const pvcId = add('PVC', ns.name, `data-${p.name}`, 'healthy', { capacity: '20Gi' });
+          edges.push({ source: `Pod/${ns.name}/${p.name}`, target: pvcId, type: 'mounts' });
+        }
+      }
+      for (const dep of a.deps) edges.push({ source: appId, target: `Service/${ns.name}/${dep}`, type: 'calls' });
+    }
+  }
+
+  return { nodes, edges };
+}
+
+// Blast radius
+
+function appsDependingOn(spec: ClusterSpec, ns: string, name: string) {
+  return spec.namespaces.find((n) => n.name === ns)?.apps.filter((a) => a.deps.includes(name)) ?? [];
+}
+
+export function blastRadius(spec: ClusterSpec, snapshot: Snapshot, targetType: string, target: string, namespace?: string): BlastRadiusResult | null {
+  const hit = targetType === 'node'
+    ? snapshot.pods.filter((p) => p.node_name === target)
+    : snapshot.pods.filter((p) => p.name === target && (!namespace || p.namespace === namespace));
+  if (targetType === 'node' ? !snapshot.nodes.some((n) => n.name === target) : hit.length === 0) return null;
+
+  const serviceNode = (ns: string, a: AppSpec): ServiceNode => ({
+    id: `${ns}/${a.name}`, name: a.name, namespace: ns, type: a.kind.toLowerCase(),
+    replicas: snapshot.pods.filter((p) => p.namespace === ns && appOf(spec, p)?.name === a.name).length,
+    critical: a.system || a.kind === 'StatefulSet' || a.exposed,
+  });
+
+  const targetNode: ServiceNode = targetType === 'node'
+    ? { id: target, name: target, namespace: '', type: 'node', replicas: 0, critical: true }
+    : { id: `${hit[0].namespace}/${target}`, name: target, namespace: hit[0].namespace, type: 'pod', replicas: 1, critical: false };
+
+  const seen = new Set<string>();
+  const zones: BlastZone[] = [];
+  const dependencies: Dependency[] = [];
+  const all: ServiceNode[] = [targetNode];
+  let fullOutage = false;
+
+  // Zone 0: the workloads running on the target
+  const direct: ServiceNode[] = [];
+  for (const p of hit) {
+    const a = appOf(spec, p);
+    if (!a || seen.has(`${p.namespace}/${a.name}`)) continue;
+    seen.add(`${p.namespace}/${a.name}`);
+    const svc = serviceNode(p.namespace, a);
+    const lost = hit.filter((h) => h.namespace === p.namespace && appOf(spec, h)?.name === a.name).length;
+    if (lost >= svc.replicas) fullOutage = true;
+    direct.push(svc);
+    dependencies.push({ from: targetNode.id, to: svc.id, type: 'hosts', label: `${lost}/${svc.replicas} replicas` });
+  }
+
+  // Zones 1 and 2: whatever calls those workloads, transitively
+  let frontier = direct;
+  zones.push({ level: 0, label: 'Directly affected', services: direct });
+  for (const [level, label] of [[1, 'Upstream callers'], [2, 'Indirect impact']] as const) {
+    const next: ServiceNode[] = [];
+    for (const svc of frontier) {
+      for (const caller of appsDependingOn(spec, svc.namespace, svc.name)) {
+        const id = `${svc.namespace}/${caller.name}`;
+        dependencies.push({ from: id, to: svc.id, type: 'calls', label: 'HTTP' });
+        if (seen.has(id)) continue;
+        seen.add(id);
+        next.push(serviceNode(svc.namespace, caller));
+      }
+    }
+    if (next.length > 0) zones.push({ level, label, services: next });
+    frontier = next;
+  }
+
+  for (const z of zones) all.push(...z.services);
+  const affectedServices = all.length - 1;
+  const cascade = zones.flatMap((z) => z.services.map((s) => `${s.namespace}/${s.name}`));
+
+  return {
+    target,
+    target_type: targetType,
+    nodes: all,
+    dependencies,
+    impact: {
+      affected_pods: hit.length,
+      affected_services: affectedServices,
+      downtime_risk: fullOutage ? 'full' : affectedServices > 0 ? 'partial' : 'none',
+      description: fullOutage
+        ? 'At least one workload has every replica on the target and will be unavailable until rescheduled.'
+        : affectedServices > 0
+          ? 'Affected workloads keep serving from other replicas at reduced capacity.'
+          : 'Nothing depends on the target.',
+      cascade_chain: cascade,
+    },
+    zones,
+  };
+}
+
+// Simulator
+
+export function simulate(spec: ClusterSpec, snapshot: Snapshot, type: string, params: Record<string, unknown>): SimulationResult | null {
+  const allocCpu = (nodes: NodeInfo[]) => nodes.reduce((s, n) => s + n.cpu_allocatable_millis, 0);
+  const allocMem = (nodes: NodeInfo[]) => nodes.reduce((s, n) => s + n.mem_allocatable_bytes, 0);
+  const before = summarize(snapshot.nodes, snapshot.pods);
+  const warnings: string[] = [];
+  let nodes = snapshot.nodes;
+  let pods = snapshot.pods;
+  let evicted: PodInfo[] = [];
+  let scenario: string;
+  let savings = 0;
+
+  switch (type) {
+    case 'remove_node': {
+      const name = String(params.node_name ?? '');
+      if (!nodes.some((n) => n.name === name)) return null;
+      scenario = `Remove node ${name}`;
+      evicted = pods.filter((p) => p.node_name === name);
+      nodes = nodes.filter((n) => n.name !== name);
+      savings = (snapshot.nodes.find((n) => n.name === name)?.cost_per_hour ?? 0) * HOURS_PER_MONTH;
+      break;
+    }
+    case 'scale_down': {
+      const count = Math.max(1, Math.min(Number(params.remove_nodes) || 1, nodes.length - 1));
+      scenario = `Scale down by ${count} node${count > 1 ? 's' : ''}`;
+      const removed = [...nodes].sort((a, b) => a.pod_count - b.pod_count).slice(0, count).map((n) => n.name);
+      evicted = pods.filter((p) => removed.includes(p.node_name));
+      nodes = nodes.filter((n) => !removed.includes(n.name));
+      savings = removed.reduce((s, name) => s + (snapshot.nodes.find((n) => n.name === name)?.cost_per_hour ?? 0), 0) * HOURS_PER_MONTH;
+      break;
+    }
+    case 'change_limits': {
+      const ns = String(params.namespace ?? '');
+      const cpuX = Number(params.cpu_multiplier) || 1;
+      const memX = Number(params.mem_multiplier) || 1;
+      scenario = `Scale requests in ${ns || 'all namespaces'} by ${cpuX}x CPU / ${memX}x memory`;
+      pods = pods.map((p) => (!ns || p.namespace === ns
+        ? { ...p, cpu_request_millis: Math.round(p.cpu_request_millis * cpuX), mem_request_bytes: Math.round(p.mem_request_bytes * memX) }
+        : p));
+      const throttled = pods.filter((p) => (!ns || p.namespace === ns) && p.cpu_usage_millis > p.cpu_request_millis);
+      if (throttled.length > 0) warnings.push(`${throttled.length} pods would use more CPU than they request and may be throttled`);
+      const oom = pods.filter((p) => (!ns || p.namespace === ns) && p.mem_usage_bytes > p.mem_request_bytes);
+      if (oom.length > 0) warnings.push(`${oom.length} pods would exceed their memory request and risk eviction under pressure`);
+      const price = pricing(spec.cluster.provider);
+      savings = (((before.total_cpu_request_millis - pods.reduce((s, p) => s + p.cpu_request_millis, 0)) / 1000) * price.cpu
+        + ((before.total_mem_request_bytes - pods.reduce((s, p) => s + p.mem_request_bytes, 0)) / GI) * price.mem) * HOURS_PER_MONTH;
+      break;
+    }
+    default:
+      return null;
+  }
+
+  // Reschedule evicted pods onto the remaining nodes, first fit by CPU
+  const free = new Map(nodes.map((n) => [n.name, {
+    cpu: n.cpu_allocatable_millis - pods.filter((p) => p.node_name === n.name).reduce((s, p) => s + p.cpu_request_millis, 0),
+    mem: n.mem_allocatable_bytes - pods.filter((p) => p.node_name === n.name).reduce((s, p) => s + p.mem_request_bytes, 0),
+  }]));
+  const evictedPods = evicted.map((p) => {
+    const dest = [...free].find(([, f]) => f.cpu >= p.cpu_request_millis && f.mem >= p.mem_request_bytes);
+    if (dest) {
+      dest[1].cpu -= p.cpu_request_millis;
+      dest[1].mem -= p.mem_request_bytes;
+    }
+    const daemon = appOf(spec, p)?.kind === 'DaemonSet';
+    return {
+      name: p.name,
+      namespace: p.namespace,
+      reason: daemon ? 'DaemonSet pod is removed with its node' : dest ? `Rescheduled to ${dest[0]}` : 'Insufficient CPU or memory on remaining nodes',
+      can_reschedule: !daemon && !!dest,
+    };
+  });
+  const stranded = evictedPods.filter((p) => !p.can_reschedule && !p.reason.startsWith('DaemonSet')).length;
+  if (stranded > 0) warnings.push(`${stranded} pods cannot be rescheduled and would stay Pending`);
+
+  const remaining = pods.filter((p) => !evicted.includes(p));
+  const cpuUsage = pods.reduce((s, p) => s + p.cpu_usage_millis, 0);
+  const memUsage = pods.reduce((s, p) => s + p.mem_usage_bytes, 0);
+  const after = {
+    cpu: remaining.reduce((s, p) => s + p.cpu_request_millis, 0) + evicted.reduce((s, p) => s + p.cpu_request_millis, 0),
+    mem: remaining.reduce((s, p) => s + p.mem_request_bytes, 0) + evicted.reduce((s, p) => s + p.mem_request_bytes, 0),
+  };
+  const cpuUtilAfter = round1((cpuUsage / Math.max(allocCpu(nodes), 1)) * 100);
+  const memUtilAfter = round1((memUsage / Math.max(allocMem(nodes), 1)) * 100);
+  if (cpuUtilAfter > 80) warnings.push(`CPU utilisation would reach ${cpuUtilAfter}%`);
+
+  const affected = [...new Set(evicted.map((p) => appOf(spec, p)).filter((a) => a && a.kind !== 'DaemonSet').map((a) => a!.name))];
+  const impact = stranded > 0 ? 'critical' : cpuUtilAfter > 80 || memUtilAfter > 80 ? 'high' : evicted.length > 0 || warnings.length > 0 ? 'medium' : 'low';
+
+  return {
+    scenario,
+    impact,
+    summary: stranded > 0
+      ? `${stranded} of ${evicted.length} evicted pods have nowhere to go.`
+      : evicted.length > 0
+        ? `All ${evicted.length} evicted pods fit on the remaining nodes.`
+        : 'No pods are displaced by this change.',
+    evicted_pods: evictedPods,
+    affected_services: affected,
+    resource_delta: {
+      cpu_before_millis: before.total_cpu_request_millis,
+      cpu_after_millis: after.cpu,
+      mem_before_bytes: before.total_mem_request_bytes,
+      mem_after_bytes: after.mem,
+      cpu_util_before: before.cpu_utilization_percent,
+      cpu_util_after: cpuUtilAfter,
+      mem_util_before: before.mem_utilization_percent,
+      mem_util_after: memUtilAfter,
+    },
+    warnings,
+    cost_savings_monthly: Math.round(savings * 100) / 100,
+  };
+}
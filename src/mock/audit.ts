@@ -0,0 +1,105 @@
+import type { AuditEntry } from '../lib/api';
+import { clusterSpecs, random } from './fixtures';
+
+// Audit trail of the mock backend: a month of seeded history per org, plus
+// whatever the visitor does during the page session.
+
+export interface Actor {
+  id: string | null;
+  email: string;
+}
+
+interface Extra {
+  cluster?: { id: string; name: string };
+  metadata?: Record<string, string>;
+}
+
+interface StoredEntry {
+  orgId: string;
+  entry: AuditEntry;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const LOCAL_IP = '127.0.0.1';
+const MAX_RESULTS = 1000;
+
+let sequence = 0;
+const log: StoredEntry[] = [];
+
+function entry(orgId: string, at: number, actor: Actor, action: string, ip: string, { cluster, metadata = {} }: Extra): StoredEntry {
+  return {
+    orgId,
+    entry: {
+      id: `audit-${++sequence}`,
+      at: new Date(at).toISOString(),
+      actor_id: actor.id,
+      actor_email: actor.email,
+      action,
+      cluster_id: cluster?.id ?? null,
+      cluster_name: cluster?.name ?? null,
+      ip,
+      metadata,
+    },
+  };
+}
+
+export function recordAudit(orgId: string, actor: Actor, action: string, extra: Extra = {}) {
+  log.push(entry(orgId, Date.now(), actor, action, LOCAL_IP, extra));
+}
+
+function seed(orgId: string, actors: Actor[], count: number, seedValue: number) {
+  const rand = random(seedValue);
+  const pick = <T>(items: T[]) => items[Math.floor(rand() * items.length)];
+  const clusters = clusterSpecs.map((s) => s.cluster).filter((c) => c.org_id === orgId);
+  const ips = ['203.0.113.24', '203.0.113.81', '198.51.100.7', '198.51.100.142'];
+
+  for (let i = 0; i < count; i++) {
+    const at = Date.now() - rand() * 30 * DAY;
+    const actor = pick(actors);
+    const ip = pick(ips);
+    const cluster = pick(clusters);
+    const roll = rand();
+    if (roll < 0.35) {
+      log.push(entry(orgId, at, actor, 'auth.login', ip, { metadata: { method: rand() < 0.3 ? 'sso' : 'password' } }));
+    } else if (roll < 0.6) {
+      const type = pick(['remove_node', 'scale_down', 'change_limits']);
+      log.push(entry(orgId, at, actor, 'simulation.run', ip, { cluster, metadata: { type } }));
+    } else if (roll < 0.72) {
+      log.push(entry(orgId, at, actor, 'cluster.api_key_revealed', ip, { cluster }));
+    } else if (roll < 0.8) {
+      log.push(entry(orgId, at, { id: null, email: actor.email }, 'auth.login_failed', ip, { metadata: { reason: 'invalid_password' } }));
+    } else if (roll < 0.88) {
+      const name = `scratch-${Math.floor(rand() * 900 + 100)}`;
+      const id = `cluster-${name}`;
+      log.push(entry(orgId, at, actor, 'cluster.created', ip, { cluster: { id, name }, metadata: { provider: 'k3s' } }));
+      log.push(entry(orgId, at + rand() * 2 * DAY, actor, 'cluster.deleted', ip, { cluster: { id, name } }));
+    } else {
+      const member = pick(actors.filter((a) => a !== actor)) ?? actor;
+      log.push(entry(orgId, at, actor, 'member.role_changed', ip, { metadata: { member: member.email, from: 'viewer', to: 'editor' } }));
+    }
+  }
+}
+
+const demo = { id: 'user-demo', email: 'demo@infradar.dev' };
+const dev = { id: 'user-dev', email: 'dev@infradar.dev' };
+seed('org-acme', [demo, dev], 48, 101);
+seed('org-labs', [dev, demo], 20, 202);
+
+// Filters mirror the query parameters of GET /orgs/:id/audit
+export function auditLog(orgId: string, query: URLSearchParams): AuditEntry[] {
+  const actor = query.get('actor');
+  const action = query.get('action');
+  const clusterId = query.get('cluster_id');
+  const from = query.get('from');
+  const to = query.get('to');
+  return log
+    .filter((s) => s.orgId === orgId)
+    .map((s) => s.entry)
+    .filter((e) => (!actor || e.actor_email === actor)
+      && (!action || e.action === action)
+      && (!clusterId || e.cluster_id === clusterId)
+      && (!from || e.at >= from)
+      && (!to || e.at < to))
+    .sort((a, b) => b.at.localeCompare(a.at))
+    .slice(0, MAX_RESULTS);
+}
@@ -0,0 +1,465 @@
+import type { Cluster, NodeInfo, PodInfo, Snapshot, SnapshotSummary } from '../lib/api';
+
+// Deterministic fixture clusters for the mock backend. Every cluster is
+// generated from a seed, so the same ids always produce the same pods.
+
+const MI = 1024 * 1024;
+const GI = 1024 * MI;
+const HOUR = 60 * 60 * 1000;
+
+export const SNAPSHOT_INTERVAL = HOUR;
+export const SNAPSHOT_HISTORY = 24;
+
+export function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function hashString(s: string) {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  return h >>> 0;
+}
+
+export interface AppSpec {
+  name: string;
+  kind: 'Deployment' | 'StatefulSet' | 'DaemonSet';
+  image: string;
+  tag: string;
+  replicas: number;
+  cpu: number;
+  mem: number;
+  deps: string[];
+  exposed: boolean;
+  system: boolean;
+}
+
+export interface NamespaceSpec {
+  name: string;
+  apps: AppSpec[];
+}
+
+export interface ClusterSpec {
+  cluster: Cluster;
+  seed: number;
+  // Key the agent was installed with
+  apiKey: string;
+  // The agent stopped reporting this long before the page loaded
+  silentFor?: number;
+  nodes: { count: number; prefix: string; instanceType: string; region: string; cpu: number; memGi: number; maxPods: number; costPerHour: number };
+  namespaces: NamespaceSpec[];
+  // Share of pods with risky security settings
+  insecurity: number;
+  // Actual usage as a fraction of requests
+  usage: [number, number];
+  // Share of pods that restart or crash
+  instability: number;
+}
+
+function app(name: string, image: string, tag: string, replicas: number, cpu: number, memMi: number, extra: Partial<AppSpec> = {}): AppSpec {
+  return { name, kind: 'Deployment', image, tag, replicas, cpu, mem: memMi * MI, deps: [], exposed: false, system: false, ...extra };
+}
+
+function webStack(team: string, scale: number): AppSpec[] {
+  return [
+    app('frontend', 'nginx', '1.25.3', 2 * scale, 100, 128, { deps: ['api'], exposed: true }),
+    app('api', `ghcr.io/acme/${team}-api`, 'v2.14.0', 2 * scale, 250, 512, { deps: ['postgres', 'redis'] }),
+    app('worker', `ghcr.io/acme/${team}-worker`, 'v2.14.0', scale, 500, 1024, { deps: ['redis', 'postgres'] }),
+    app('postgres', 'postgres', '16.2', 1, 500, 2048, { kind: 'StatefulSet' }),
+    app('redis', 'redis', '7.2.4', 1, 100, 256, { kind: 'StatefulSet' }),
+  ];
+}
+
+function systemNamespace(provider: string): NamespaceSpec {
+  const cni = provider === 'eks'
+    ? app('aws-node', 'amazon-k8s-cni', 'v1.18.0', 0, 25, 64, { kind: 'DaemonSet', system: true })
+    : app('kube-flannel', 'flannel/flannel', 'v0.24.2', 0, 100, 50, { kind: 'DaemonSet', system: true });
+  return {
+    name: 'kube-system',
+    apps: [
+      app('coredns', 'coredns/coredns', '1.11.1', 2, 100, 70, { system: true }),
+      app('kube-proxy', 'kube-proxy', 'v1.29.3', 0, 100, 128, { kind: 'DaemonSet', system: true }),
+      cni,
+      app('metrics-server', 'metrics-server/metrics-server', 'v0.7.0', 1, 100, 200, { system: true }),
+    ],
+  };
+}
+
+const monitoring: NamespaceSpec = {
+  name: 'monitoring',
+  apps: [
+    app('prometheus', 'prom/prometheus', 'v2.51.0', 1, 500, 2048, { kind: 'StatefulSet', exposed: true }),
+    app('grafana', 'grafana/grafana', '10.4.1', 1, 100, 256, { deps: ['prometheus'], exposed: true }),
+    app('node-exporter', 'prom/node-exporter', 'v1.7.0', 0, 50, 64, { kind: 'DaemonSet', system: true }),
+  ],
+};
+
+const now = Date.now();
+const iso = (ms: number) => new Date(ms).toISOString();
+
+// Long enough for the legacy agent to show up as stale
+const LEGACY_SILENT_FOR = 3 * HOUR + 12 * 60_000;
+
+export const clusterSpecs: ClusterSpec[] = [
+  {
+    cluster: {
+      id: 'demo-staging', name: 'staging-k3s', provider: 'k3s',
+      status: 'connected', last_seen_at: iso(now - 40_000), created_at: iso(now - 45 * 24 * HOUR), org_id: 'org-acme',
+      snapshot_interval_seconds: SNAPSHOT_INTERVAL / 1000,
+      environment: 'staging', owner_team: 'platform', labels: { region: 'eu-central', tier: 'shared' },
+      description: 'Shared staging environment for the web teams',
+    },
+    seed: 11,
+    apiKey: 'ird_demo_staging_7f3a9c21',
+    nodes: { count: 3, prefix: 'k3s-node', instanceType: 'cx31', region: 'eu-central', cpu: 4000, memGi: 8, maxPods: 110, costPerHour: 0.02 },
+    namespaces: [
+      { name: 'default', apps: [
+        app('blog', 'ghcr.io/acme/blog', 'v1.4.2', 2, 100, 128, { deps: ['blog-db'], exposed: true }),
+        app('blog-db', 'mariadb', '11.3', 1, 250, 512, { kind: 'StatefulSet' }),
+      ] },
+      monitoring,
+      systemNamespace('k3s'),
+    ],
+    insecurity: 0.1,
+    usage: [0.4, 0.9],
+    instability: 0.05,
+  },
+  {
+    cluster: {
+      id: 'demo-production', name: 'prod-eks-us-east', provider: 'eks',
+      status: 'connected', last_seen_at: iso(now - 25_000), created_at: iso(now - 320 * 24 * HOUR), org_id: 'org-acme',
+      snapshot_interval_seconds: SNAPSHOT_INTERVAL / 1000,
+      environment: 'prod', owner_team: 'payments', labels: { region: 'us-east-1', tier: 'critical', pci: 'true' },
+      description: 'Customer-facing production workloads',
+    },
+    seed: 23,
+    apiKey: 'ird_demo_production_b81d4e07',
+    nodes: { count: 24, prefix: 'ip-10-0', instanceType: 'm5.2xlarge', region: 'us-east-1', cpu: 8000, memGi: 32, maxPods: 58, costPerHour: 0.384 },
+    namespaces: [
+      ...['payments', 'checkout', 'catalog', 'search', 'accounts', 'notifications', 'orders', 'shipping'].map((team) => ({
+        name: team,
+        apps: webStack(team, 3),
+      })),
+      { name: 'ingress-nginx', apps: [app('ingress-nginx-controller', 'ingress-nginx/controller', 'v1.10.0', 3, 200, 256, { exposed: true, system: true })] },
+      { name: 'platform', apps: [
+        app('argocd-server', 'argoproj/argocd', 'v2.10.4', 2, 250, 256, { exposed: true }),
+        app('cert-manager', 'jetstack/cert-manager-controller', 'v1.14.4', 1, 50, 128, { system: true }),
+        app('external-dns', 'external-dns/external-dns', 'v0.14.1', 1, 50, 64, { system: true }),
+      ] },
+      monitoring,
+      systemNamespace('eks'),
+    ],
+    insecurity: 0.08,
+    usage: [0.3, 0.85],
+    instability: 0.06,
+  },
+  {
+    cluster: {
+      id: 'demo-legacy', name: 'legacy-gke', provider: 'gke',
+      status: 'connected', last_seen_at: iso(now - LEGACY_SILENT_FOR), created_at: iso(now - 900 * 24 * HOUR), org_id: 'org-labs',
+      snapshot_interval_seconds: SNAPSHOT_INTERVAL / 1000,
+      environment: 'prod', owner_team: 'data', labels: { region: 'europe-west1', lifecycle: 'deprecated' },
+      description: 'Pre-migration workloads, scheduled for decommissioning',
+    },
+    seed: 37,
+    apiKey: 'ird_demo_legacy_0c55a8e3',
+    silentFor: LEGACY_SILENT_FOR,
+    nodes: { count: 5, prefix: 'gke-legacy-pool', instanceType: 'n1-standard-4', region: 'us-central1', cpu: 4000, memGi: 15, maxPods: 110, costPerHour: 0.19 },
+    namespaces: [
+      { name: 'default', apps: [
+        app('monolith', 'gcr.io/acme/monolith', 'latest', 4, 500, 1024, { deps: ['mysql', 'memcached'], exposed: true }),
+        app('cron-runner', 'gcr.io/acme/cron-runner', 'latest', 1, 100, 256, { deps: ['mysql'] }),
+        app('mysql', 'mysql', '5.7', 1, 1000, 4096, { kind: 'StatefulSet' }),
+        app('memcached', 'memcached', '1.5', 2, 100, 512, { kind: 'StatefulSet' }),
+      ] },
+      { name: 'jenkins', apps: [
+        app('jenkins', 'jenkins/jenkins', 'lts', 1, 1000, 2048, { kind: 'StatefulSet', exposed: true }),
+        app('docker-dind', 'docker', 'dind', 2, 500, 1024, { deps: ['jenkins'] }),
+      ] },
+      { name: 'tools', apps: [
+        app('phpmyadmin', 'phpmyadmin', 'latest', 1, 100, 256, { deps: ['mysql'], exposed: true }),
+        app('debug-shell', 'busybox', 'latest', 1, 10, 32),
+      ] },
+      systemNamespace('gke'),
+    ],
+    insecurity: 0.7,
+    usage: [0.5, 1.1],
+    instability: 0.25,
+  },
+  {
+    cluster: {
+      id: 'demo-analytics', name: 'analytics-aks', provider: 'aks',
+      status: 'connected', last_seen_at: iso(now - 15_000), created_at: iso(now - 150 * 24 * HOUR), org_id: 'org-labs',
+      snapshot_interval_seconds: SNAPSHOT_INTERVAL / 1000,
+      environment: 'dev', owner_team: 'data', labels: { region: 'westeurope' },
+    },
+    seed: 53,
+    apiKey: 'ird_demo_analytics_4e92f6b0',
+    nodes: { count: 8, prefix: 'aks-memopt', instanceType: 'Standard_E16s_v5', region: 'westeurope', cpu: 16000, memGi: 128, maxPods: 110, costPerHour: 1.008 },
+    namespaces: [
+      { name: 'spark', apps: [
+        app('spark-driver', 'apache/spark', '3.5.1', 2, 2000, 8192, { deps: ['spark-executor'] }),
+        app('spark-executor', 'apache/spark', '3.5.1', 12, 4000, 24576),
+        app('spark-history', 'apache/spark', '3.5.1', 1, 1000, 4096, { exposed: true }),
+      ] },
+      { name: 'warehouse', apps: [
+        app('trino-coordinator', 'trinodb/trino', '442', 1, 4000, 16384, { deps: ['trino-worker', 'hive-metastore'], exposed: true }),
+        app('trino-worker', 'trinodb/trino', '442', 6, 4000, 32768),
+        app('hive-metastore', 'apache/hive', '4.0.0', 1, 1000, 4096, { kind: 'StatefulSet' }),
+      ] },
+      { name: 'notebooks', apps: [
+        app('jupyterhub', 'jupyterhub/k8s-hub', '3.3.7', 1, 500, 1024, { exposed: true }),
+        app('jupyter-user', 'jupyter/datascience-notebook', '2024-03-14', 5, 2000, 16384, { deps: ['jupyterhub'] }),
+      ] },
+      monitoring,
+      systemNamespace('aks'),
+    ],
+    insecurity: 0.15,
+    usage: [0.04, 0.25],
+    instability: 0.03,
+  },
+];
+
+export function findSpec(clusterId: string) {
+  return clusterSpecs.find((s) => s.cluster.id === clusterId);
+}
+
+// Base cluster state, before per-snapshot drift is applied
+interface ClusterState {
+  nodes: NodeInfo[];
+  pods: PodInfo[];
+}
+
+const stateCache = new Map<string, ClusterState>();
+const snapshotCache = new Map<string, Snapshot>();
+
+function suffix(rand: () => number, len: number) {
+  const chars = 'bcdfghjklmnpqrstvwxz2456789';
+  let s = '';
+  for (let i = 0; i < len; i++) s += chars[Math.floor(rand() * chars.length)];
+  return s;
+}
+
+function buildNodes(spec: ClusterSpec, rand: () => number): NodeInfo[] {
+  const { nodes } = spec;
+  return Array.from({ length: nodes.count }, (_, i) => {
+    const name = spec.cluster.provider === 'eks'
+      ? `${nodes.prefix}-${Math.floor(i / 8) + 1}-${10 + ((i * 37) % 240)}.ec2.internal`
+      : `${nodes.prefix}-${suffix(rand, 5)}`;
+    return {
+      name,
+      instance_type: nodes.instanceType,
+      region: nodes.region,
+      kubelet_version: 'v1.29.3',
+      cpu_capacity_millis: nodes.cpu,
+      memory_capacity_bytes: nodes.memGi * GI,
+      cpu_allocatable_millis: nodes.cpu - 200,
+      mem_allocatable_bytes: nodes.memGi * GI - 768 * MI,
+      pod_count: 0,
+      ready: !(spec.insecurity > 0.5 && i === nodes.count - 1),
+      cost_per_hour: nodes.costPerHour,
+    };
+  });
+}
+
+function buildPod(spec: ClusterSpec, ns: string, a: AppSpec, name: string, nodeName: string, rand: () => number): PodInfo {
+  const risk = a.system ? 0 : spec.insecurity;
+  const [lo, hi] = spec.usage;
+  const usage = lo + rand() * (hi - lo);
+  const roll = rand();
+  const crashing = !a.system && roll < spec.instability * 0.25;
+  const pending = !a.system && !crashing && roll < spec.instability * 0.35;
+  const restarts = crashing ? 12 + Math.floor(rand() * 60) : rand() < spec.instability ? 1 + Math.floor(rand() * 8) : 0;
+  const noLimits = rand() < risk * 0.6;
+  const hostLevel = a.kind === 'DaemonSet' && a.system;
+
+  return {
+    name,
+    namespace: ns,
+    node_name: pending ? '' : nodeName,
+    status: crashing ? 'CrashLoopBackOff' : pending ? 'Pending' : 'Running',
+    image: a.image,
+    image_tag: rand() < risk * 0.4 ? 'latest' : a.tag,
+    cpu_request_millis: a.cpu,
+    cpu_limit_millis: noLimits ? 0 : a.cpu * 2,
+    mem_request_bytes: a.mem,
+    mem_limit_bytes: noLimits ? 0 : a.mem * 2,
+    cpu_usage_millis: pending ? 0 : Math.round(a.cpu * usage),
+    mem_usage_bytes: pending ? 0 : Math.round(a.mem * Math.min(usage * 1.1, 1.3)),
+    restart_count: restarts,
+    run_as_root: hostLevel || rand() < risk,
+    privileged: hostLevel || rand() < risk * 0.3,
+    host_network: hostLevel || rand() < risk * 0.15,
+    host_pid: rand() < risk * 0.1,
+    has_liveness_probe: rand() >= risk * 0.8,
+    has_readiness_probe: rand() >= risk * 0.6,
+    has_security_context: hostLevel || rand() >= risk,
+    read_only_root_fs: !hostLevel && rand() >= 0.4 + risk * 0.6,
+  };
+}
+
+function buildState(spec: ClusterSpec): ClusterState {
+  const rand = random(spec.seed);
+  const nodes = buildNodes(spec, rand);
+  const schedulable = nodes.filter((n) => n.ready);
+  const requested = new Map<string, number>(nodes.map((n) => [n.name, 0]));
+  const pods: PodInfo[] = [];
+
+  // Least-requested scheduling keeps the spread even and deterministic
+  const pickNode = (cpu: number) => {
+    let best = schedulable[0];
+    for (const n of schedulable) if (requested.get(n.name)! < requested.get(best.name)!) best = n;
+    requested.set(best.name, requested.get(best.name)! + cpu);
+    return best.name;
+  };
+
+  for (const ns of spec.namespaces) {
+    for (const a of ns.apps) {
+      if (a.kind === 'DaemonSet') {
+        for (const n of schedulable) {
+          requested.set(n.name, requested.get(n.name)! + a.cpu);
+          pods.push(buildPod(spec, ns.name, a, `${a.name}-${suffix(rand, 5)}`, n.name, rand));
+        }
+        continue;
+      }
+      const hash = suffix(rand, 10);
+      for (let i = 0; i < a.replicas; i++) {
+        const name = a.kind === 'StatefulSet' ? `${a.name}-${i}` : `${a.name}-${hash}-${suffix(rand, 5)}`;
+        pods.push(buildPod(spec, ns.name, a, name, pickNode(a.cpu), rand));
+      }
+    }
+  }
+
+  return { nodes, pods };
+}
+
+function clusterState(spec: ClusterSpec) {
+  let state = stateCache.get(spec.cluster.id);
+  if (!state) {
+    state = buildState(spec);
+    stateCache.set(spec.cluster.id, state);
+  }
+  return state;
+}
+
+export function summarize(nodes: NodeInfo[], pods: PodInfo[]): SnapshotSummary {
+  const allocCpu = nodes.reduce((s, n) => s + n.cpu_allocatable_millis, 0);
+  const allocMem = nodes.reduce((s, n) => s + n.mem_allocatable_bytes, 0);
+  const sum = (f: (p: PodInfo) => number) => pods.reduce((s, p) => s + f(p), 0);
+  const cpuUsage = sum((p) => p.cpu_usage_millis);
+  const memUsage = sum((p) => p.mem_usage_bytes);
+  return {
+    node_count: nodes.length,
+    pod_count: pods.length,
+    total_cpu_request_millis: sum((p) => p.cpu_request_millis),
+    total_cpu_usage_millis: cpuUsage,
+    total_mem_request_bytes: sum((p) => p.mem_request_bytes),
+    total_mem_usage_bytes: memUsage,
+    cpu_utilization_percent: round1(allocCpu ? (cpuUsage / allocCpu) * 100 : 0),
+    mem_utilization_percent: round1(allocMem ? (memUsage / allocMem) * 100 : 0),
+    over_provisioned_pods: pods.filter((p) => p.cpu_request_millis > 0 && p.cpu_usage_millis < p.cpu_request_millis * 0.3).length,
+    run_as_root_pods: pods.filter((p) => p.run_as_root).length,
+    latest_tag_pods: pods.filter((p) => p.image_tag === 'latest').length,
+  };
+}
+
+export function round1(n: number) {
+  return Math.round(n * 10) / 10;
+}
+
+export function snapshotId(clusterId: string, index: number) {
+  return `${clusterId}-snap-${String(SNAPSHOT_HISTORY - index).padStart(3, '0')}`;
+}
+
+// Snapshots ago that something happened, or Infinity when it happened before
+// the history starts. Only one in `odds` events falls inside the history.
+function happenedAt(what: string, odds: number) {
+  const at = hashString(what) % (SNAPSHOT_HISTORY * odds);
+  return at < SNAPSHOT_HISTORY ? at : Infinity;
+}
+
+// v1.4.2 -> v1.4.1; tags without a trailing number stay as they are
+function previousTag(tag: string) {
+  return tag.replace(/(\d+)$/, (n) => String(Math.max(0, Number(n) - 1)));
+}
+
+// What a pod looked like before the changes that happened since `index`:
+// rollouts of its workload, a move to another node, the newest node joining
+function history(spec: ClusterSpec, pod: PodInfo, index: number, nodes: NodeInfo[], newestNode: string | null): PodInfo {
+  let p = pod;
+  const app = appOf(spec, pod);
+  if (app && index > happenedAt(`${spec.cluster.id}:${pod.namespace}/${app.name}:rollout`, 5)) {
+    const scale = (n: number) => Math.round(n * 0.75);
+    p = {
+      ...p,
+      image_tag: p.image_tag === 'latest' ? p.image_tag : previousTag(p.image_tag),
+      cpu_request_millis: scale(p.cpu_request_millis),
+      cpu_limit_millis: scale(p.cpu_limit_millis),
+      mem_request_bytes: scale(p.mem_request_bytes),
+      mem_limit_bytes: scale(p.mem_limit_bytes),
+      // Some rollouts were security fixes
+      run_as_root: hashString(app.name) % 3 === 0 ? !p.run_as_root : p.run_as_root,
+    };
+  }
+  if (p.node_name && index > happenedAt(`${p.name}:moved`, 6)) {
+    const ready = nodes.filter((n) => n.ready && n.name !== p.node_name);
+    if (ready.length > 0) p = { ...p, node_name: ready[hashString(p.name) % ready.length].name };
+  }
+  if (p.node_name === newestNode) p = { ...p, node_name: nodes[0].name };
+  return p;
+}
+
+// index 0 is the latest snapshot; older ones drift a little so that
+// history, diffs and events have something to show
+export function snapshotAt(spec: ClusterSpec, index: number): Snapshot {
+  const id = snapshotId(spec.cluster.id, index);
+  const cached = snapshotCache.get(id);
+  if (cached) return cached;
+
+  const base = clusterState(spec);
+  const rand = random(spec.seed * 1000 + index);
+  // Larger clusters grew by a node at some point
+  const joined = base.nodes.length > 3 ? happenedAt(`${spec.cluster.id}:node-joined`, 1) : Infinity;
+  const newestNode = index > joined ? base.nodes[base.nodes.length - 1].name : null;
+  const current = base.nodes.filter((n) => n.name !== newestNode);
+  const pods = base.pods
+    .filter((p) => index === 0 || hashString(`${p.name}:${index}`) % 100 >= 3)
+    // A node that hasn't joined yet runs no DaemonSet pod
+    .filter((p) => !(p.node_name === newestNode && appOf(spec, p)?.kind === 'DaemonSet'))
+    .map((p) => history(spec, p, index, current, newestNode))
+    .map((p) => {
+      const wobble = 0.85 + rand() * 0.3;
+      return {
+        ...p,
+        restart_count: Math.max(0, p.restart_count - index),
+        status: p.status === 'CrashLoopBackOff' && p.restart_count - index <= 0 ? 'Running' : p.status,
+        cpu_usage_millis: Math.round(p.cpu_usage_millis * wobble),
+        mem_usage_bytes: Math.round(p.mem_usage_bytes * (0.95 + rand() * 0.1)),
+      };
+    });
+  const nodes = current.map((n) => ({ ...n, pod_count: pods.filter((p) => p.node_name === n.name).length }));
+
+  const snapshot: Snapshot = {
+    id,
+    cluster_id: spec.cluster.id,
+    nodes,
+    pods,
+    summary: summarize(nodes, pods),
+    created_at: iso(now - (spec.silentFor ?? 60_000) - index * SNAPSHOT_INTERVAL),
+  };
+  snapshotCache.set(id, snapshot);
+  return snapshot;
+}
+
+export function appOf(spec: ClusterSpec, pod: PodInfo) {
+  const ns = spec.namespaces.find((n) => n.name === pod.namespace);
+  return ns?.apps
+    .filter((a) => pod.name.startsWith(`${a.name}-`))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+}
@@ -0,0 +1,127 @@
+import { MOCK_OIDC_CLIENT_ID, mockOidcIssuer, pkceChallenge } from '../lib/oidc';
+
+// A stand-in OIDC provider for the mock backend. Authorization codes and
+// refresh tokens are self-contained so nothing has to survive the redirects;
+// PKCE, redirect_uri and client_id are still checked like a real provider does.
+
+export interface MockIdentity {
+  sub: string;
+  email: string;
+  name: string;
+}
+
+export const identities: MockIdentity[] = [
+  { sub: 'sso|1001', email: 'demo@infradar.dev', name: 'Demo User' },
+  { sub: 'sso|1002', email: 'sso@infradar.dev', name: 'Sam Singh' },
+];
+
+const TOKEN_TTL = 15 * 60;
+const CODE_TTL = 60;
+const REFRESH_PREFIX = 'mock-oidc-refresh.';
+
+interface CodePayload {
+  sub: string;
+  challenge: string;
+  redirect_uri: string;
+  client_id: string;
+  exp: number;
+}
+
+const encode = (value: unknown) =>
+  btoa(JSON.stringify(value)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+function decode<T>(value: string): T | null {
+  try {
+    return JSON.parse(atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+  } catch {
+    return null;
+  }
+}
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const oauthError = (error: string, description: string) => json(400, { error, error_description: description });
+
+// Called by the mock consent page once the visitor picks an identity
+export function authorizationCode(identity: MockIdentity, params: URLSearchParams) {
+  const payload: CodePayload = {
+    sub: identity.sub,
+    challenge: params.get('code_challenge') ?? '',
+    redirect_uri: params.get('redirect_uri') ?? '',
+    client_id: params.get('client_id') ?? '',
+    exp: now() + CODE_TTL,
+  };
+  return encode(payload);
+}
+
+function tokensFor(identity: MockIdentity, clientId: string) {
+  const header = encode({ alg: 'none', typ: 'JWT' });
+  const claims = { iss: mockOidcIssuer(), aud: clientId, sub: identity.sub, email: identity.email, name: identity.name };
+  const exp = now() + TOKEN_TTL;
+  return {
+    access_token: `${header}.${encode({ ...claims, exp })}.mock`,
+    id_token: `${header}.${encode({ ...claims, exp })}.mock`,
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL,
+    refresh_token: `${REFRESH_PREFIX}${encode({ sub: identity.sub, client_id: clientId })}`,
+  };
+}
+
+async function token(form: URLSearchParams) {
+  const clientId = form.get('client_id') ?? '';
+  if (clientId !== MOCK_OIDC_CLIENT_ID) return oauthError('invalid_client', 'unknown client_id');
+
+  if (form.get('grant_type') === 'authorization_code') {
+    const code = decode<CodePayload>(form.get('code') ?? '');
+    if (!code || code.exp < now()) return oauthError('invalid_grant', 'authorization code is invalid or expired');
+    if (code.client_id !== clientId || code.redirect_uri !== form.get('redirect_uri')) {
+      return oauthError('invalid_grant', 'client_id or redirect_uri does not match the authorization request');
+    }
+    if (await pkceChallenge(form.get('code_verifier') ?? '') !== code.challenge) {
+      return oauthError('invalid_grant', 'PKCE verification failed');
+    }
+    const identity = identities.find((i) => i.sub === code.sub);
+    return identity ? json(200, tokensFor(identity, clientId)) : oauthError('invalid_grant', 'unknown subject');
+  }
+
+  if (form.get('grant_type') === 'refresh_token') {
+    const refreshToken = form.get('refresh_token') ?? '';
+    const payload = refreshToken.startsWith(REFRESH_PREFIX)
+      ? decode<{ sub: string; client_id: string }>(refreshToken.slice(REFRESH_PREFIX.length))
+      : null;
+    const identity = identities.find((i) => i.sub === payload?.sub);
+    if (!identity || payload?.client_id !== clientId) return oauthError('invalid_grant', 'refresh token is invalid');
+    return json(200, tokensFor(identity, clientId));
+  }
+
+  return oauthError('unsupported_grant_type', 'only authorization_code and refresh_token are supported');
+}
+
+export async function mockOidcFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const issuer = mockOidcIssuer();
+  const path = url.slice(issuer.length);
+  const method = init.method || 'GET';
+
+  if (method === 'GET' && path === '/.well-known/openid-configuration') {
+    return json(200, {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+    });
+  }
+  if (method === 'POST' && path === '/token') {
+    return token(new URLSearchParams(typeof init.body === 'string' ? init.body : ''));
+  }
+  return json(404, { error: 'not_found' });
+}
+
+// The mock API accepts access tokens from this provider, like a real backend
+// configured to trust the company's identity provider
+export function identityFromToken(claims: { iss?: unknown; sub?: unknown }) {
+  if (!claims.iss || claims.iss !== mockOidcIssuer()) return null;
+  return identities.find((i) => i.sub === claims.sub) ?? null;
+}
@@ -0,0 +1,659 @@
+import type { ApiKeyStatus, Cluster, Heartbeat, Role } from '../lib/api';
+import { environments, isValidLabelKey } from '../lib/clusters';
+import { DEMO_CREDENTIALS } from '../lib/demo';
+import {
+  alerts, attackPaths, blastRadius, costReport, events, goldenSignals, heatmap, namespaceProfile,
+  securityReport, securityRules, serviceMesh, simulate, timeline, topology,
+} from './analysis';
+import { auditLog, recordAudit } from './audit';
+import { SNAPSHOT_HISTORY, SNAPSHOT_INTERVAL, clusterSpecs, findSpec, random, snapshotAt, snapshotId } from './fixtures';
+import type { ClusterSpec } from './fixtures';
+import { identityFromToken } from './oidc';
+
+// In-browser implementation of every route api.ts calls. It answers with real
+// Response objects so request() handles status codes exactly as in production.
+
+// SSO users are created on their first request and have no password
+interface MockUser {
+  id: string;
+  email: string;
+  password: string | null;
+  orgs: Membership[];
+}
+
+interface Membership {
+  id: string;
+  role: Role;
+  joined_at: string;
+}
+
+interface MockInvite {
+  id: string;
+  org_id: string;
+  email: string;
+  role: Role;
+  token: string;
+  invited_by: string;
+  created_at: string;
+  expires_at: string;
+}
+
+interface MockApiKey {
+  id: string;
+  cluster_id: string;
+  secret: string;
+  created_at: string;
+  created_by: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_used_at: string | null;
+}
+
+interface Ctx {
+  params: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  user: MockUser | null;
+}
+
+type Handler = (ctx: Ctx) => Response;
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY).toISOString();
+
+const users: MockUser[] = [
+  {
+    id: 'user-demo', ...DEMO_CREDENTIALS,
+    orgs: [{ id: 'org-acme', role: 'admin', joined_at: daysAgo(320) }, { id: 'org-labs', role: 'viewer', joined_at: daysAgo(90) }],
+  },
+  {
+    id: 'user-dev', email: 'dev@infradar.dev', password: 'password',
+    orgs: [{ id: 'org-acme', role: 'editor', joined_at: daysAgo(200) }, { id: 'org-labs', role: 'admin', joined_at: daysAgo(900) }],
+  },
+];
+
+const INVITE_TTL = 7 * DAY;
+
+const invites: MockInvite[] = [
+  {
+    id: 'invite-1', org_id: 'org-acme', email: 'new.hire@infradar.dev', role: 'editor', token: 'welcome-to-acme',
+    invited_by: DEMO_CREDENTIALS.email, created_at: daysAgo(2), expires_at: new Date(Date.now() + 5 * DAY).toISOString(),
+  },
+];
+
+// Created clusters live for the page session; fixtures are always present
+const clusters: Cluster[] = clusterSpecs.map((s) => s.cluster);
+
+// Fixture agents have used their install key ever since the cluster was added
+const apiKeys: MockApiKey[] = clusterSpecs.map(({ cluster, apiKey }) => ({
+  id: `key-${cluster.id}`,
+  cluster_id: cluster.id,
+  secret: apiKey,
+  created_at: cluster.created_at,
+  created_by: null,
+  expires_at: null,
+  revoked_at: null,
+  last_used_at: cluster.last_seen_at,
+}));
+
+const MAX_GRACE_PERIOD = 30 * DAY;
+
+// There is no real agent, so a pending cluster pretends one connects this long
+// after its newest key was issued. That lets the onboarding wizard finish.
+const AGENT_CONNECT_DELAY = 20_000;
+
+const orgs = [
+  { id: 'org-acme', name: 'Acme Platform' },
+  { id: 'org-labs', name: 'Acme Labs' },
+];
+
+const ROLE_RANK: Record<Role, number> = { viewer: 0, editor: 1, admin: 2 };
+
+function roleIn(user: MockUser, orgId: string | null | undefined) {
+  return user.orgs.find((o) => o.id === orgId)?.role ?? null;
+}
+
+function hasRole(user: MockUser, orgId: string | null | undefined, role: Role) {
+  const actual = roleIn(user, orgId);
+  return actual !== null && ROLE_RANK[actual] >= ROLE_RANK[role];
+}
+
+const actorOf = (user: MockUser) => ({ id: user.id, email: user.email });
+
+function join(user: MockUser, orgId: string, role: Role) {
+  user.orgs = [...user.orgs.filter((o) => o.id !== orgId), { id: orgId, role, joined_at: new Date().toISOString() }];
+}
+
+// An org must never lose its last admin
+function isLastAdmin(user: MockUser, orgId: string) {
+  return roleIn(user, orgId) === 'admin' && users.filter((u) => roleIn(u, orgId) === 'admin').length === 1;
+}
+
+function pendingInvite(token: string) {
+  return invites.find((i) => i.token === token && Date.parse(i.expires_at) > Date.now()) ?? null;
+}
+
+const isRole = (value: unknown): value is Role => value === 'viewer' || value === 'editor' || value === 'admin';
+
+// Org-scoped routes check membership, and for changes the admin role, first
+function inOrg(role: Role, handler: (orgId: string, ctx: Ctx) => Response): Handler {
+  return authed((ctx) => {
+    const orgId = ctx.params[0];
+    if (!roleIn(ctx.user!, orgId)) return notFound('organization');
+    if (!hasRole(ctx.user!, orgId, role)) return fail(403, `this requires the ${role} role`);
+    return handler(orgId, ctx);
+  });
+}
+
+// Clusters in orgs the user doesn't belong to are reported as missing
+function visibleCluster(user: MockUser, id: string) {
+  return clusters.find((c) => c.id === id && roleIn(user, c.org_id) !== null) ?? null;
+}
+
+function issueKey(clusterId: string, createdBy: string) {
+  const key: MockApiKey = {
+    id: `key-${crypto.randomUUID().slice(0, 8)}`,
+    cluster_id: clusterId,
+    secret: `ird_${crypto.randomUUID().replace(/-/g, '')}`,
+    created_at: new Date().toISOString(),
+    created_by: createdBy,
+    expires_at: null,
+    revoked_at: null,
+    last_used_at: null,
+  };
+  apiKeys.push(key);
+  return key;
+}
+
+function keyStatus(key: MockApiKey): ApiKeyStatus {
+  if (key.revoked_at) return 'revoked';
+  if (key.expires_at) return Date.parse(key.expires_at) > Date.now() ? 'expiring' : 'expired';
+  return 'active';
+}
+
+const authenticates = (key: MockApiKey) => ['active', 'expiring'].includes(keyStatus(key));
+
+const mask = (secret: string) => `${secret.slice(0, 4)}${'•'.repeat(12)}${secret.slice(-4)}`;
+
+// Secrets never appear in a listing
+function publicKey(key: MockApiKey) {
+  return {
+    id: key.id,
+    masked: mask(key.secret),
+    status: keyStatus(key),
+    created_at: key.created_at,
+    created_by: key.created_by,
+    expires_at: key.expires_at,
+    revoked_at: key.revoked_at,
+    last_used_at: key.last_used_at,
+  };
+}
+
+// Connected agents keep reporting once per interval, except the ones the
+// fixtures say went silent
+function keepReporting(cluster: Cluster) {
+  if (!cluster.last_seen_at || findSpec(cluster.id)?.silentFor) return cluster;
+  const last = Date.parse(cluster.last_seen_at);
+  const missed = Math.floor((Date.now() - last) / SNAPSHOT_INTERVAL);
+  if (missed > 0) cluster.last_seen_at = new Date(last + missed * SNAPSHOT_INTERVAL).toISOString();
+  return cluster;
+}
+
+function simulateAgent(cluster: Cluster) {
+  if (cluster.status === 'connected') return keepReporting(cluster);
+  if (cluster.status !== 'pending') return cluster;
+  const key = apiKeys.filter((k) => k.cluster_id === cluster.id && authenticates(k)).at(-1);
+  if (!key || Date.now() - Date.parse(key.created_at) < AGENT_CONNECT_DELAY) return cluster;
+  const now = new Date().toISOString();
+  cluster.status = 'connected';
+  cluster.last_seen_at = now;
+  key.last_used_at = now;
+  return cluster;
+}
+
+// A day of reports, newest first: one per interval with some jitter and the
+// odd missed one. Clusters created at runtime only have their latest report.
+function heartbeats(cluster: Cluster): Heartbeat[] {
+  if (!cluster.last_seen_at) return [];
+  const spec = findSpec(cluster.id);
+  if (!spec) return [{ at: cluster.last_seen_at }];
+  const rand = random(spec.seed);
+  const last = Date.parse(cluster.last_seen_at);
+  const beats = [{ at: cluster.last_seen_at }];
+  for (let i = 1; i < SNAPSHOT_HISTORY; i++) {
+    const jitter = (rand() - 0.5) * 0.2 * SNAPSHOT_INTERVAL;
+    if (rand() < 0.08) continue;
+    beats.push({ at: new Date(last - i * SNAPSHOT_INTERVAL + jitter).toISOString() });
+  }
+  return beats;
+}
+
+// Key routes resolve the cluster, check the role and, below /keys/:keyId, the key
+function withClusterKeys(role: Role, handler: (cluster: Cluster, ctx: Ctx, key: MockApiKey | null) => Response): Handler {
+  return authed((ctx) => {
+    const cluster = visibleCluster(ctx.user!, ctx.params[0]);
+    if (!cluster) return notFound('cluster');
+    if (!hasRole(ctx.user!, cluster.org_id, role)) return fail(403, `this requires the ${role} role`);
+    const keyId = ctx.params[1];
+    const key = keyId ? apiKeys.find((k) => k.id === keyId && k.cluster_id === cluster.id) ?? null : null;
+    if (keyId && !key) return notFound('API key');
+    return handler(cluster, ctx, key);
+  });
+}
+
+const MAX_LABELS = 20;
+
+// Validates a PATCH /clusters/:id body; a string is the error message
+function clusterUpdate(body: Record<string, unknown>): Partial<Cluster> | string {
+  const update: Partial<Cluster> = {};
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : null);
+  if ('name' in body) {
+    const name = text(body.name);
+    if (!name || name.length > 63) return 'name must be 1 to 63 characters';
+    update.name = name;
+  }
+  if ('provider' in body) {
+    const provider = text(body.provider);
+    if (!provider) return 'provider is required';
+    update.provider = provider;
+  }
+  if ('environment' in body) {
+    const environment = environments.find((e) => e.value === body.environment)?.value;
+    if (body.environment !== null && !environment) return 'environment must be prod, staging or dev';
+    update.environment = environment ?? null;
+  }
+  if ('labels' in body) {
+    const labels = body.labels;
+    if (typeof labels !== 'object' || labels === null || Array.isArray(labels)) return 'labels must be an object';
+    const entries = Object.entries(labels);
+    if (entries.length > MAX_LABELS) return `at most ${MAX_LABELS} labels are allowed`;
+    for (const [key, value] of entries) {
+      if (!isValidLabelKey(key)) return `invalid label key "${key}"`;
+      if (typeof value !== 'string' || value.length > 63) return `label "${key}" needs a value of at most 63 characters`;
+    }
+    update.labels = labels as Record<string, string>;
+  }
+  if ('owner_team' in body) update.owner_team = text(body.owner_team) || null;
+  if ('description' in body) {
+    const description = text(body.description) || null;
+    if (description && description.length > 280) return 'description must be at most 280 characters';
+    update.description = description;
+  }
+  return update;
+}
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+const fail = (status: number, error: string) => json(status, { error });
+const notFound = (what: string) => fail(404, `${what} not found`);
+
+// Access tokens are unsigned JWTs with a short expiry so the refresh flow
+// actually runs in demo mode; refresh tokens never expire
+const TOKEN_TTL = 15 * 60;
+const REFRESH_PREFIX = 'mock-refresh.';
+
+const base64url = (value: string) => btoa(value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+function tokensFor(user: MockUser) {
+  const header = base64url(JSON.stringify({ alg: 'none', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ sub: user.id, exp: Math.floor(Date.now() / 1000) + TOKEN_TTL }));
+  return { token: `${header}.${payload}.mock`, refresh_token: `${REFRESH_PREFIX}${btoa(user.id)}` };
+}
+
+function userFromHeaders(headers: Headers) {
+  const token = headers.get('Authorization')?.replace(/^Bearer /, '') ?? '';
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+  try {
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) return null;
+    const identity = identityFromToken(claims);
+    return identity ? ssoUser(identity.email) : users.find((u) => u.id === claims.sub) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function ssoUser(email: string) {
+  let user = users.find((u) => u.email === email);
+  if (!user) {
+    // Provisioned on first sign-in with read-only access, as an IdP group mapping might
+    user = { id: `user-${users.length + 1}`, email, password: null, orgs: [] };
+    join(user, 'org-acme', 'viewer');
+    recordAudit('org-acme', actorOf(user), 'member.joined', { metadata: { via: 'sso', role: 'viewer' } });
+    users.push(user);
+  }
+  return user;
+}
+
+function userFromRefreshToken(refreshToken: unknown) {
+  if (typeof refreshToken !== 'string' || !refreshToken.startsWith(REFRESH_PREFIX)) return null;
+  try {
+    const id = atob(refreshToken.slice(REFRESH_PREFIX.length));
+    return users.find((u) => u.id === id) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function authed(handler: Handler): Handler {
+  return (ctx) => (ctx.user ? handler(ctx) : fail(401, 'missing or invalid token'));
+}
+
+function snapshotIndex(spec: ClusterSpec, id: string) {
+  return Array.from({ length: SNAPSHOT_HISTORY }, (_, i) => i).find((i) => snapshotId(spec.cluster.id, i) === id);
+}
+
+// Cluster-scoped routes resolve the fixture and the snapshot to analyse first:
+// the latest, or the one ?snapshot_id asks for. Clusters created at runtime
+// have no agent yet, so they have no data.
+function withSnapshot(handler: (spec: ClusterSpec, ctx: Ctx, at: number) => Response): Handler {
+  return authed((ctx) => {
+    const id = ctx.params[0];
+    if (!visibleCluster(ctx.user!, id)) return notFound('cluster');
+    const spec = findSpec(id);
+    if (!spec) return notFound('snapshot');
+    const asOf = ctx.query.get('snapshot_id');
+    const at = asOf ? snapshotIndex(spec, asOf) : 0;
+    if (at === undefined) return notFound('snapshot');
+    return handler(spec, ctx, at);
+  });
+}
+
+const routes: [string, RegExp, Handler][] = [
+  ['POST', /^\/auth\/login$/, ({ body }) => {
+    const user = users.find((u) => u.email === body.email && u.password !== null && u.password === body.password);
+    if (!user) {
+      // Failed attempts against a known account are worth an admin's attention
+      const target = users.find((u) => u.email === body.email);
+      target?.orgs.forEach((o) => recordAudit(o.id, { id: null, email: target.email }, 'auth.login_failed', { metadata: { reason: 'invalid_password' } }));
+      return fail(401, 'invalid email or password');
+    }
+    user.orgs.forEach((o) => recordAudit(o.id, actorOf(user), 'auth.login', { metadata: { method: 'password' } }));
+    return json(200, tokensFor(user));
+  }],
+  ['POST', /^\/auth\/register$/, ({ body }) => {
+    const email = String(body.email ?? '');
+    const password = String(body.password ?? '');
+    if (!email || password.length < 6) return fail(400, 'email and a password of at least 6 characters are required');
+    if (users.some((u) => u.email === email)) return fail(409, 'email already registered');
+    const invite = typeof body.invite_token === 'string' ? pendingInvite(body.invite_token) : null;
+    if (body.invite_token && !invite) return fail(400, 'invite not found or expired');
+    if (invite && invite.email !== email.toLowerCase()) return fail(400, 'this invite was sent to a different email address');
+    const user: MockUser = { id: `user-${users.length + 1}`, email, password, orgs: [] };
+    if (invite) {
+      join(user, invite.org_id, invite.role);
+      invites.splice(invites.indexOf(invite), 1);
+      recordAudit(invite.org_id, actorOf(user), 'member.joined', { metadata: { via: 'invite', role: invite.role, invited_by: invite.invited_by } });
+    } else {
+      // Without an invite a new account starts out as admin of its own org
+      const org = { id: `org-${orgs.length + 1}`, name: `${email.split('@')[0]}'s org` };
+      orgs.push(org);
+      join(user, org.id, 'admin');
+    }
+    users.push(user);
+    return json(201, tokensFor(user));
+  }],
+  ['POST', /^\/auth\/refresh$/, ({ body }) => {
+    const user = userFromRefreshToken(body.refresh_token);
+    return user ? json(200, tokensFor(user)) : fail(401, 'invalid refresh token');
+  }],
+  ['GET', /^\/me$/, authed(({ user }) => json(200, {
+    id: user!.id,
+    email: user!.email,
+    orgs: user!.orgs.map(({ id, role }) => ({ id, name: orgs.find((o) => o.id === id)?.name ?? id, role })),
+  }))],
+
+  ['GET', /^\/orgs\/([^/]+)\/members$/, inOrg('viewer', (orgId) => json(200, users.flatMap((u) => {
+    const membership = u.orgs.find((o) => o.id === orgId);
+    return membership ? [{ user_id: u.id, email: u.email, role: membership.role, joined_at: membership.joined_at }] : [];
+  })))],
+  ['PATCH', /^\/orgs\/([^/]+)\/members\/([^/]+)$/, inOrg('admin', (orgId, { user, params, body }) => {
+    const member = users.find((u) => u.id === params[1] && roleIn(u, orgId));
+    if (!member) return notFound('member');
+    if (!isRole(body.role)) return fail(400, 'role must be viewer, editor or admin');
+    if (body.role !== 'admin' && isLastAdmin(member, orgId)) return fail(400, 'an organization needs at least one admin');
+    const membership = member.orgs.find((o) => o.id === orgId)!;
+    if (membership.role !== body.role) {
+      recordAudit(orgId, actorOf(user!), 'member.role_changed', { metadata: { member: member.email, from: membership.role, to: body.role } });
+    }
+    membership.role = body.role;
+    return json(200, { user_id: member.id, email: member.email, role: membership.role, joined_at: membership.joined_at });
+  })],
+  ['DELETE', /^\/orgs\/([^/]+)\/members\/([^/]+)$/, inOrg('admin', (orgId, { user, params }) => {
+    const member = users.find((u) => u.id === params[1] && roleIn(u, orgId));
+    if (!member) return notFound('member');
+    if (isLastAdmin(member, orgId)) return fail(400, 'an organization needs at least one admin');
+    member.orgs = member.orgs.filter((o) => o.id !== orgId);
+    recordAudit(orgId, actorOf(user!), 'member.removed', { metadata: { member: member.email } });
+    return new Response(null, { status: 204 });
+  })],
+  ['GET', /^\/orgs\/([^/]+)\/invites$/, inOrg('admin', (orgId) => (
+    json(200, invites.filter((i) => i.org_id === orgId && Date.parse(i.expires_at) > Date.now()))
+  ))],
+  ['POST', /^\/orgs\/([^/]+)\/invites$/, inOrg('admin', (orgId, { user, body }) => {
+    const email = String(body.email ?? '').trim().toLowerCase();
+    if (!/^[^@\s]+@[^@\s]+$/.test(email)) return fail(400, 'a valid email is required');
+    if (!isRole(body.role)) return fail(400, 'role must be viewer, editor or admin');
+    if (users.some((u) => u.email === email && roleIn(u, orgId))) return fail(409, `${email} is already a member`);
+    // Inviting the same address again replaces the earlier invite
+    const previous = invites.findIndex((i) => i.org_id === orgId && i.email === email);
+    if (previous !== -1) invites.splice(previous, 1);
+    const invite: MockInvite = {
+      id: `invite-${Date.now().toString(36)}`,
+      org_id: orgId,
+      email,
+      role: body.role,
+      token: crypto.randomUUID().replace(/-/g, ''),
+      invited_by: user!.email,
+      created_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + INVITE_TTL).toISOString(),
+    };
+    invites.push(invite);
+    recordAudit(orgId, actorOf(user!), 'member.invited', { metadata: { email, role: invite.role } });
+    return json(201, invite);
+  })],
+  ['DELETE', /^\/orgs\/([^/]+)\/invites\/([^/]+)$/, inOrg('admin', (orgId, { user, params }) => {
+    const index = invites.findIndex((i) => i.id === params[1] && i.org_id === orgId);
+    if (index === -1) return notFound('invite');
+    const [invite] = invites.splice(index, 1);
+    recordAudit(orgId, actorOf(user!), 'invite.revoked', { metadata: { email: invite.email } });
+    return new Response(null, { status: 204 });
+  })],
+  // Public so the accept page works before the invitee has an account
+  ['GET', /^\/invites\/([^/]+)$/, ({ params }) => {
+    const invite = pendingInvite(params[0]);
+    if (!invite) return fail(404, 'invite not found or expired');
+    const org = orgs.find((o) => o.id === invite.org_id);
+    return json(200, {
+      org_id: invite.org_id,
+      org_name: org?.name ?? invite.org_id,
+      email: invite.email,
+      role: invite.role,
+      invited_by: invite.invited_by,
+      expires_at: invite.expires_at,
+    });
+  }],
+  ['POST', /^\/invites\/([^/]+)\/accept$/, authed(({ user, params }) => {
+    const invite = pendingInvite(params[0]);
+    if (!invite) return fail(404, 'invite not found or expired');
+    if (invite.email !== user!.email.toLowerCase()) return fail(403, 'this invite was sent to a different email address');
+    join(user!, invite.org_id, invite.role);
+    invites.splice(invites.indexOf(invite), 1);
+    recordAudit(invite.org_id, actorOf(user!), 'member.joined', { metadata: { via: 'invite', role: invite.role, invited_by: invite.invited_by } });
+    return new Response(null, { status: 204 });
+  })],
+
+  ['GET', /^\/orgs\/([^/]+)\/audit$/, inOrg('admin', (orgId, { query }) => json(200, auditLog(orgId, query)))],
+
+  ['GET', /^\/clusters$/, authed(({ user, query }) => {
+    const orgId = query.get('org_id');
+    if (orgId && !roleIn(user!, orgId)) return fail(403, 'not a member of this organization');
+    return json(200, clusters.filter((c) => (orgId ? c.org_id === orgId : roleIn(user!, c.org_id) !== null)).map(simulateAgent));
+  })],
+  ['POST', /^\/clusters$/, authed(({ user, body }) => {
+    const name = String(body.name ?? '').trim();
+    if (!name) return fail(400, 'name is required');
+    const orgId = typeof body.org_id === 'string' ? body.org_id : user!.orgs[0]?.id;
+    if (!hasRole(user!, orgId, 'editor')) return fail(403, 'adding clusters requires the editor role');
+    const cluster: Cluster = {
+      id: `cluster-${Date.now().toString(36)}`,
+      name,
+      provider: String(body.provider || 'other'),
+      status: 'pending',
+      last_seen_at: null,
+      created_at: new Date().toISOString(),
+      org_id: orgId,
+      labels: {},
+      snapshot_interval_seconds: SNAPSHOT_INTERVAL / 1000,
+    };
+    clusters.push(cluster);
+    const key = issueKey(cluster.id, user!.email);
+    recordAudit(orgId, actorOf(user!), 'cluster.created', { cluster, metadata: { provider: cluster.provider } });
+    return json(201, { ...cluster, api_key: key.secret });
+  })],
+  ['GET', /^\/clusters\/([^/]+)$/, authed(({ user, params }) => {
+    const cluster = visibleCluster(user!, params[0]);
+    return cluster ? json(200, simulateAgent(cluster)) : notFound('cluster');
+  })],
+  ['PATCH', /^\/clusters\/([^/]+)$/, authed(({ user, params, body }) => {
+    const cluster = visibleCluster(user!, params[0]);
+    if (!cluster) return notFound('cluster');
+    if (!hasRole(user!, cluster.org_id, 'editor')) return fail(403, 'editing clusters requires the editor role');
+    const update = clusterUpdate(body);
+    if (typeof update === 'string') return fail(400, update);
+    const fields = Object.keys(update).filter((k) => JSON.stringify(update[k as keyof Cluster]) !== JSON.stringify(cluster[k as keyof Cluster]));
+    const previousName = cluster.name;
+    Object.assign(cluster, update);
+    if (fields.length > 0) {
+      const metadata: Record<string, string> = { fields: fields.join(',') };
+      if (fields.includes('name')) metadata.renamed_from = previousName;
+      recordAudit(cluster.org_id!, actorOf(user!), 'cluster.updated', { cluster, metadata });
+    }
+    return json(200, cluster);
+  })],
+  ['DELETE', /^\/clusters\/([^/]+)$/, authed(({ user, params }) => {
+    const cluster = visibleCluster(user!, params[0]);
+    if (!cluster) return notFound('cluster');
+    if (!hasRole(user!, cluster.org_id, 'editor')) return fail(403, 'deleting clusters requires the editor role');
+    clusters.splice(clusters.indexOf(cluster), 1);
+    apiKeys.filter((k) => k.cluster_id === cluster.id && !k.revoked_at).forEach((k) => { k.revoked_at = new Date().toISOString(); });
+    if (cluster.org_id) recordAudit(cluster.org_id, actorOf(user!), 'cluster.deleted', { cluster });
+    return new Response(null, { status: 204 });
+  })],
+
+  ['GET', /^\/clusters\/([^/]+)\/heartbeats$/, authed(({ user, params }) => {
+    const cluster = visibleCluster(user!, params[0]);
+    return cluster ? json(200, heartbeats(simulateAgent(cluster))) : notFound('cluster');
+  })],
+  ['GET', /^\/clusters\/([^/]+)\/keys$/, withClusterKeys('viewer', (cluster) => json(200, apiKeys
+    .filter((k) => k.cluster_id === cluster.id)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at))
+    .map(publicKey)))],
+  ['POST', /^\/clusters\/([^/]+)\/keys\/rotate$/, withClusterKeys('admin', (cluster, { user, body }) => {
+    const grace = Number(body.grace_period_seconds ?? 0) * 1000;
+    if (!Number.isFinite(grace) || grace < 0 || grace > MAX_GRACE_PERIOD) return fail(400, 'grace period must be between 0 and 30 days');
+    const now = new Date();
+    // Keys already in a grace period keep their own deadline
+    apiKeys.filter((k) => k.cluster_id === cluster.id && keyStatus(k) === 'active').forEach((k) => {
+      if (grace > 0) k.expires_at = new Date(now.getTime() + grace).toISOString();
+      else k.revoked_at = now.toISOString();
+    });
+    const key = issueKey(cluster.id, user!.email);
+    if (cluster.status === 'disconnected') cluster.status = 'pending';
+    recordAudit(cluster.org_id!, actorOf(user!), 'cluster.api_key_rotated', {
+      cluster, metadata: { key: mask(key.secret), grace_period_seconds: String(grace / 1000) },
+    });
+    return json(201, { ...publicKey(key), api_key: key.secret });
+  })],
+  ['POST', /^\/clusters\/([^/]+)\/keys\/([^/]+)\/reveal$/, withClusterKeys('editor', (cluster, { user }, key) => {
+    if (!authenticates(key!)) return fail(409, `this key is ${keyStatus(key!)}`);
+    recordAudit(cluster.org_id!, actorOf(user!), 'cluster.api_key_revealed', { cluster, metadata: { key: mask(key!.secret) } });
+    return json(200, { api_key: key!.secret });
+  })],
+  ['POST', /^\/clusters\/([^/]+)\/keys\/([^/]+)\/revoke$/, withClusterKeys('admin', (cluster, { user }, key) => {
+    if (!authenticates(key!)) return fail(409, `this key is already ${keyStatus(key!)}`);
+    key!.revoked_at = new Date().toISOString();
+    // Without a working key the agent is locked out straight away
+    if (!apiKeys.some((k) => k.cluster_id === cluster.id && authenticates(k))) cluster.status = 'disconnected';
+    recordAudit(cluster.org_id!, actorOf(user!), 'cluster.api_key_revoked', { cluster, metadata: { key: mask(key!.secret) } });
+    return new Response(null, { status: 204 });
+  })],
+
+  ['GET', /^\/clusters\/([^/]+)\/snapshots\/latest$/, withSnapshot((spec) => json(200, snapshotAt(spec, 0)))],
+  ['GET', /^\/clusters\/([^/]+)\/snapshots$/, withSnapshot((spec) => (
+    json(200, Array.from({ length: SNAPSHOT_HISTORY }, (_, i) => snapshotAt(spec, i)))
+  ))],
+  ['GET', /^\/clusters\/([^/]+)\/snapshots\/([^/]+)$/, withSnapshot((spec, { params }) => {
+    const index = snapshotIndex(spec, params[1]);
+    return index === undefined ? notFound('snapshot') : json(200, snapshotAt(spec, index));
+  })],
+
+  ['GET', /^\/clusters\/([^/]+)\/security$/, withSnapshot((spec, _, at) => json(200, securityReport(snapshotAt(spec, at))))],
+  ['GET', /^\/security\/rules$/, authed(() => json(200, securityRules))],
+  ['GET', /^\/clusters\/([^/]+)\/attack-paths$/, withSnapshot((spec, _, at) => json(200, attackPaths(spec, snapshotAt(spec, at))))],
+  ['POST', /^\/clusters\/([^/]+)\/simulate$/, withSnapshot((spec, { user, body }, at) => {
+    if (!hasRole(user!, spec.cluster.org_id, 'editor')) return fail(403, 'running simulations requires the editor role');
+    const result = simulate(spec, snapshotAt(spec, at), String(body.type ?? ''), (body.params ?? {}) as Record<string, unknown>);
+    if (result) recordAudit(spec.cluster.org_id!, actorOf(user!), 'simulation.run', { cluster: spec.cluster, metadata: { type: String(body.type) } });
+    return result ? json(200, result) : fail(400, 'unknown simulation type or target');
+  })],
+  ['GET', /^\/clusters\/([^/]+)\/costs$/, withSnapshot((spec, _, at) => json(200, costReport(spec, snapshotAt(spec, at))))],
+  ['GET', /^\/clusters\/([^/]+)\/blast-radius$/, withSnapshot((spec, { query }, at) => {
+    const result = blastRadius(spec, snapshotAt(spec, at), query.get('type') ?? '', query.get('target') ?? '', query.get('namespace') ?? undefined);
+    return result ? json(200, result) : notFound('target');
+  })],
+  ['GET', /^\/clusters\/([^/]+)\/timeline$/, withSnapshot((spec, _, at) => json(200, timeline(spec, at)))],
+
+  ['GET', /^\/clusters\/([^/]+)\/topology$/, withSnapshot((spec, _, at) => json(200, topology(snapshotAt(spec, at))))],
+  ['GET', /^\/clusters\/([^/]+)\/heatmap$/, withSnapshot((spec, _, at) => json(200, heatmap(snapshotAt(spec, at))))],
+  ['GET', /^\/clusters\/([^/]+)\/events$/, withSnapshot((spec, _, at) => json(200, events(spec, at)))],
+  ['GET', /^\/clusters\/([^/]+)\/alerts$/, withSnapshot((spec, _, at) => json(200, alerts(snapshotAt(spec, at))))],
+  ['GET', /^\/clusters\/([^/]+)\/ns-compare$/, withSnapshot((spec, { query }, at) => {
+    const snapshot = snapshotAt(spec, at);
+    const ns1 = query.get('ns1');
+    const ns2 = query.get('ns2');
+    if (!ns1 || !ns2) return json(200, { namespaces: [...new Set(snapshot.pods.map((p) => p.namespace))].sort() });
+    return json(200, { ns1: namespaceProfile(snapshot, ns1), ns2: namespaceProfile(snapshot, ns2) });
+  })],
+  ['GET', /^\/clusters\/([^/]+)\/golden-signals$/, withSnapshot((spec, _, at) => json(200, goldenSignals(snapshotAt(spec, at))))],
+  ['GET', /^\/clusters\/([^/]+)\/service-mesh$/, withSnapshot((spec, _, at) => json(200, serviceMesh(spec, snapshotAt(spec, at))))],
+];
+
+// A little latency keeps loading states and cancellation visible
+function delay(signal: AbortSignal | null | undefined) {
+  const ms = 150 + Math.random() * 250;
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+export async function mockFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  await delay(init.signal);
+
+  const url = new URL(path, 'http://mock');
+  const route = url.pathname.replace(/^\/api\/v1/, '');
+  const method = init.method || 'GET';
+  let body: Record<string, unknown> = {};
+  if (typeof init.body === 'string') {
+    try {
+      body = JSON.parse(init.body);
+    } catch {
+      return fail(400, 'invalid JSON body');
+    }
+  }
+  const ctx = { query: url.searchParams, body, user: userFromHeaders(new Headers(init.headers)) };
+
+  for (const [m, pattern, handler] of routes) {
+    const match = route.match(pattern);
+    if (match && m === method) return handler({ ...ctx, params: match.slice(1).map(decodeURIComponent) });
+  }
+  return fail(404, `no mock route for ${method} ${route}`);
+}
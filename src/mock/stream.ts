@@ -0,0 +1,57 @@
+import type { PodEvent } from '../lib/api';
+import type { LiveHandlers } from '../lib/live';
+import { alerts } from './analysis';
+import { findSpec, snapshotAt } from './fixtures';
+
+// Fake live stream for the mock backend: a steady trickle of pod events plus
+// the occasional new snapshot and alert change.
+
+const EVENT_INTERVAL = 12_000;
+const ALERTS_INTERVAL = 45_000;
+const SNAPSHOT_INTERVAL = 90_000;
+
+function randomEvent(clusterId: string): PodEvent | null {
+  const spec = findSpec(clusterId);
+  if (!spec) return null;
+  const pods = snapshotAt(spec, 0).pods;
+  const pod = pods[Math.floor(Math.random() * pods.length)];
+  const time = new Date().toISOString();
+  if (Math.random() < 0.6) {
+    return {
+      type: 'pod_restarted', pod: pod.name, namespace: pod.namespace,
+      message: `Container restarted (exit code ${Math.random() < 0.5 ? 137 : 1})`, severity: 'warning', time,
+    };
+  }
+  return {
+    type: 'status_changed', pod: pod.name, namespace: pod.namespace,
+    message: 'Running → NotReady → Running', severity: 'info', time,
+  };
+}
+
+export function openMockStream(clusterId: string, { onOpen, onMessage, onError }: LiveHandlers) {
+  // Clusters created at runtime have no agent, so the stream never opens
+  const spec = findSpec(clusterId);
+  if (!spec) {
+    const timer = setTimeout(onError, 500);
+    return () => clearTimeout(timer);
+  }
+
+  const opened = setTimeout(onOpen, 300);
+  const intervals = [
+    setInterval(() => {
+      const event = randomEvent(clusterId);
+      if (event) onMessage('pod_event', event);
+    }, EVENT_INTERVAL),
+    setInterval(() => {
+      const { critical, warning, info } = alerts(snapshotAt(spec, 0));
+      onMessage('alerts', { critical, warning, info });
+    }, ALERTS_INTERVAL),
+    setInterval(() => {
+      onMessage('snapshot', { snapshot_id: `${clusterId}-live-${Date.now()}`, created_at: new Date().toISOString() });
+    }, SNAPSHOT_INTERVAL),
+  ];
+  return () => {
+    clearTimeout(opened);
+    intervals.forEach(clearInterval);
+  };
+}
@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Link, useLocation, useNavigate, useParams } from 'react-router-dom';
+import { Radar } from 'lucide-react';
+import { api } from '../lib/api';
+import { errorMessage } from '../lib/errors';
+import { useInvitePreview } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+
+// Landing page of an invite link. Signed-in users join the org with one
+// click; everyone else creates an account that joins it straight away.
+export default function AcceptInvite() {
+  const { token } = useParams<{ token: string }>();
+  const { user, loading: authLoading, register, reloadUser, selectOrg, logout } = useAuth();
+  const { data: invite, loading, error } = useInvitePreview(token);
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [password, setPassword] = useState('');
+  const [submitError, setSubmitError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const finish = async (join: () => Promise<void>) => {
+    if (!invite) return;
+    setSubmitError('');
+    setSubmitting(true);
+    try {
+      await join();
+      selectOrg(invite.org_id);
+      navigate('/', { replace: true });
+    } catch (err) {
+      setSubmitError(errorMessage(err, 'Failed to accept the invite'));
+      setSubmitting(false);
+    }
+  };
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+    finish(() => register(invite!.email, password, token));
+  };
+
+  const handleJoin = () => finish(async () => {
+    await api.acceptInvite(token!);
+    await reloadUser();
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <Radar className="w-12 h-12 text-cyan-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold">{invite ? `Join ${invite.org_name}` : 'Accept invite'}</h1>
+          {invite && (
+            <p className="text-gray-400 mt-1">
+              {invite.invited_by} invited you as {invite.role === 'admin' ? 'an' : 'a'} {invite.role}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-8 space-y-5">
+          {loading || authLoading ? (
+            <div className="flex justify-center">
+              <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : !invite ? (
+            <>
+              <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3">
+                {errorMessage(error, 'This invite is invalid or has expired')}
+              </div>
+              <p className="text-center text-sm text-gray-400">
+                Ask the person who invited you for a new link, or{' '}
+                <Link to="/login" className="text-cyan-400 hover:text-cyan-300">sign in</Link>
+              </p>
+            </>
+          ) : (
+            <>
+              {submitError && (
+                <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3">
+                  {submitError}
+                </div>
+              )}
+
+              {user && user.email !== invite.email ? (
+                <>
+                  <p className="text-sm text-gray-400">
+                    This invite is for <span className="text-white">{invite.email}</span>, but you're signed in
+                    as <span className="text-white">{user.email}</span>.
+                  </p>
+                  <button
+                    onClick={logout}
+                    className="w-full bg-surface-700 text-gray-300 hover:text-white font-semibold py-3 rounded-lg transition-colors"
+                  >
+                    Sign out
+                  </button>
+                </>
+              ) : user ? (
+                <button
+                  onClick={handleJoin}
+                  disabled={submitting}
+                  className="w-full bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold py-3 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  {submitting ? 'Joining...' : `Join ${invite.org_name}`}
+                </button>
+              ) : (
+                <form onSubmit={handleRegister} className="space-y-5">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Email</label>
+                    <input
+                      type="email"
+                      value={invite.email}
+                      readOnly
+                      className="w-full bg-navy-900 border border-white/10 rounded-lg px-4 py-3 text-sm text-gray-400"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Password</label>
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                      minLength={6}
+                      className="w-full bg-navy-900 border border-white/10 rounded-lg px-4 py-3 text-sm focus:outline-none focus:border-cyan-500 transition-colors"
+                      placeholder="Min. 6 characters"
+                    />
+                  </div>
+
+                  <button
+                    type="submit"
+                    disabled={submitting}
+                    className="w-full bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold py-3 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {submitting ? 'Creating account...' : 'Create account and join'}
+                  </button>
+
+                  <p className="text-center text-sm text-gray-400">
+                    Already have an account?{' '}
+                    <Link to="/login" state={{ from: location }} className="text-cyan-400 hover:text-cyan-300">
+                      Sign in
+                    </Link>
+                  </p>
+                </form>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { Bell, AlertTriangle, AlertCircle, Info, Lightbulb } from 'lucide-react';
-import { api } from '../lib/api';
-import type { AlertsResponse } from '../lib/api';
+import { alertSearch, searchItems } from '../lib/search';
+import { useAlerts } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
+import SearchBar from '../components/SearchBar';
 
 export default function Alerts() {
   const { id } = useParams<{ id: string }>();
-  const [data, setData] = useState<AlertsResponse | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<string>('all');
-
-  useEffect(() => {
-    if (!id) return;
-    api.getAlerts(id).then(setData).catch(() => null).finally(() => setLoading(false));
-  }, [id]);
+  const { data, loading, error, refetch } = useAlerts(id);
+  const [query, setQuery] = useState('');
 
   if (loading) {
     return (
@@ -23,6 +19,10 @@ export default function Alerts() {
     );
   }
 
+  if (error && !data) {
+    return <ErrorPanel error={error} title="Couldn't load alerts" onRetry={refetch} />;
+  }
+
   if (!data || data.alerts.length === 0) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
@@ -33,7 +33,7 @@ export default function Alerts() {
     );
   }
 
-  const filtered = filter === 'all' ? data.alerts : data.alerts.filter(a => a.severity === filter);
+  const filtered = searchItems(data.alerts, query, alertSearch);
 
   const sevIcon = (sev: string) => {
     if (sev === 'critical') return <AlertCircle className="w-5 h-5 text-red-400" />;
@@ -66,19 +66,14 @@ export default function Alerts() {
       </div>
 
       {/* Filter */}
-      <div className="flex gap-2">
-        {['all', 'critical', 'warning', 'info'].map(f => (
-          <button
-            key={f}
-            onClick={() => setFilter(f)}
-            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-              filter === f ? 'bg-cyan-500/20 text-cyan-400' : 'bg-surface-800 text-gray-400 hover:text-white'
-            }`}
-          >
-            {f.charAt(0).toUpperCase() + f.slice(1)}
-          </button>
-        ))}
-      </div>
+      <SearchBar
+        value={query}
+        onChange={setQuery}
+        items={data.alerts}
+        schema={alertSearch}
+        placeholder="severity:critical type:node_*"
+        className="max-w-xl"
+      />
 
       {/* Alerts */}
       <div className="space-y-3">
@@ -1,8 +1,11 @@
 import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { ArrowLeft, Share2 } from 'lucide-react';
-import { api } from '../lib/api';
 import type { ServiceMeshResponse, ServiceMeshNode, ServiceMeshEdge } from '../lib/api';
+import { meshSearch, searchItems } from '../lib/search';
+import { useServiceMesh } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
+import SearchBar from '../components/SearchBar';
 
 /* ── ArgoCD-style colours ── */
 const KIND_COLORS: Record<string, string> = {
@@ -240,11 +243,12 @@ function renderYamlValue(lines: string[], key: string, value: unknown, indent: n
 /* ── Main component ── */
 export default function AppMesh() {
   const { id } = useParams<{ id: string }>();
-  const [data, setData] = useState<ServiceMeshResponse | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [selectedNamespace, setSelectedNamespace] = useState('');
-  const [selectedApp, setSelectedApp] = useState<ServiceMeshNode | null>(null);
+  const { data, loading, error, refetch } = useServiceMesh(id);
+  const [params] = useSearchParams();
+  const [pickedNamespace, setSelectedNamespace] = useState<string | null>(null);
+  const [pickedApp, setSelectedApp] = useState<ServiceMeshNode | null | undefined>(undefined);
   const [selectedNode, setSelectedNode] = useState<ServiceMeshNode | null>(null);
+  const [query, setQuery] = useState('');
 
   const containerRef = useRef<HTMLDivElement>(null);
   const [pan, setPan] = useState({ x: 40, y: 40 });
@@ -252,17 +256,6 @@ export default function AppMesh() {
   const isPanning = useRef(false);
   const lastMouse = useRef({ x: 0, y: 0 });
 
-  useEffect(() => {
-    if (!id) return;
-    api.getServiceMesh(id).then((d) => {
-      setData(d);
-      const allNs = new Set<string>();
-      for (const n of d.nodes) { if (n.namespace) allNs.add(n.namespace); }
-      const sorted = Array.from(allNs).sort();
-      if (sorted.length > 0) setSelectedNamespace(sorted[0]);
-    }).catch(() => null).finally(() => setLoading(false));
-  }, [id]);
-
   const namespaces = useMemo(() => {
     if (!data) return [];
     const ns = new Set<string>();
@@ -270,13 +263,22 @@ export default function AppMesh() {
     return Array.from(ns).sort();
   }, [data]);
 
-  const apps = useMemo(() => {
+  // ?app= opens an app's tree, e.g. from a pod's page
+  const linkedApp = data?.nodes.find(n => n.id === params.get('app')) ?? null;
+  const selectedApp = pickedApp === undefined ? linkedApp : pickedApp;
+
+  // Start on the linked app's namespace, or the first one, until the user picks one
+  const selectedNamespace = pickedNamespace ?? linkedApp?.namespace ?? namespaces[0] ?? '';
+
+  const nsApps = useMemo(() => {
     if (!data || !selectedNamespace) return [];
     return data.nodes
       .filter(n => APP_KINDS.has(n.kind) && n.namespace === selectedNamespace)
       .sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name));
   }, [data, selectedNamespace]);
 
+  const apps = searchItems(nsApps, query, meshSearch);
+
   const tree = useMemo(() => {
     if (!data || !selectedApp) return null;
     return buildTreeForApp(selectedApp, data.nodes, data.edges);
@@ -329,6 +331,10 @@ export default function AppMesh() {
     );
   }
 
+  if (error && !data) {
+    return <ErrorPanel error={error} title="Couldn't load app mesh" onRetry={refetch} />;
+  }
+
   if (!data || data.nodes.length === 0) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
@@ -382,9 +388,17 @@ export default function AppMesh() {
             </div>
           )}
 
+          {selectedNamespace && (
+            <div className="p-3 border-b border-white/5">
+              <SearchBar value={query} onChange={setQuery} items={nsApps} schema={meshSearch} placeholder="kind:Deployment status!=healthy" />
+            </div>
+          )}
+
           <div className="flex-1 overflow-y-auto">
             {selectedNamespace && apps.length === 0 && (
-              <div className="p-4 text-center text-gray-500 text-sm">No apps in this namespace</div>
+              <div className="p-4 text-center text-gray-500 text-sm">
+                {nsApps.length === 0 ? 'No apps in this namespace' : 'No apps match this search'}
+              </div>
             )}
             {apps.map(app => {
               const color = KIND_COLORS[app.kind] || '#6b7280';
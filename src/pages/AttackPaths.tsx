@@ -1,20 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { Shield, AlertTriangle, ChevronDown, ChevronUp, Target, Zap, Wrench } from 'lucide-react';
-import { api } from '../lib/api';
-import type { AttackPathAnalysis, AttackPath } from '../lib/api';
+import type { AttackPath } from '../lib/api';
+import { useAttackPaths } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
 
 export default function AttackPaths() {
   const { id } = useParams<{ id: string }>();
-  const [data, setData] = useState<AttackPathAnalysis | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { data, loading, error, refetch } = useAttackPaths(id);
   const [expandedPath, setExpandedPath] = useState<string | null>(null);
 
-  useEffect(() => {
-    if (!id) return;
-    api.getAttackPaths(id).then(setData).catch(() => null).finally(() => setLoading(false));
-  }, [id]);
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -23,6 +18,10 @@ export default function AttackPaths() {
     );
   }
 
+  if (error && !data) {
+    return <ErrorPanel error={error} title="Couldn't load attack paths" onRetry={refetch} />;
+  }
+
   if (!data || data.total_paths === 0) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
@@ -68,7 +67,7 @@ export default function AttackPaths() {
       </div>
 
       {/* Recommendations */}
-      {data.recommendations && data.recommendations.length > 0 && (
+      {data.recommendations.length > 0 && (
         <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
           <h3 className="text-sm font-medium text-gray-400 mb-3">Recommendations</h3>
           <div className="space-y-2">
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { ScrollText, Download, X } from 'lucide-react';
+import type { AuditEntry, AuditFilters } from '../lib/api';
+import { downloadCsv, toCsv } from '../lib/csv';
+import { useAuditLog, useClusters, useMembers } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import ErrorPanel from '../components/ErrorPanel';
+
+type Tone = 'destructive' | 'sensitive' | 'normal';
+
+const actions: Record<string, { label: string; tone: Tone }> = {
+  'cluster.created': { label: 'Cluster created', tone: 'normal' },
+  'cluster.updated': { label: 'Cluster updated', tone: 'normal' },
+  'cluster.deleted': { label: 'Cluster deleted', tone: 'destructive' },
+  'cluster.api_key_revealed': { label: 'API key revealed', tone: 'sensitive' },
+  'cluster.api_key_rotated': { label: 'API key rotated', tone: 'sensitive' },
+  'cluster.api_key_revoked': { label: 'API key revoked', tone: 'destructive' },
+  'simulation.run': { label: 'Simulation run', tone: 'normal' },
+  'auth.login': { label: 'Signed in', tone: 'normal' },
+  'auth.login_failed': { label: 'Sign-in failed', tone: 'sensitive' },
+  'member.invited': { label: 'Member invited', tone: 'normal' },
+  'member.joined': { label: 'Member joined', tone: 'normal' },
+  'member.role_changed': { label: 'Role changed', tone: 'sensitive' },
+  'member.removed': { label: 'Member removed', tone: 'destructive' },
+  'invite.revoked': { label: 'Invite revoked', tone: 'normal' },
+};
+
+const toneColors: Record<Tone, string> = {
+  destructive: 'text-red-400 bg-red-400/10',
+  sensitive: 'text-yellow-400 bg-yellow-400/10',
+  normal: 'text-gray-400 bg-white/5',
+};
+
+const actionLabel = (action: string) => actions[action]?.label ?? action;
+
+const formatMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata).map(([k, v]) => `${k}=${v}`).join(' ');
+
+// Date inputs give local calendar days; the API filters on instants
+function dayBoundary(day: string, end: boolean) {
+  if (!day) return undefined;
+  const date = new Date(`${day}T00:00:00`);
+  if (end) date.setDate(date.getDate() + 1);
+  return date.toISOString();
+}
+
+export default function Audit() {
+  const { org } = useAuth();
+  const [actor, setActor] = useState('');
+  const [action, setAction] = useState('');
+  const [clusterId, setClusterId] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+
+  const filters: AuditFilters = {
+    actor: actor || undefined,
+    action: action || undefined,
+    clusterId: clusterId || undefined,
+    from: dayBoundary(fromDay, false),
+    to: dayBoundary(toDay, true),
+  };
+  const { data: entries = [], loading, error, refetch } = useAuditLog(org?.id, filters);
+  const { data: members = [] } = useMembers(org?.id);
+  const { data: clusters = [] } = useClusters();
+  const filtered = !!(actor || action || clusterId || fromDay || toDay);
+
+  const clearFilters = () => {
+    setActor('');
+    setAction('');
+    setClusterId('');
+    setFromDay('');
+    setToDay('');
+  };
+
+  const exportCsv = () => {
+    const csv = toCsv<AuditEntry>(entries, [
+      { header: 'Time', value: (e) => e.at },
+      { header: 'Actor', value: (e) => e.actor_email },
+      { header: 'Action', value: (e) => e.action },
+      { header: 'Cluster', value: (e) => e.cluster_name ?? e.cluster_id },
+      { header: 'IP', value: (e) => e.ip },
+      { header: 'Details', value: (e) => formatMetadata(e.metadata) },
+    ]);
+    downloadCsv(`audit-${org?.id ?? 'log'}-${new Date().toISOString().slice(0, 10)}.csv`, csv);
+  };
+
+  const selectClass = 'bg-surface-800 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-cyan-500 transition-colors';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-2xl font-bold">Audit Log</h1>
+          <p className="text-gray-400 mt-1">Who did what in {org?.name ?? 'your organization'}</p>
+        </div>
+        <button
+          onClick={exportCsv}
+          disabled={entries.length === 0}
+          className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          Export CSV
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-end gap-3 mb-6">
+        <div>
+          <label className="text-xs text-gray-500 block mb-1.5">Actor</label>
+          <select value={actor} onChange={(e) => setActor(e.target.value)} className={selectClass}>
+            <option value="">Anyone</option>
+            {members.map((m) => (
+              <option key={m.user_id} value={m.email}>{m.email}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 block mb-1.5">Action</label>
+          <select value={action} onChange={(e) => setAction(e.target.value)} className={selectClass}>
+            <option value="">All actions</option>
+            {Object.entries(actions).map(([value, { label }]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 block mb-1.5">Cluster</label>
+          <select value={clusterId} onChange={(e) => setClusterId(e.target.value)} className={selectClass}>
+            <option value="">All clusters</option>
+            {clusters.map((c) => (
+              <option key={c.id} value={c.id}>{c.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 block mb-1.5">From</label>
+          <input type="date" value={fromDay} max={toDay || undefined} onChange={(e) => setFromDay(e.target.value)} className={selectClass} />
+        </div>
+        <div>
+          <label className="text-xs text-gray-500 block mb-1.5">To</label>
+          <input type="date" value={toDay} min={fromDay || undefined} onChange={(e) => setToDay(e.target.value)} className={selectClass} />
+        </div>
+        {filtered && (
+          <button onClick={clearFilters} className="flex items-center gap-1 text-sm text-gray-400 hover:text-white px-2 py-2 transition-colors">
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : error && entries.length === 0 ? (
+        <ErrorPanel error={error} title="Couldn't load the audit log" onRetry={refetch} />
+      ) : entries.length === 0 ? (
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+          <ScrollText className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No entries</h3>
+          <p className="text-gray-400 text-sm">{filtered ? 'Nothing matches these filters' : 'Nothing has been recorded yet'}</p>
+        </div>
+      ) : (
+        <div className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-white/5">
+                <th className="text-left text-xs text-gray-400 font-medium p-4">Time</th>
+                <th className="text-left text-xs text-gray-400 font-medium p-4">Actor</th>
+                <th className="text-left text-xs text-gray-400 font-medium p-4">Action</th>
+                <th className="text-left text-xs text-gray-400 font-medium p-4">Cluster</th>
+                <th className="text-left text-xs text-gray-400 font-medium p-4">Details</th>
+                <th className="text-left text-xs text-gray-400 font-medium p-4">IP</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={entry.id} className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
+                  <td className="p-4 text-sm text-gray-400 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                  <td className="p-4 text-sm">{entry.actor_email}</td>
+                  <td className="p-4">
+                    <span className={`text-xs font-medium px-2.5 py-1 rounded-full whitespace-nowrap ${toneColors[actions[entry.action]?.tone ?? 'normal']}`}>
+                      {actionLabel(entry.action)}
+                    </span>
+                  </td>
+                  <td className="p-4 text-sm text-gray-300">{entry.cluster_name ?? entry.cluster_id ?? '—'}</td>
+                  <td className="p-4 text-xs text-gray-500 font-mono">{formatMetadata(entry.metadata)}</td>
+                  <td className="p-4 text-xs text-gray-500 font-mono">{entry.ip ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
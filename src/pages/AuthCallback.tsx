@@ -0,0 +1,50 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { Radar } from 'lucide-react';
+import { errorMessage } from '../lib/errors';
+import { clearSession } from '../lib/session';
+import { useAuth } from '../hooks/useAuth';
+
+// The identity provider redirects here with ?code&state after SSO sign-in
+export default function AuthCallback() {
+  const { completeSso } = useAuth();
+  const [params] = useSearchParams();
+  const navigate = useNavigate();
+  const [error, setError] = useState('');
+  // The code can only be exchanged once, so don't run twice in StrictMode
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+    completeSso(params)
+      .then((returnTo) => navigate(returnTo, { replace: true }))
+      .catch((err) => {
+        clearSession();
+        setError(errorMessage(err, 'Single sign-on failed'));
+      });
+  }, [completeSso, params, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <div className="w-full max-w-md text-center">
+        <Radar className="w-12 h-12 text-cyan-400 mx-auto mb-4" />
+        {error ? (
+          <div className="bg-surface-800 border border-white/5 rounded-xl p-8 space-y-5">
+            <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3">
+              {error}
+            </div>
+            <Link to="/login" className="inline-block text-sm text-cyan-400 hover:text-cyan-300">
+              Back to sign in
+            </Link>
+          </div>
+        ) : (
+          <div className="flex items-center justify-center gap-3 text-gray-400">
+            <div className="w-5 h-5 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+            Completing sign-in...
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,36 +1,36 @@
-import { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { Crosshair, AlertTriangle, Server, Boxes } from 'lucide-react';
-import { api } from '../lib/api';
-import type { BlastRadiusResult, Snapshot } from '../lib/api';
+import { useBlastRadius, useLatestSnapshot } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
 
 export default function BlastRadius() {
   const { id } = useParams<{ id: string }>();
-  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
-  const [targetType, setTargetType] = useState<'node' | 'pod'>('node');
-  const [targetName, setTargetName] = useState('');
-  const [targetNs, setTargetNs] = useState('');
-  const [result, setResult] = useState<BlastRadiusResult | null>(null);
-  const [loading, setLoading] = useState(false);
-
-  useEffect(() => {
-    if (!id) return;
-    api.getLatestSnapshot(id).then((s) => {
-      setSnapshot(s);
-      if (s.nodes.length > 0) setTargetName(s.nodes[0].name);
-    }).catch(() => null);
-  }, [id]);
+  const { data: snapshot } = useLatestSnapshot(id);
+  // A link with ?type=node&target=<name> (plus &namespace= for pods) analyses that target at once
+  const [params] = useSearchParams();
+  const linked = params.get('target');
+  const [targetType, setTargetType] = useState<'node' | 'pod'>(params.get('type') === 'pod' ? 'pod' : 'node');
+  const [pickedTarget, setTargetName] = useState<string | null>(linked);
+  const targetName = pickedTarget ?? snapshot?.nodes[0]?.name ?? '';
+  const [targetNs, setTargetNs] = useState(params.get('namespace') ?? '');
+  // The analysed target only changes on "Analyze", so editing the form does not refetch
+  const [submitted, setSubmitted] = useState<{ type: string; target: string; namespace?: string } | null>(
+    () => (linked ? { type: targetType, target: linked, namespace: targetType === 'pod' ? targetNs : undefined } : null),
+  );
+  const analysis = useBlastRadius(id, submitted?.type ?? '', submitted?.target ?? '', submitted?.namespace);
+  const result = submitted ? analysis.data ?? null : null;
+  const loading = analysis.fetching;
+  const error = submitted ? analysis.error : undefined;
 
-  const analyze = async () => {
+  const analyze = () => {
     if (!id || !targetName) return;
-    setLoading(true);
-    try {
-      const res = await api.getBlastRadius(id, targetType, targetName, targetType === 'pod' ? targetNs : undefined);
-      setResult(res);
-    } catch {
-      // ignore
+    const next = { type: targetType, target: targetName, namespace: targetType === 'pod' ? targetNs : undefined };
+    if (submitted && submitted.type === next.type && submitted.target === next.target && submitted.namespace === next.namespace) {
+      analysis.refetch();
+    } else {
+      setSubmitted(next);
     }
-    setLoading(false);
   };
 
   const namespaces = snapshot ? [...new Set(snapshot.pods.map(p => p.namespace))].sort() : [];
@@ -62,7 +62,7 @@ export default function BlastRadius() {
             <label className="text-xs text-gray-500 block mb-1">Target Type</label>
             <div className="flex gap-2">
               <button
-                onClick={() => { setTargetType('node'); setTargetName(snapshot?.nodes[0]?.name || ''); setResult(null); }}
+                onClick={() => { setTargetType('node'); setTargetName(snapshot?.nodes[0]?.name || ''); setSubmitted(null); }}
                 className={`flex-1 flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm font-medium border transition-colors ${
                   targetType === 'node' ? 'border-cyan-500/30 bg-cyan-500/10 text-cyan-400' : 'border-white/10 text-gray-400'
                 }`}
@@ -73,7 +73,7 @@ export default function BlastRadius() {
                 onClick={() => {
                   setTargetType('pod');
                   setTargetName('');
-                  setResult(null);
+                  setSubmitted(null);
                   const nsList = snapshot ? [...new Set(snapshot.pods.map(p => p.namespace))].sort() : [];
                   if (nsList.length > 0) setTargetNs(nsList[0]);
                 }}
@@ -131,25 +131,27 @@ export default function BlastRadius() {
       </div>
 
       {/* Results */}
+      {!!error && !analysis.fetching && <ErrorPanel error={error} title="Blast radius analysis failed" onRetry={analyze} />}
+
       {result && (
         <div className="space-y-4">
           {/* Impact */}
-          <div className={`border rounded-xl p-5 ${riskColors[result.impact?.downtime_risk] || riskColors.none}`}>
+          <div className={`border rounded-xl p-5 ${riskColors[result.impact.downtime_risk] || riskColors.none}`}>
             <div className="flex items-center gap-3">
               <AlertTriangle className="w-6 h-6" />
               <div>
-                <div className="font-semibold uppercase text-sm tracking-wider">{result.impact?.downtime_risk || 'unknown'} Downtime Risk</div>
-                <div className="text-sm opacity-80 mt-1">{result.impact?.description}</div>
+                <div className="font-semibold uppercase text-sm tracking-wider">{result.impact.downtime_risk || 'unknown'} Downtime Risk</div>
+                <div className="text-sm opacity-80 mt-1">{result.impact.description}</div>
               </div>
             </div>
             <div className="mt-3 grid grid-cols-2 gap-4 text-sm">
-              <div>Affected Pods: <span className="font-bold">{result.impact?.affected_pods ?? 0}</span></div>
-              <div>Affected Services: <span className="font-bold">{result.impact?.affected_services ?? 0}</span></div>
+              <div>Affected Pods: <span className="font-bold">{result.impact.affected_pods}</span></div>
+              <div>Affected Services: <span className="font-bold">{result.impact.affected_services}</span></div>
             </div>
           </div>
 
           {/* Cascade Chain */}
-          {result.impact?.cascade_chain && result.impact.cascade_chain.length > 0 && (
+          {result.impact.cascade_chain.length > 0 && (
             <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
               <h4 className="text-sm font-medium text-gray-400 mb-3">Cascade Chain</h4>
               <div className="space-y-2">
@@ -163,19 +165,19 @@ export default function BlastRadius() {
           )}
 
           {/* Blast Zones */}
-          {(result.zones || []).length > 0 && (
+          {result.zones.length > 0 && (
             <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
               <h4 className="text-sm font-medium text-gray-400 mb-4">Impact Zones</h4>
               <div className="space-y-4">
-                {(result.zones || []).map((zone) => {
+                {result.zones.map((zone) => {
                   const colors = zoneColors[zone.level] || zoneColors[2];
                   return (
                     <div key={zone.level} className={`border rounded-xl p-4 ${colors.border} ${colors.bg}`}>
                       <div className={`text-sm font-semibold mb-3 ${colors.text}`}>
-                        Zone {zone.level}: {zone.label} ({(zone.services || []).length})
+                        Zone {zone.level}: {zone.label} ({zone.services.length})
                       </div>
                       <div className="flex flex-wrap gap-2">
-                        {(zone.services || []).map((svc) => (
+                        {zone.services.map((svc) => (
                           <div key={svc.id} className={`flex items-center gap-2 px-3 py-2 rounded-lg bg-surface-900/50 text-sm ${
                             svc.critical ? 'ring-1 ring-red-500/50' : ''
                           }`}>
@@ -194,7 +196,7 @@ export default function BlastRadius() {
           )}
 
           {/* Dependency Graph */}
-          {(result.dependencies || []).length > 0 && (
+          {result.dependencies.length > 0 && (
             <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
               <h4 className="text-sm font-medium text-gray-400 mb-3">Dependencies ({result.dependencies.length})</h4>
               <div className="space-y-1">
@@ -1,19 +1,16 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { Network, Server, Box, Layers, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
-import { api } from '../lib/api';
-import type { ClusterTopology, TopologyNode } from '../lib/api';
+import type { TopologyNode } from '../lib/api';
+import { topologySearch, searchItems } from '../lib/search';
+import { useTopology } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
+import SearchBar from '../components/SearchBar';
 
 export default function ClusterMap() {
   const { id } = useParams<{ id: string }>();
-  const [data, setData] = useState<ClusterTopology | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<'all' | 'node' | 'pod' | 'namespace'>('all');
-
-  useEffect(() => {
-    if (!id) return;
-    api.getTopology(id).then(setData).catch(() => null).finally(() => setLoading(false));
-  }, [id]);
+  const { data, loading, error, refetch } = useTopology(id);
+  const [query, setQuery] = useState('');
 
   if (loading) {
     return (
@@ -23,6 +20,10 @@ export default function ClusterMap() {
     );
   }
 
+  if (error && !data) {
+    return <ErrorPanel error={error} title="Couldn't load topology" onRetry={refetch} />;
+  }
+
   if (!data) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
@@ -33,7 +34,7 @@ export default function ClusterMap() {
     );
   }
 
-  const filtered = data.nodes.filter(n => filter === 'all' || n.type === filter);
+  const filtered = searchItems(data.nodes, query, topologySearch);
 
   const grouped: Record<string, TopologyNode[]> = {};
   for (const node of filtered) {
@@ -67,19 +68,14 @@ export default function ClusterMap() {
       </div>
 
       {/* Filter */}
-      <div className="flex gap-2">
-        {(['all', 'node', 'pod', 'namespace'] as const).map(f => (
-          <button
-            key={f}
-            onClick={() => setFilter(f)}
-            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-              filter === f ? 'bg-cyan-500/20 text-cyan-400' : 'bg-surface-800 text-gray-400 hover:text-white'
-            }`}
-          >
-            {f.charAt(0).toUpperCase() + f.slice(1)}
-          </button>
-        ))}
-      </div>
+      <SearchBar
+        value={query}
+        onChange={setQuery}
+        items={data.nodes}
+        schema={topologySearch}
+        placeholder="type:pod ns:payments status!=healthy"
+        className="max-w-xl"
+      />
 
       {/* Topology Map */}
       {Object.entries(grouped).sort().map(([group, nodes]) => (
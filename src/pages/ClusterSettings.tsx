@@ -0,0 +1,578 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine } from 'recharts';
+import { ArrowLeft, KeyRound, RefreshCw, Eye, EyeOff, Copy, Check, Ban, SlidersHorizontal, Plus, X, HeartPulse } from 'lucide-react';
+import type { ApiKey, ApiKeyStatus, Cluster, ClusterEnvironment, RotatedApiKey } from '../lib/api';
+import { environments, isValidLabelKey, ownerTeams, providers } from '../lib/clusters';
+import { agentHealth, formatAge, formatInterval, heartbeatGaps, snapshotInterval, staleThreshold } from '../lib/health';
+import { mutations } from '../lib/queries';
+import { errorMessage } from '../lib/errors';
+import { useApiKeys, useClusterById, useHeartbeats } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useCluster } from '../hooks/useCluster';
+import { useNow } from '../hooks/useNow';
+import ConfirmByNameModal from '../components/ConfirmByNameModal';
+import ErrorPanel from '../components/ErrorPanel';
+import HealthBadge from '../components/HealthBadge';
+
+const HOUR = 60 * 60;
+
+const gracePeriods = [
+  { value: 0, label: 'None, stop the current key now' },
+  { value: HOUR, label: '1 hour' },
+  { value: 24 * HOUR, label: '24 hours' },
+  { value: 7 * 24 * HOUR, label: '7 days' },
+];
+
+const statusColors: Record<ApiKeyStatus, string> = {
+  active: 'text-emerald-400 bg-emerald-400/10',
+  expiring: 'text-yellow-400 bg-yellow-400/10',
+  expired: 'text-gray-400 bg-white/5',
+  revoked: 'text-red-400 bg-red-400/10',
+};
+
+const usable = (key: ApiKey) => key.status === 'active' || key.status === 'expiring';
+
+export default function ClusterSettings() {
+  const { id } = useParams<{ id: string }>();
+  const { can } = useAuth();
+  const { data: cluster, loading, error, refetch } = useClusterById(id);
+  const { data: keys = [], loading: keysLoading, error: keysError, refetch: refetchKeys } = useApiKeys(id);
+  // Secrets revealed in this visit, by key id. They stay in memory only.
+  const [revealed, setRevealed] = useState<Record<string, string>>({});
+  const [rotating, setRotating] = useState(false);
+  const [rotated, setRotated] = useState<{ key: RotatedApiKey; gracePeriod: number } | null>(null);
+  const [revoking, setRevoking] = useState<ApiKey | null>(null);
+  const [actionError, setActionError] = useState('');
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!cluster) {
+    return <ErrorPanel error={error} title="Couldn't load this cluster" onRetry={refetch} />;
+  }
+
+  const reveal = async (key: ApiKey) => {
+    setActionError('');
+    try {
+      const secret = await mutations.revealApiKey(cluster.id, key.id);
+      setRevealed((r) => ({ ...r, [key.id]: secret }));
+    } catch (err) {
+      setActionError(errorMessage(err, 'Failed to reveal the key'));
+    }
+  };
+
+  const hide = (keyId: string) => setRevealed((r) => {
+    const next = { ...r };
+    delete next[keyId];
+    return next;
+  });
+
+  return (
+    <div className="max-w-4xl">
+      <Link to="/clusters" className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors mb-6 text-sm w-fit">
+        <ArrowLeft className="w-4 h-4" />
+        Back to Clusters
+      </Link>
+
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold">{cluster.name}</h1>
+        <p className="text-gray-400 mt-1">Cluster settings</p>
+      </div>
+
+      {actionError && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3 mb-6">
+          {actionError}
+        </div>
+      )}
+
+      <GeneralSettings key={cluster.id} cluster={cluster} editable={can('cluster:edit')} />
+
+      <AgentHealthCard cluster={cluster} />
+
+      <div className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden">
+        <div className="p-6 border-b border-white/5 flex items-start justify-between gap-6">
+          <div>
+            <h2 className="font-semibold flex items-center gap-2">
+              <KeyRound className="w-4 h-4 text-cyan-400" />
+              Agent API keys
+            </h2>
+            <p className="text-sm text-gray-400 mt-1">
+              The agent authenticates with one of these. Rotate a key that may have leaked; revoke one to lock its agent out at once.
+            </p>
+          </div>
+          {can('cluster:manage_keys') && (
+            <button
+              onClick={() => setRotating(true)}
+              className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm shrink-0"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Rotate key
+            </button>
+          )}
+        </div>
+
+        {rotated && (
+          <div className="p-6 border-b border-white/5 bg-cyan-500/5">
+            <p className="text-sm mb-3">
+              New key issued.{' '}
+              {rotated.gracePeriod > 0
+                ? "Switch the agent's config.apiKey over before the previous key expires."
+                : "The previous key no longer works, so update the agent's config.apiKey now."}
+            </p>
+            <SecretField secret={rotated.key.api_key} />
+          </div>
+        )}
+
+        {keysLoading ? (
+          <div className="flex justify-center p-8">
+            <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : keysError && keys.length === 0 ? (
+          <div className="p-6">
+            <ErrorPanel error={keysError} title="Couldn't load API keys" onRetry={refetchKeys} />
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-white/5">
+                <th className="text-left text-xs text-gray-400 font-medium p-4">Key</th>
+                <th className="text-left text-xs text-gray-400 font-medium p-4">Status</th>
+                <th className="text-left text-xs text-gray-400 font-medium p-4">Created</th>
+                <th className="text-left text-xs text-gray-400 font-medium p-4">Last Used</th>
+                <th className="text-right text-xs text-gray-400 font-medium p-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {keys.map((key) => {
+                const secret = revealed[key.id];
+                return (
+                  <tr key={key.id} className={`border-b border-white/5 last:border-0 ${usable(key) ? '' : 'opacity-50'}`}>
+                    <td className="p-4 max-w-xs">
+                      {secret ? <SecretField secret={secret} /> : <code className="text-sm font-mono text-gray-300">{key.masked}</code>}
+                    </td>
+                    <td className="p-4">
+                      <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${statusColors[key.status]}`}>{key.status}</span>
+                      {key.status === 'expiring' && key.expires_at && (
+                        <p className="text-xs text-gray-500 mt-1.5">until {new Date(key.expires_at).toLocaleString()}</p>
+                      )}
+                    </td>
+                    <td className="p-4 text-sm text-gray-400">
+                      {new Date(key.created_at).toLocaleDateString()}
+                      {key.created_by && <p className="text-xs text-gray-500">by {key.created_by}</p>}
+                    </td>
+                    <td className="p-4 text-sm text-gray-400">
+                      {key.last_used_at ? new Date(key.last_used_at).toLocaleString() : 'Never'}
+                    </td>
+                    <td className="p-4 text-right whitespace-nowrap">
+                      {usable(key) && can('cluster:reveal_key') && (
+                        <button
+                          onClick={() => (secret ? hide(key.id) : reveal(key))}
+                          title={secret ? 'Hide key' : 'Reveal key (recorded in the audit log)'}
+                          className="text-gray-500 hover:text-white transition-colors p-1"
+                        >
+                          {secret ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        </button>
+                      )}
+                      {usable(key) && can('cluster:manage_keys') && (
+                        <button
+                          onClick={() => setRevoking(key)}
+                          title="Revoke key"
+                          className="text-gray-500 hover:text-red-400 transition-colors p-1 ml-2"
+                        >
+                          <Ban className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {rotating && (
+        <RotateKeyModal
+          onRotate={async (gracePeriod) => {
+            setRotated({ key: await mutations.rotateApiKey(cluster.id, gracePeriod), gracePeriod });
+          }}
+          onClose={() => setRotating(false)}
+        />
+      )}
+
+      {revoking && (
+        <ConfirmByNameModal
+          title="Revoke API key"
+          name={cluster.name}
+          actionLabel="Revoke key"
+          onConfirm={async () => {
+            await mutations.revokeApiKey(cluster.id, revoking.id);
+            hide(revoking.id);
+          }}
+          onClose={() => setRevoking(null)}
+        >
+          Agents using <span className="font-mono text-white">{revoking.masked}</span> lose access to{' '}
+          <span className="text-white">{cluster.name}</span> immediately.
+          {keys.filter(usable).length === 1 && ' This is the only working key, so the cluster disconnects until you rotate in a new one.'}
+        </ConfirmByNameModal>
+      )}
+    </div>
+  );
+}
+
+const tooltipStyle = {
+  contentStyle: { background: '#151829', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff' },
+};
+
+// Gaps between reports against the interval the agent is configured for: bars
+// above the dashed line are missed reports, above the red one the agent went stale
+function AgentHealthCard({ cluster }: { cluster: Cluster }) {
+  const now = useNow();
+  const { data: heartbeats = [], loading, error, refetch } = useHeartbeats(cluster.id);
+  const interval = snapshotInterval(cluster);
+  const gaps = heartbeatGaps(heartbeats);
+  const lastSeen = cluster.last_seen_at ? Date.parse(cluster.last_seen_at) : null;
+
+  return (
+    <div className="bg-surface-800 border border-white/5 rounded-xl p-6 mb-6">
+      <div className="flex items-start justify-between gap-6 mb-5">
+        <div>
+          <h2 className="font-semibold flex items-center gap-2">
+            <HeartPulse className="w-4 h-4 text-cyan-400" />
+            Agent health
+          </h2>
+          <p className="text-sm text-gray-400 mt-1">
+            The agent reports every {formatInterval(interval)}.{' '}
+            {lastSeen
+              ? <>Last report <span title={new Date(lastSeen).toLocaleString()}>{formatAge(now - lastSeen)}</span>.</>
+              : 'It has not reported yet.'}
+          </p>
+        </div>
+        <HealthBadge health={agentHealth(cluster, now)} />
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center p-8">
+          <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : error && heartbeats.length === 0 ? (
+        <ErrorPanel error={error} title="Couldn't load the agent's reports" onRetry={refetch} />
+      ) : gaps.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">Not enough reports yet to chart.</p>
+      ) : (
+        <>
+          <h3 className="text-sm font-medium text-gray-400 mb-4">Minutes between reports, last 24 hours</h3>
+          <ResponsiveContainer width="100%" height={200}>
+            <BarChart data={gaps}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+              <XAxis
+                dataKey="at"
+                tickFormatter={(at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                tick={{ fill: '#9ca3af', fontSize: 11 }}
+                axisLine={false}
+                tickLine={false}
+              />
+              <YAxis tick={{ fill: '#9ca3af', fontSize: 11 }} axisLine={false} tickLine={false} />
+              <Tooltip
+                {...tooltipStyle}
+                labelFormatter={(at) => new Date(Number(at)).toLocaleString()}
+                formatter={(gap) => [`${Math.round(Number(gap))} min`, 'Gap']}
+              />
+              <ReferenceLine y={interval / 60_000} stroke="#9ca3af" strokeDasharray="4 4" />
+              <ReferenceLine y={staleThreshold(cluster) / 60_000} stroke="#f87171" strokeDasharray="4 4" />
+              <Bar dataKey="gap" fill="#22d3ee" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SecretField({ secret }: { secret: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard.writeText(secret);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <code className="flex-1 bg-navy-950 rounded-lg px-3 py-2 text-sm text-cyan-400 break-all font-mono">{secret}</code>
+      <button type="button" onClick={copy} title="Copy" className="text-gray-400 hover:text-white transition-colors p-1">
+        {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+}
+
+function RotateKeyModal({ onRotate, onClose }: { onRotate: (gracePeriod: number) => Promise<void>; onClose: () => void }) {
+  const [gracePeriod, setGracePeriod] = useState(24 * HOUR);
+  const [error, setError] = useState('');
+  const [running, setRunning] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setRunning(true);
+    try {
+      await onRotate(gracePeriod);
+      onClose();
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to rotate the key'));
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-navy-950/80 backdrop-blur-sm flex items-center justify-center px-4" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-md bg-surface-800 border border-white/10 rounded-xl p-6 space-y-4"
+      >
+        <div className="flex items-center gap-3">
+          <RefreshCw className="w-6 h-6 text-cyan-400 shrink-0" />
+          <h2 className="text-lg font-semibold">Rotate API key</h2>
+        </div>
+        <p className="text-sm text-gray-400">
+          A new key is issued right away. During the grace period the current key keeps working, so agents can be
+          switched over without losing data.
+        </p>
+
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3">
+            {error}
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Grace period</label>
+          <select
+            value={gracePeriod}
+            onChange={(e) => setGracePeriod(Number(e.target.value))}
+            className="w-full bg-navy-900 border border-white/10 rounded-lg px-4 py-3 text-sm focus:outline-none focus:border-cyan-500 transition-colors"
+          >
+            {gracePeriods.map((p) => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <button type="button" onClick={onClose} className="px-4 py-2.5 text-sm text-gray-400 hover:text-white transition-colors">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={running}
+            className="bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            {running ? 'Rotating...' : 'Rotate key'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+interface LabelRow {
+  key: string;
+  value: string;
+}
+
+const inputClass = 'w-full bg-navy-900 border border-white/10 rounded-lg px-4 py-2.5 text-sm focus:outline-none focus:border-cyan-500 transition-colors disabled:text-gray-400';
+
+function GeneralSettings({ cluster, editable }: { cluster: Cluster; editable: boolean }) {
+  const { clusters } = useCluster();
+  const [name, setName] = useState(cluster.name);
+  const [provider, setProvider] = useState(cluster.provider);
+  const [environment, setEnvironment] = useState<ClusterEnvironment | ''>(cluster.environment ?? '');
+  const [ownerTeam, setOwnerTeam] = useState(cluster.owner_team ?? '');
+  const [description, setDescription] = useState(cluster.description ?? '');
+  const [labels, setLabels] = useState<LabelRow[]>(() => Object.entries(cluster.labels).map(([key, value]) => ({ key, value })));
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  // Providers the form doesn't know, say from an older client, stay selectable
+  const providerOptions = providers.some((p) => p.value === cluster.provider)
+    ? providers
+    : [...providers, { value: cluster.provider, label: cluster.provider.toUpperCase() }];
+
+  const setLabel = (index: number, patch: Partial<LabelRow>) =>
+    setLabels((rows) => rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaved(false);
+    const rows = labels.map((l) => ({ key: l.key.trim(), value: l.value.trim() })).filter((l) => l.key || l.value);
+    const invalid = rows.find((l) => !isValidLabelKey(l.key));
+    if (invalid) {
+      setError(invalid.key ? `"${invalid.key}" isn't a valid label key` : 'Every label needs a key');
+      return;
+    }
+    if (new Set(rows.map((l) => l.key)).size !== rows.length) {
+      setError('Label keys must be unique');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await mutations.updateCluster(cluster.id, {
+        name: name.trim(),
+        provider,
+        environment: environment || null,
+        owner_team: ownerTeam.trim() || null,
+        description: description.trim() || null,
+        labels: Object.fromEntries(rows.map((l) => [l.key, l.value])),
+      });
+      setLabels(rows);
+      setSaved(true);
+      setTimeout(() => setSaved(false), 2000);
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to save the cluster'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-surface-800 border border-white/5 rounded-xl p-6 mb-6 space-y-5">
+      <h2 className="font-semibold flex items-center gap-2">
+        <SlidersHorizontal className="w-4 h-4 text-cyan-400" />
+        General
+      </h2>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Name</label>
+          <input value={name} onChange={(e) => setName(e.target.value)} required maxLength={63} disabled={!editable} className={inputClass} />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Provider</label>
+          <select value={provider} onChange={(e) => setProvider(e.target.value)} disabled={!editable} className={inputClass}>
+            {providerOptions.map((p) => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Environment</label>
+          <select
+            value={environment}
+            onChange={(e) => setEnvironment(e.target.value as ClusterEnvironment | '')}
+            disabled={!editable}
+            className={inputClass}
+          >
+            <option value="">Not set</option>
+            {environments.map((env) => (
+              <option key={env.value} value={env.value}>{env.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-300 mb-2">Owner team</label>
+          <input
+            value={ownerTeam}
+            onChange={(e) => setOwnerTeam(e.target.value)}
+            list="owner-teams"
+            placeholder="e.g. platform"
+            disabled={!editable}
+            className={inputClass}
+          />
+          <datalist id="owner-teams">
+            {ownerTeams(clusters).map((team) => <option key={team} value={team} />)}
+          </datalist>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm text-gray-300 mb-2">Description</label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          rows={2}
+          maxLength={280}
+          disabled={!editable}
+          className={`${inputClass} resize-none`}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm text-gray-300 mb-2">Labels</label>
+        <div className="space-y-2">
+          {labels.map((label, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                value={label.key}
+                onChange={(e) => setLabel(i, { key: e.target.value })}
+                placeholder="key"
+                disabled={!editable}
+                className={`${inputClass} font-mono`}
+              />
+              <span className="text-gray-500">=</span>
+              <input
+                value={label.value}
+                onChange={(e) => setLabel(i, { value: e.target.value })}
+                placeholder="value"
+                maxLength={63}
+                disabled={!editable}
+                className={`${inputClass} font-mono`}
+              />
+              {editable && (
+                <button
+                  type="button"
+                  onClick={() => setLabels((rows) => rows.filter((_, j) => j !== i))}
+                  title="Remove label"
+                  className="text-gray-500 hover:text-red-400 transition-colors p-1"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          {labels.length === 0 && !editable && <p className="text-sm text-gray-500">No labels</p>}
+        </div>
+        {editable && (
+          <button
+            type="button"
+            onClick={() => setLabels((rows) => [...rows, { key: '', value: '' }])}
+            className="flex items-center gap-1.5 text-sm text-cyan-400 hover:text-cyan-300 transition-colors mt-3"
+          >
+            <Plus className="w-4 h-4" />
+            Add label
+          </button>
+        )}
+      </div>
+
+      {editable && (
+        <div className="flex items-center justify-end gap-3">
+          {saved && <span className="flex items-center gap-1 text-sm text-emerald-400"><Check className="w-4 h-4" />Saved</span>}
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save changes'}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
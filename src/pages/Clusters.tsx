@@ -1,27 +1,32 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Plus, Server, Trash2 } from 'lucide-react';
-import { api } from '../lib/api';
-import type { Cluster } from '../lib/api';
+import { Plus, Server, Settings, Trash2, Search, X } from 'lucide-react';
+import type { Cluster, ClusterEnvironment } from '../lib/api';
+import {
+  NO_FILTERS, environmentLabel, environments, filterClusters, groupClusters, groupings, isFiltered, ownerTeams, providerLabel,
+} from '../lib/clusters';
+import type { ClusterGrouping } from '../lib/clusters';
+import { agentHealth, formatAge } from '../lib/health';
+import { mutations } from '../lib/queries';
+import { useClusters } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useCluster } from '../hooks/useCluster';
+import { useNow } from '../hooks/useNow';
+import ConfirmByNameModal from '../components/ConfirmByNameModal';
+import ErrorPanel from '../components/ErrorPanel';
+import HealthBadge from '../components/HealthBadge';
 
-export default function Clusters() {
-  const [clusters, setClusters] = useState<Cluster[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    api.getClusters()
-      .then(setClusters)
-      .catch(() => {})
-      .finally(() => setLoading(false));
-  }, []);
+const selectClass = 'bg-surface-800 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-cyan-500 transition-colors';
 
-  const handleDelete = async (id: string, name: string) => {
-    if (!confirm(`Are you sure you want to delete "${name}"?`)) return;
-    try {
-      await api.deleteCluster(id);
-      setClusters(prev => prev.filter(c => c.id !== id));
-    } catch {}
-  };
+export default function Clusters() {
+  const { data: clusters = [], loading, error, refetch } = useClusters();
+  const { can } = useAuth();
+  const { view, updateView } = useCluster();
+  const now = useNow();
+  const [deleting, setDeleting] = useState<Cluster | null>(null);
+  const visible = filterClusters(clusters, view);
+  const groups = groupClusters(visible, view.groupBy);
+  const teams = ownerTeams(clusters);
 
   if (loading) {
     return (
@@ -31,6 +36,10 @@ export default function Clusters() {
     );
   }
 
+  if (error && clusters.length === 0) {
+    return <ErrorPanel error={error} title="Couldn't load clusters" onRetry={refetch} />;
+  }
+
   return (
     <div>
       <div className="flex items-center justify-between mb-8">
@@ -38,88 +47,213 @@ export default function Clusters() {
           <h1 className="text-2xl font-bold">Clusters</h1>
           <p className="text-gray-400 mt-1">Manage your Kubernetes clusters</p>
         </div>
-        <Link
-          to="/clusters/new"
-          className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm"
-        >
-          <Plus className="w-4 h-4" />
-          Add Cluster
-        </Link>
-      </div>
-
-      {clusters.length === 0 ? (
-        <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
-          <Server className="w-12 h-12 text-gray-600 mx-auto mb-4" />
-          <h3 className="text-lg font-semibold mb-2">No clusters yet</h3>
-          <p className="text-gray-400 text-sm mb-6">Add your first cluster to get started</p>
+        {can('cluster:create') && (
           <Link
             to="/clusters/new"
-            className="inline-flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm"
+            className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm"
           >
             <Plus className="w-4 h-4" />
             Add Cluster
           </Link>
+        )}
+      </div>
+
+      {clusters.length === 0 ? (
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+          <Server className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">No clusters yet</h3>
+          {can('cluster:create') ? (
+            <>
+              <p className="text-gray-400 text-sm mb-6">Add your first cluster to get started</p>
+              <Link
+                to="/clusters/new"
+                className="inline-flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                Add Cluster
+              </Link>
+            </>
+          ) : (
+            <p className="text-gray-400 text-sm">Ask an editor or admin to add a cluster to this organization</p>
+          )}
         </div>
       ) : (
-        <div className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden">
-          <table className="w-full">
-            <thead>
-              <tr className="border-b border-white/5">
-                <th className="text-left text-xs text-gray-400 font-medium p-4">Name</th>
-                <th className="text-left text-xs text-gray-400 font-medium p-4">Provider</th>
-                <th className="text-left text-xs text-gray-400 font-medium p-4">Status</th>
-                <th className="text-left text-xs text-gray-400 font-medium p-4">Last Seen</th>
-                <th className="text-left text-xs text-gray-400 font-medium p-4">Created</th>
-                <th className="text-right text-xs text-gray-400 font-medium p-4">Actions</th>
-              </tr>
-            </thead>
-            <tbody>
-              {clusters.map((cluster) => (
-                <tr key={cluster.id} className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
-                  <td className="p-4">
-                    <Link to={`/clusters/${cluster.id}`} className="font-medium hover:text-cyan-400 transition-colors">
-                      {cluster.name}
-                    </Link>
-                  </td>
-                  <td className="p-4">
-                    <span className="text-sm text-gray-300">{cluster.provider.toUpperCase()}</span>
-                  </td>
-                  <td className="p-4">
-                    <StatusBadge status={cluster.status} />
-                  </td>
-                  <td className="p-4 text-sm text-gray-400">
-                    {cluster.last_seen_at ? new Date(cluster.last_seen_at).toLocaleString() : 'Never'}
-                  </td>
-                  <td className="p-4 text-sm text-gray-400">
-                    {new Date(cluster.created_at).toLocaleDateString()}
-                  </td>
-                  <td className="p-4 text-right">
-                    <button
-                      onClick={() => handleDelete(cluster.id, cluster.name)}
-                      className="text-gray-500 hover:text-red-400 transition-colors p-1"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
-                  </td>
-                </tr>
+        <>
+          {/* Filters */}
+          <div className="flex flex-wrap items-end gap-3 mb-6">
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+              <input
+                value={view.search}
+                onChange={(e) => updateView({ search: e.target.value })}
+                placeholder="Search clusters"
+                className={`${selectClass} pl-9 w-56`}
+              />
+            </div>
+            <select
+              value={view.environment}
+              onChange={(e) => updateView({ environment: e.target.value as ClusterEnvironment | '' })}
+              className={selectClass}
+            >
+              <option value="">All environments</option>
+              {environments.map((env) => (
+                <option key={env.value} value={env.value}>{env.label}</option>
               ))}
-            </tbody>
-          </table>
-        </div>
+            </select>
+            <select value={view.team} onChange={(e) => updateView({ team: e.target.value })} className={selectClass}>
+              <option value="">All teams</option>
+              {teams.map((team) => (
+                <option key={team} value={team}>{team}</option>
+              ))}
+            </select>
+            <input
+              value={view.label}
+              onChange={(e) => updateView({ label: e.target.value })}
+              placeholder="label or label=value"
+              spellCheck={false}
+              className={`${selectClass} font-mono w-48`}
+            />
+            {isFiltered(view) && (
+              <button
+                onClick={() => updateView(NO_FILTERS)}
+                className="flex items-center gap-1 text-sm text-gray-400 hover:text-white px-2 py-2 transition-colors"
+              >
+                <X className="w-4 h-4" />
+                Clear
+              </button>
+            )}
+            <select
+              value={view.groupBy}
+              onChange={(e) => updateView({ groupBy: e.target.value as ClusterGrouping })}
+              className={`${selectClass} ml-auto`}
+            >
+              {groupings.map((g) => (
+                <option key={g.value} value={g.value}>{g.value === 'none' ? g.label : `Group by ${g.label.toLowerCase()}`}</option>
+              ))}
+            </select>
+          </div>
+
+          {visible.length === 0 ? (
+            <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+              <Search className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+              <h3 className="text-lg font-semibold mb-2">No matching clusters</h3>
+              <p className="text-gray-400 text-sm">Nothing matches these filters</p>
+            </div>
+          ) : (
+            <div className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-white/5">
+                    <th className="text-left text-xs text-gray-400 font-medium p-4">Name</th>
+                    <th className="text-left text-xs text-gray-400 font-medium p-4">Environment</th>
+                    <th className="text-left text-xs text-gray-400 font-medium p-4">Team</th>
+                    <th className="text-left text-xs text-gray-400 font-medium p-4">Provider</th>
+                    <th className="text-left text-xs text-gray-400 font-medium p-4">Status</th>
+                    <th className="text-left text-xs text-gray-400 font-medium p-4">Last Seen</th>
+                    <th className="text-left text-xs text-gray-400 font-medium p-4">Created</th>
+                    <th className="text-right text-xs text-gray-400 font-medium p-4">Actions</th>
+                  </tr>
+                </thead>
+                {groups.map((group) => (
+                  <tbody key={group.key}>
+                    {view.groupBy !== 'none' && (
+                      <tr className="border-b border-white/5 bg-white/[0.02]">
+                        <td colSpan={8} className="px-4 py-2 text-xs font-semibold text-gray-400 uppercase tracking-wider">
+                          {group.label} <span className="text-gray-600 font-normal">({group.clusters.length})</span>
+                        </td>
+                      </tr>
+                    )}
+                    {group.clusters.map((cluster) => (
+                      <tr key={cluster.id} className="border-b border-white/5 hover:bg-white/[0.02]">
+                        <td className="p-4">
+                          <Link to={`/clusters/${cluster.id}`} className="font-medium hover:text-cyan-400 transition-colors">
+                            {cluster.name}
+                          </Link>
+                          {cluster.description && <p className="text-xs text-gray-500 mt-0.5">{cluster.description}</p>}
+                          {Object.keys(cluster.labels).length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1.5">
+                              {Object.entries(cluster.labels).map(([key, value]) => (
+                                <button
+                                  key={key}
+                                  onClick={() => updateView({ label: `${key}=${value}` })}
+                                  title="Filter by this label"
+                                  className="text-[11px] font-mono text-gray-400 bg-white/5 hover:bg-white/10 px-1.5 py-0.5 rounded transition-colors"
+                                >
+                                  {key}={value}
+                                </button>
+                              ))}
+                            </div>
+                          )}
+                        </td>
+                        <td className="p-4">
+                          {cluster.environment ? <EnvironmentBadge environment={cluster.environment} /> : <span className="text-sm text-gray-600">—</span>}
+                        </td>
+                        <td className="p-4 text-sm text-gray-300">{cluster.owner_team ?? <span className="text-gray-600">—</span>}</td>
+                        <td className="p-4">
+                          <span className="text-sm text-gray-300">{providerLabel(cluster.provider)}</span>
+                        </td>
+                        <td className="p-4">
+                          <HealthBadge health={agentHealth(cluster, now)} />
+                        </td>
+                        <td className="p-4 text-sm text-gray-400" title={cluster.last_seen_at ? new Date(cluster.last_seen_at).toLocaleString() : undefined}>
+                          {cluster.last_seen_at ? formatAge(now - Date.parse(cluster.last_seen_at)) : 'Never'}
+                        </td>
+                        <td className="p-4 text-sm text-gray-400">
+                          {new Date(cluster.created_at).toLocaleDateString()}
+                        </td>
+                        <td className="p-4 text-right whitespace-nowrap">
+                          <Link
+                            to={`/clusters/${cluster.id}/settings`}
+                            title="Settings"
+                            className="inline-block text-gray-500 hover:text-white transition-colors p-1"
+                          >
+                            <Settings className="w-4 h-4" />
+                          </Link>
+                          {can('cluster:delete') && (
+                            <button
+                              onClick={() => setDeleting(cluster)}
+                              title="Delete cluster"
+                              className="text-gray-500 hover:text-red-400 transition-colors p-1 ml-2"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                ))}
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {deleting && (
+        <ConfirmByNameModal
+          title="Delete cluster"
+          name={deleting.name}
+          actionLabel="Delete cluster"
+          onConfirm={() => mutations.deleteCluster(deleting.id)}
+          onClose={() => setDeleting(null)}
+        >
+          This removes <span className="text-white">{deleting.name}</span> and all of its snapshots. The agent's API key
+          stops working immediately. This can't be undone.
+        </ConfirmByNameModal>
       )}
     </div>
   );
 }
 
-function StatusBadge({ status }: { status: string }) {
-  const colors: Record<string, string> = {
-    connected: 'text-emerald-400 bg-emerald-400/10',
-    pending: 'text-yellow-400 bg-yellow-400/10',
-    disconnected: 'text-red-400 bg-red-400/10',
+function EnvironmentBadge({ environment }: { environment: ClusterEnvironment }) {
+  const colors: Record<ClusterEnvironment, string> = {
+    prod: 'text-purple-400 bg-purple-400/10',
+    staging: 'text-cyan-400 bg-cyan-400/10',
+    dev: 'text-gray-400 bg-white/5',
   };
   return (
-    <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${colors[status] || colors.pending}`}>
-      {status}
+    <span className={`text-xs font-medium px-2.5 py-1 rounded-full whitespace-nowrap ${colors[environment]}`}>
+      {environmentLabel(environment)}
     </span>
   );
 }
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { GitCompare, AlertTriangle } from 'lucide-react';
+import type { Cluster } from '../lib/api';
+import { environmentLabel } from '../lib/clusters';
+import { MAX_COMPARED, compareClusters, driftCount } from '../lib/compare';
+import type { ComparisonSection } from '../lib/compare';
+import { useClusters, useComparedClusters } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
+
+// Staging next to production is the comparison people come here for
+function defaultSelection(clusters: Cluster[]) {
+  const staging = clusters.find((c) => c.environment === 'staging');
+  const prod = clusters.find((c) => c.environment === 'prod');
+  if (staging && prod) return [staging.id, prod.id];
+  return clusters.slice(0, 2).map((c) => c.id);
+}
+
+export default function Compare() {
+  const { data: clusters = [], loading, error, refetch } = useClusters();
+  const [params, setParams] = useSearchParams();
+  const [driftOnly, setDriftOnly] = useState(false);
+
+  // Without ?clusters= start from the defaults; an empty one means the user unticked them all
+  const ids = params.has('clusters')
+    ? (params.get('clusters') ?? '').split(',').filter((id) => clusters.some((c) => c.id === id)).slice(0, MAX_COMPARED)
+    : defaultSelection(clusters);
+  const compared = ids.map((id) => clusters.find((c) => c.id === id)!);
+  const data = useComparedClusters(ids);
+
+  const toggle = (id: string) => {
+    const next = ids.includes(id) ? ids.filter((i) => i !== id) : [...ids, id];
+    setParams({ clusters: next.join(',') }, { replace: true });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error && clusters.length === 0) {
+    return <ErrorPanel error={error} title="Couldn't load clusters" onRetry={refetch} />;
+  }
+
+  if (clusters.length < 2) {
+    return (
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+        <GitCompare className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">Not Enough Clusters</h3>
+        <p className="text-gray-400 text-sm">Need at least 2 clusters to compare</p>
+      </div>
+    );
+  }
+
+  const sections = compareClusters(compared.map((cluster, i) => ({ cluster, ...data[i] })));
+  const drift = driftCount(sections);
+  const fetching = data.some((d) => d.loading);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Compare Clusters</h1>
+        <p className="text-gray-400 mt-1">Put clusters side by side and spot drift between environments</p>
+      </div>
+
+      {/* Selector */}
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
+        <div className="flex items-center justify-between mb-3">
+          <span className="text-xs text-gray-400">Clusters to compare (up to {MAX_COMPARED})</span>
+          <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={driftOnly}
+              onChange={(e) => setDriftOnly(e.target.checked)}
+              className="accent-cyan-500"
+            />
+            Only show differences
+          </label>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {clusters.map((c) => {
+            const active = ids.includes(c.id);
+            return (
+              <button
+                key={c.id}
+                onClick={() => toggle(c.id)}
+                disabled={!active && ids.length >= MAX_COMPARED}
+                className={`text-sm px-3 py-1.5 rounded-lg border transition-colors disabled:opacity-40 ${
+                  active ? 'bg-cyan-500/10 border-cyan-500/40 text-cyan-400' : 'border-white/10 text-gray-400 hover:text-white'
+                }`}
+              >
+                {c.name}
+                {c.environment && <span className="text-xs text-gray-500 ml-1.5">{environmentLabel(c.environment)}</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {compared.length < 2 ? (
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+          <GitCompare className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+          <p className="text-gray-400 text-sm">Pick at least 2 clusters</p>
+        </div>
+      ) : (
+        <>
+          <div className={`flex items-center gap-3 text-sm rounded-lg px-4 py-3 border ${
+            drift > 0 ? 'bg-yellow-500/10 border-yellow-500/20 text-yellow-300' : 'bg-emerald-500/10 border-emerald-500/20 text-emerald-300'
+          }`}>
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {fetching
+              ? 'Loading cluster data...'
+              : drift > 0
+                ? `${drift} ${drift === 1 ? 'difference' : 'differences'} between these clusters`
+                : 'No drift between these clusters'}
+          </div>
+
+          {sections.map((section) => (
+            <SectionTable key={section.id} section={section} clusters={compared} driftOnly={driftOnly} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
+
+function SectionTable({ section, clusters, driftOnly }: { section: ComparisonSection; clusters: Cluster[]; driftOnly: boolean }) {
+  const rows = driftOnly ? section.rows.filter((r) => r.drift) : section.rows;
+  if (rows.length === 0 && driftOnly) return null;
+
+  return (
+    <div className="bg-surface-800 border border-white/5 rounded-xl overflow-x-auto">
+      <div className="px-5 pt-5 pb-3">
+        <h2 className="font-semibold">{section.title}</h2>
+        <p className="text-xs text-gray-500 mt-0.5">{section.description}</p>
+      </div>
+      <table className="w-full">
+        <thead>
+          <tr className="border-b border-white/5">
+            <th className="text-left text-xs text-gray-400 font-medium px-5 py-3 w-64" />
+            {clusters.map((c) => (
+              <th key={c.id} className="text-left text-xs text-gray-400 font-medium px-5 py-3">
+                {c.name}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.length === 0 ? (
+            <tr>
+              <td colSpan={clusters.length + 1} className="px-5 py-6 text-center text-sm text-gray-500">Nothing to compare</td>
+            </tr>
+          ) : rows.map((row) => (
+            <tr
+              key={row.key}
+              className={`border-b border-white/5 last:border-0 ${row.drift ? 'bg-yellow-500/5' : ''}`}
+            >
+              <td className={`px-5 py-2.5 text-sm border-l-2 ${row.drift ? 'border-l-yellow-400 text-yellow-300' : 'border-l-transparent text-gray-300'}`}>
+                <span className="break-all">{row.label}</span>
+              </td>
+              {row.values.map((value, i) => (
+                <td key={clusters[i].id} className="px-5 py-2.5 text-sm">
+                  {value === null ? (
+                    <span className="text-gray-600">—</span>
+                  ) : (
+                    <span className={value === 'absent' ? 'text-gray-500 italic' : ''}>{value}</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,23 +1,18 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { DollarSign, TrendingDown, AlertTriangle, Zap } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
-import { api } from '../lib/api';
 import type { CostReport } from '../lib/api';
+import { useCosts } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
 
 const PIE_COLORS = ['#22d3ee', '#a855f7', '#f97316', '#ef4444', '#34d399', '#fbbf24', '#60a5fa', '#f472b6'];
 
 export default function Costs() {
   const { id } = useParams<{ id: string }>();
-  const [data, setData] = useState<CostReport | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { data, loading, error, refetch } = useCosts(id);
   const [tab, setTab] = useState<'overview' | 'pods' | 'namespaces'>('overview');
 
-  useEffect(() => {
-    if (!id) return;
-    api.getCosts(id).then(setData).catch(() => null).finally(() => setLoading(false));
-  }, [id]);
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -26,6 +21,10 @@ export default function Costs() {
     );
   }
 
+  if (error && !data) {
+    return <ErrorPanel error={error} title="Couldn't load cost analysis" onRetry={refetch} />;
+  }
+
   if (!data) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
@@ -133,7 +132,7 @@ function OverviewTab({ data }: { data: CostReport }) {
       </div>
 
       {/* Recommendations */}
-      {data.recommendations && data.recommendations.length > 0 && (
+      {data.recommendations.length > 0 && (
         <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
           <h4 className="text-sm font-medium text-gray-400 mb-3 flex items-center gap-2">
             <AlertTriangle className="w-4 h-4 text-yellow-400" />
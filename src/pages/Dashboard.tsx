@@ -1,22 +1,28 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Server, Shield, Activity, AlertTriangle, Plus } from 'lucide-react';
-import { api } from '../lib/api';
-import type { Cluster } from '../lib/api';
+import { LineChart, Line } from 'recharts';
+import { Server, Shield, Activity, AlertTriangle, Plus, HeartPulse, Search, ArrowUp, ArrowDown } from 'lucide-react';
+import type { ClusterEnvironment } from '../lib/api';
+import { DEFAULT_VIEW, environments, filterClusters } from '../lib/clusters';
+import { DEFAULT_FLEET_SORT, fleetRow, needsAttention, sortFleet } from '../lib/fleet';
+import type { FleetRow, FleetSort, FleetSortKey } from '../lib/fleet';
+import { agentHealth, formatAge, isUnhealthy } from '../lib/health';
+import { useClusters, useFleet } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useNow } from '../hooks/useNow';
+import { useOpenCluster } from '../hooks/useOpenCluster';
+import ErrorPanel from '../components/ErrorPanel';
+import HealthBadge from '../components/HealthBadge';
 
 export default function Dashboard() {
-  const [clusters, setClusters] = useState<Cluster[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: clusters = [], loading, error, refetch } = useClusters();
+  const { can } = useAuth();
+  const now = useNow();
 
-  useEffect(() => {
-    api.getClusters()
-      .then(setClusters)
-      .catch(() => {})
-      .finally(() => setLoading(false));
-  }, []);
-
-  const activeClusters = clusters.filter(c => c.status === 'connected');
-  const pendingClusters = clusters.filter(c => c.status === 'pending');
+  const activeClusters = clusters.filter(c => agentHealth(c, now) === 'healthy');
+  const pendingClusters = clusters.filter(c => agentHealth(c, now) === 'pending');
+  const silentClusters = clusters.filter(c => isUnhealthy(agentHealth(c, now)));
+  const fleet = useFleet(clusters.map((c) => c.id));
 
   if (loading) {
     return (
@@ -26,6 +32,10 @@ export default function Dashboard() {
     );
   }
 
+  if (error && clusters.length === 0) {
+    return <ErrorPanel error={error} title="Couldn't load clusters" onRetry={refetch} />;
+  }
+
   return (
     <div>
       <div className="flex items-center justify-between mb-8">
@@ -33,15 +43,41 @@ export default function Dashboard() {
           <h1 className="text-2xl font-bold">Dashboard</h1>
           <p className="text-gray-400 mt-1">Overview of your Kubernetes infrastructure</p>
         </div>
-        <Link
-          to="/clusters/new"
-          className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm"
-        >
-          <Plus className="w-4 h-4" />
-          Add Cluster
-        </Link>
+        {can('cluster:create') && (
+          <Link
+            to="/clusters/new"
+            className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm"
+          >
+            <Plus className="w-4 h-4" />
+            Add Cluster
+          </Link>
+        )}
       </div>
 
+      {/* Agents that stopped reporting */}
+      {silentClusters.length > 0 && (
+        <div className="bg-red-500/10 border border-red-500/20 rounded-xl p-5 mb-8">
+          <h2 className="text-sm font-semibold text-red-300 flex items-center gap-2 mb-3">
+            <HeartPulse className="w-4 h-4 text-red-400" />
+            {silentClusters.length === 1 ? 'An agent has' : `${silentClusters.length} agents have`} stopped reporting
+          </h2>
+          <ul className="space-y-2">
+            {silentClusters.map((c) => (
+              <li key={c.id} className="flex items-center gap-3 text-sm">
+                <HealthBadge health={agentHealth(c, now)} />
+                <span className="font-medium">{c.name}</span>
+                <span className="text-gray-400">
+                  {c.last_seen_at ? `last report ${formatAge(now - Date.parse(c.last_seen_at))}` : 'no working agent'}
+                </span>
+                <Link to={`/clusters/${c.id}/settings`} className="ml-auto text-red-300 hover:text-red-200 font-medium">
+                  Check agent
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
         <StatCard
@@ -71,21 +107,23 @@ export default function Dashboard() {
         <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
           <Server className="w-12 h-12 text-gray-600 mx-auto mb-4" />
           <h3 className="text-lg font-semibold mb-2">No clusters yet</h3>
-          <p className="text-gray-400 text-sm mb-6">Add your first Kubernetes cluster to start monitoring</p>
-          <Link
-            to="/clusters/new"
-            className="inline-flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm"
-          >
-            <Plus className="w-4 h-4" />
-            Add Cluster
-          </Link>
+          {can('cluster:create') ? (
+            <>
+              <p className="text-gray-400 text-sm mb-6">Add your first Kubernetes cluster to start monitoring</p>
+              <Link
+                to="/clusters/new"
+                className="inline-flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm"
+              >
+                <Plus className="w-4 h-4" />
+                Add Cluster
+              </Link>
+            </>
+          ) : (
+            <p className="text-gray-400 text-sm">Ask an editor or admin to add a cluster to this organization</p>
+          )}
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {clusters.map((cluster) => (
-            <ClusterCard key={cluster.id} cluster={cluster} />
-          ))}
-        </div>
+        <FleetGrid rows={clusters.map((c, i) => fleetRow(c, fleet[i], now))} />
       )}
     </div>
   );
@@ -103,46 +141,153 @@ function StatCard({ icon, label, value }: { icon: React.ReactNode; label: string
   );
 }
 
-function ClusterCard({ cluster }: { cluster: Cluster }) {
-  const providerColors: Record<string, string> = {
-    eks: 'text-orange-400 bg-orange-400/10',
-    gke: 'text-blue-400 bg-blue-400/10',
-    aks: 'text-sky-400 bg-sky-400/10',
-    k3s: 'text-green-400 bg-green-400/10',
-    openshift: 'text-red-400 bg-red-400/10',
-    other: 'text-gray-400 bg-gray-400/10',
-  };
-
-  const statusColors: Record<string, string> = {
-    connected: 'text-emerald-400 bg-emerald-400/10',
-    pending: 'text-yellow-400 bg-yellow-400/10',
-    disconnected: 'text-red-400 bg-red-400/10',
-  };
-
-  const pc = providerColors[cluster.provider] || providerColors.other;
-  const sc = statusColors[cluster.status] || statusColors.pending;
+const selectClass = 'bg-surface-800 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-cyan-500 transition-colors';
+
+const columns: { key: FleetSortKey; label: string; align: 'left' | 'right' }[] = [
+  { key: 'name', label: 'Cluster', align: 'left' },
+  { key: 'score', label: 'Health', align: 'right' },
+  { key: 'nodes', label: 'Nodes', align: 'right' },
+  { key: 'pods', label: 'Pods', align: 'right' },
+  { key: 'securityScore', label: 'Security', align: 'right' },
+  { key: 'monthlyCost', label: 'Cost / mo', align: 'right' },
+  { key: 'criticalAlerts', label: 'Critical', align: 'right' },
+];
+
+const scoreColor = (score: number) => (score >= 70 ? 'text-emerald-400' : score >= 40 ? 'text-yellow-400' : 'text-red-400');
+
+function FleetGrid({ rows }: { rows: FleetRow[] }) {
+  const [search, setSearch] = useState('');
+  const [environment, setEnvironment] = useState<ClusterEnvironment | ''>('');
+  const [attentionOnly, setAttentionOnly] = useState(false);
+  const [sort, setSort] = useState<FleetSort>(DEFAULT_FLEET_SORT);
+
+  const matching = new Set(filterClusters(rows.map((r) => r.cluster), { ...DEFAULT_VIEW, search, environment }));
+  const visible = sortFleet(rows.filter((r) => matching.has(r.cluster) && (!attentionOnly || needsAttention(r))), sort);
+
+  // A new column starts with the worst clusters: low scores, high costs and alert counts
+  const sortBy = (key: FleetSortKey) => setSort((s) => (
+    s.key === key ? { key, desc: !s.desc } : { key, desc: key === 'monthlyCost' || key === 'criticalAlerts' || key === 'nodes' || key === 'pods' }
+  ));
 
   return (
-    <Link
-      to={`/clusters/${cluster.id}`}
-      className="bg-surface-800 border border-white/5 rounded-xl p-5 hover:border-cyan-500/30 transition-colors block"
-    >
-      <div className="flex items-center justify-between mb-3">
-        <h3 className="font-semibold truncate">{cluster.name}</h3>
-        <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${sc}`}>
-          {cluster.status}
-        </span>
+    <div>
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <h2 className="text-lg font-semibold mr-auto">Fleet</h2>
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search clusters"
+            className={`${selectClass} pl-9 w-56`}
+          />
+        </div>
+        <select
+          value={environment}
+          onChange={(e) => setEnvironment(e.target.value as ClusterEnvironment | '')}
+          className={selectClass}
+        >
+          <option value="">All environments</option>
+          {environments.map((env) => (
+            <option key={env.value} value={env.value}>{env.label}</option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={attentionOnly}
+            onChange={(e) => setAttentionOnly(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          Needs attention
+        </label>
+      </div>
+
+      <div className="bg-surface-800 border border-white/5 rounded-xl overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-white/5">
+              {columns.map((col) => (
+                <th key={col.key} className={`text-${col.align} text-xs text-gray-400 font-medium p-4`}>
+                  <button
+                    onClick={() => sortBy(col.key)}
+                    className={`inline-flex items-center gap-1 hover:text-white transition-colors ${sort.key === col.key ? 'text-white' : ''}`}
+                  >
+                    {col.label}
+                    {sort.key === col.key && (sort.desc ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+                  </button>
+                </th>
+              ))}
+              <th className="text-left text-xs text-gray-400 font-medium p-4">Utilization</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.length === 0 ? (
+              <tr>
+                <td colSpan={columns.length + 1} className="p-8 text-center text-sm text-gray-500">
+                  No clusters match these filters
+                </td>
+              </tr>
+            ) : visible.map((row) => (
+              <FleetGridRow key={row.cluster.id} row={row} />
+            ))}
+          </tbody>
+        </table>
       </div>
-      <div className="flex items-center gap-2">
-        <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${pc}`}>
+    </div>
+  );
+}
+
+function FleetGridRow({ row }: { row: FleetRow }) {
+  const { cluster } = row;
+  const openCluster = useOpenCluster();
+  const empty = <span className="text-gray-600">{row.loading ? '…' : '—'}</span>;
+
+  return (
+    <tr className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
+      <td className="p-4">
+        <div className="flex items-center gap-3">
+          <button onClick={() => openCluster(cluster.id)} className="font-medium text-left hover:text-cyan-400 transition-colors">
+            {cluster.name}
+          </button>
+          <HealthBadge health={row.agent} />
+        </div>
+        <p className="text-xs text-gray-500 mt-0.5">
           {cluster.provider.toUpperCase()}
-        </span>
-        {cluster.last_seen_at && (
-          <span className="text-xs text-gray-500">
-            Last seen: {new Date(cluster.last_seen_at).toLocaleString()}
-          </span>
+          {cluster.owner_team && ` · ${cluster.owner_team}`}
+        </p>
+      </td>
+      <td className="p-4 text-right text-sm font-semibold">
+        {row.score === null ? empty : <span className={scoreColor(row.score)}>{row.score}</span>}
+      </td>
+      <td className="p-4 text-right text-sm">{row.nodes ?? empty}</td>
+      <td className="p-4 text-right text-sm">{row.pods ?? empty}</td>
+      <td className="p-4 text-right text-sm">
+        {row.securityScore === null ? empty : <span className={scoreColor(row.securityScore)}>{row.securityScore}/100</span>}
+      </td>
+      <td className="p-4 text-right text-sm">{row.monthlyCost === null ? empty : `$${row.monthlyCost.toFixed(0)}`}</td>
+      <td className="p-4 text-right text-sm">
+        {row.criticalAlerts === null ? empty : (
+          <span className={row.criticalAlerts > 0 ? 'text-red-400 font-semibold' : 'text-gray-400'}>{row.criticalAlerts}</span>
         )}
-      </div>
-    </Link>
+      </td>
+      <td className="p-4">
+        <Sparkline points={row.utilization} />
+      </td>
+    </tr>
+  );
+}
+
+// CPU and memory utilization over the timeline, without axes
+function Sparkline({ points }: { points: FleetRow['utilization'] }) {
+  if (points.length < 2) return <span className="text-sm text-gray-600">—</span>;
+  const latest = points[points.length - 1];
+  return (
+    <div title={`CPU ${latest.cpu.toFixed(0)}% · Memory ${latest.mem.toFixed(0)}%`}>
+      <LineChart width={120} height={32} data={points}>
+        <Line type="monotone" dataKey="cpu" stroke="#22d3ee" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        <Line type="monotone" dataKey="mem" stroke="#a78bfa" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </LineChart>
+    </div>
   );
 }
@@ -1,19 +1,15 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { Activity, Plus, Minus, RefreshCw, ArrowRightLeft } from 'lucide-react';
-import { api } from '../lib/api';
-import type { EventStream } from '../lib/api';
+import { eventSearch, searchItems } from '../lib/search';
+import { useEvents } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
+import SearchBar from '../components/SearchBar';
 
 export default function Events() {
   const { id } = useParams<{ id: string }>();
-  const [data, setData] = useState<EventStream | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [filter, setFilter] = useState<string>('all');
-
-  useEffect(() => {
-    if (!id) return;
-    api.getEvents(id).then(setData).catch(() => null).finally(() => setLoading(false));
-  }, [id]);
+  const { data, loading, error, refetch } = useEvents(id);
+  const [query, setQuery] = useState('');
 
   if (loading) {
     return (
@@ -23,18 +19,22 @@ export default function Events() {
     );
   }
 
+  if (error && !data) {
+    return <ErrorPanel error={error} title="Couldn't load events" onRetry={refetch} />;
+  }
+
   if (!data || !data.events || data.events.length === 0) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
         <Activity className="w-12 h-12 text-gray-600 mx-auto mb-4" />
         <h3 className="text-lg font-semibold mb-2">No Events Yet</h3>
-        <p className="text-gray-400 text-sm">Events appear as your cluster changes between snapshots</p>
+        <p className="text-gray-400 text-sm">Events appear here live as your cluster changes</p>
       </div>
     );
   }
 
-  const events = data.events || [];
-  const filtered = filter === 'all' ? events : events.filter(e => e.type === filter);
+  const events = data.events;
+  const filtered = searchItems(events, query, eventSearch);
 
   const eventIcon = (type: string) => {
     switch (type) {
@@ -64,19 +64,14 @@ export default function Events() {
       </div>
 
       {/* Filter */}
-      <div className="flex flex-wrap gap-2">
-        {['all', 'pod_added', 'pod_removed', 'pod_restarted', 'status_changed'].map(f => (
-          <button
-            key={f}
-            onClick={() => setFilter(f)}
-            className={`px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${
-              filter === f ? 'bg-cyan-500/20 text-cyan-400' : 'bg-surface-800 text-gray-400 hover:text-white'
-            }`}
-          >
-            {f === 'all' ? 'All' : f.replace(/_/g, ' ')}
-          </button>
-        ))}
-      </div>
+      <SearchBar
+        value={query}
+        onChange={setQuery}
+        items={events}
+        schema={eventSearch}
+        placeholder="type:pod_restarted ns:payments severity:critical"
+        className="max-w-xl"
+      />
 
       {/* Event Stream */}
       <div className="bg-surface-800 border border-white/5 rounded-xl">
@@ -1,18 +1,11 @@
-import { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { Gauge, AlertCircle, Radio, Zap, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
-import { api } from '../lib/api';
-import type { GoldenSignals as GoldenSignalsType } from '../lib/api';
+import { useGoldenSignals } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
 
 export default function GoldenSignals() {
   const { id } = useParams<{ id: string }>();
-  const [data, setData] = useState<GoldenSignalsType | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (!id) return;
-    api.getGoldenSignals(id).then(setData).catch(() => null).finally(() => setLoading(false));
-  }, [id]);
+  const { data, loading, error, refetch } = useGoldenSignals(id);
 
   if (loading) {
     return (
@@ -22,6 +15,10 @@ export default function GoldenSignals() {
     );
   }
 
+  if (error && !data) {
+    return <ErrorPanel error={error} title="Couldn't load golden signals" onRetry={refetch} />;
+  }
+
   if (!data) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
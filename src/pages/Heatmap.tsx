@@ -1,18 +1,11 @@
-import { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { Flame, Server } from 'lucide-react';
-import { api } from '../lib/api';
-import type { HeatmapData } from '../lib/api';
+import { useHeatmap } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
 
 export default function Heatmap() {
   const { id } = useParams<{ id: string }>();
-  const [data, setData] = useState<HeatmapData | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (!id) return;
-    api.getHeatmap(id).then(setData).catch(() => null).finally(() => setLoading(false));
-  }, [id]);
+  const { data, loading, error, refetch } = useHeatmap(id);
 
   if (loading) {
     return (
@@ -22,6 +15,10 @@ export default function Heatmap() {
     );
   }
 
+  if (error && !data) {
+    return <ErrorPanel error={error} title="Couldn't load heatmap" onRetry={refetch} />;
+  }
+
   if (!data) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
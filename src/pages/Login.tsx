@@ -1,16 +1,23 @@
 import { useState } from 'react';
-import { Link, Navigate } from 'react-router-dom';
-import { Radar } from 'lucide-react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
+import { KeyRound, Radar } from 'lucide-react';
+import { DEMO_CREDENTIALS, isMockBackend } from '../lib/demo';
+import { errorMessage } from '../lib/errors';
+import { isSsoEnabled } from '../lib/oidc';
 import { useAuth } from '../hooks/useAuth';
 
 export default function Login() {
-  const { user, login } = useAuth();
+  const { user, login, loginWithSso } = useAuth();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
 
-  if (user) return <Navigate to="/" />;
+  if (user) return <Navigate to={returnTo} replace />;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -18,13 +25,25 @@ export default function Login() {
     setLoading(true);
     try {
       await login(email, password);
-    } catch (err: any) {
-      setError(err.message || 'Login failed');
+    } catch (err) {
+      setError(errorMessage(err, 'Login failed'));
     } finally {
       setLoading(false);
     }
   };
 
+  // Stays "loading" on success: the browser is leaving for the identity provider
+  const handleSso = async () => {
+    setError('');
+    setLoading(true);
+    try {
+      await loginWithSso(returnTo);
+    } catch (err) {
+      setError(errorMessage(err, 'Single sign-on failed'));
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center px-4">
       <div className="w-full max-w-md">
@@ -35,6 +54,12 @@ export default function Login() {
         </div>
 
         <form onSubmit={handleSubmit} className="bg-surface-800 border border-white/5 rounded-xl p-8 space-y-5">
+          {isMockBackend() && (
+            <div className="bg-cyan-500/10 border border-cyan-500/20 text-cyan-400 text-sm rounded-lg px-4 py-3">
+              Mock backend: sign in with <span className="font-mono">{DEMO_CREDENTIALS.email}</span> / <span className="font-mono">{DEMO_CREDENTIALS.password}</span>
+            </div>
+          )}
+
           {error && (
             <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3">
               {error}
@@ -73,12 +98,39 @@ export default function Login() {
             {loading ? 'Signing in...' : 'Sign In'}
           </button>
 
+          {isSsoEnabled() && (
+            <>
+              <div className="flex items-center gap-3 text-xs text-gray-500">
+                <div className="flex-1 border-t border-white/10" />
+                or
+                <div className="flex-1 border-t border-white/10" />
+              </div>
+              <button
+                type="button"
+                onClick={handleSso}
+                disabled={loading}
+                className="w-full flex items-center justify-center gap-2 bg-navy-900 border border-white/10 hover:border-cyan-500 py-3 rounded-lg text-sm font-semibold transition-colors disabled:opacity-50"
+              >
+                <KeyRound className="w-4 h-4" />
+                Sign in with SSO
+              </button>
+            </>
+          )}
+
           <p className="text-center text-sm text-gray-400">
             Don't have an account?{' '}
             <Link to="/register" className="text-cyan-400 hover:text-cyan-300">
               Sign up
             </Link>
           </p>
+
+          {/* Full page load so demo mode is picked up before the app starts */}
+          <p className="text-center text-sm text-gray-400">
+            Just looking?{' '}
+            <a href="/?demo=1" className="text-cyan-400 hover:text-cyan-300">
+              Explore the demo
+            </a>
+          </p>
         </form>
       </div>
     </div>
@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Users, UserPlus, Trash2, Copy, Check, Mail, X } from 'lucide-react';
+import type { Invite, Role } from '../lib/api';
+import { mutations } from '../lib/queries';
+import { errorMessage } from '../lib/errors';
+import { useInvites, useMembers } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import ErrorPanel from '../components/ErrorPanel';
+
+const roles: { value: Role; label: string }[] = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'admin', label: 'Admin' },
+];
+
+export default function Members() {
+  const { user, org, can, reloadUser } = useAuth();
+  const isAdmin = can('members:manage');
+  const { data: members = [], loading, error, refetch } = useMembers(org?.id);
+  // Pending invites are only visible to admins
+  const { data: invites = [] } = useInvites(isAdmin ? org?.id : undefined);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<Role>('viewer');
+  const [inviting, setInviting] = useState(false);
+  const [actionError, setActionError] = useState('');
+  const [created, setCreated] = useState<Invite | null>(null);
+
+  if (!org) {
+    return (
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+        <Users className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No organization</h3>
+        <p className="text-gray-400 text-sm">Your account isn't a member of an organization yet</p>
+      </div>
+    );
+  }
+
+  // Run a member action and surface its error; my own role or membership
+  // changing means what I'm allowed to do changes too
+  const run = async (action: () => Promise<unknown>, fallback: string, affectsMe = false) => {
+    setActionError('');
+    try {
+      await action();
+      if (affectsMe) await reloadUser();
+    } catch (err) {
+      setActionError(errorMessage(err, fallback));
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setInviting(true);
+    setCreated(null);
+    await run(async () => {
+      setCreated(await mutations.inviteMember(org.id, email, role));
+      setEmail('');
+    }, `Failed to invite ${email}`);
+    setInviting(false);
+  };
+
+  const handleRemove = (userId: string, memberEmail: string) => {
+    const self = userId === user?.id;
+    const question = self ? `Leave ${org.name}?` : `Remove ${memberEmail} from ${org.name}?`;
+    if (!confirm(question)) return;
+    run(() => mutations.removeMember(org.id, userId), `Failed to remove ${memberEmail}`, self);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error && members.length === 0) {
+    return <ErrorPanel error={error} title="Couldn't load members" onRetry={refetch} />;
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-2xl font-bold">Members</h1>
+        <p className="text-gray-400 mt-1">People with access to {org.name}</p>
+      </div>
+
+      {actionError && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-400 text-sm rounded-lg px-4 py-3 mb-6">
+          {actionError}
+        </div>
+      )}
+
+      {isAdmin && (
+        <form onSubmit={handleInvite} className="bg-surface-800 border border-white/5 rounded-xl p-6 mb-6">
+          <h2 className="text-sm font-semibold mb-4 flex items-center gap-2">
+            <UserPlus className="w-4 h-4 text-cyan-400" />
+            Invite a teammate
+          </h2>
+          <div className="flex gap-3">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+              placeholder="teammate@example.com"
+              className="flex-1 bg-navy-900 border border-white/10 rounded-lg px-4 py-2.5 text-sm focus:outline-none focus:border-cyan-500 transition-colors"
+            />
+            <select
+              value={role}
+              onChange={(e) => setRole(e.target.value as Role)}
+              className="bg-navy-900 border border-white/10 rounded-lg px-3 py-2.5 text-sm focus:outline-none focus:border-cyan-500 transition-colors"
+            >
+              {roles.map((r) => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={inviting}
+              className="bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm disabled:opacity-50"
+            >
+              {inviting ? 'Inviting...' : 'Send invite'}
+            </button>
+          </div>
+          {created?.token && <InviteLink email={created.email} token={created.token} />}
+        </form>
+      )}
+
+      <div className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden mb-6">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-white/5">
+              <th className="text-left text-xs text-gray-400 font-medium p-4">Email</th>
+              <th className="text-left text-xs text-gray-400 font-medium p-4">Role</th>
+              <th className="text-left text-xs text-gray-400 font-medium p-4">Joined</th>
+              {isAdmin && <th className="text-right text-xs text-gray-400 font-medium p-4">Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {members.map((member) => {
+              const self = member.user_id === user?.id;
+              return (
+                <tr key={member.user_id} className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
+                  <td className="p-4 text-sm font-medium">
+                    {member.email}
+                    {self && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </td>
+                  <td className="p-4">
+                    {isAdmin ? (
+                      <select
+                        value={member.role}
+                        onChange={(e) => run(
+                          () => mutations.updateMemberRole(org.id, member.user_id, e.target.value as Role),
+                          `Failed to change the role of ${member.email}`,
+                          self,
+                        )}
+                        className="bg-navy-900 border border-white/10 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-cyan-500 transition-colors"
+                      >
+                        {roles.map((r) => (
+                          <option key={r.value} value={r.value}>{r.label}</option>
+                        ))}
+                      </select>
+                    ) : (
+                      <RoleBadge role={member.role} />
+                    )}
+                  </td>
+                  <td className="p-4 text-sm text-gray-400">{new Date(member.joined_at).toLocaleDateString()}</td>
+                  {isAdmin && (
+                    <td className="p-4 text-right">
+                      <button
+                        onClick={() => handleRemove(member.user_id, member.email)}
+                        title={self ? 'Leave organization' : 'Remove member'}
+                        className="text-gray-500 hover:text-red-400 transition-colors p-1"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {isAdmin && invites.length > 0 && (
+        <div className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden">
+          <div className="p-4 border-b border-white/5 flex items-center gap-2">
+            <Mail className="w-4 h-4 text-gray-400" />
+            <h2 className="text-sm font-semibold">Pending invites</h2>
+          </div>
+          <table className="w-full">
+            <tbody>
+              {invites.map((invite) => (
+                <tr key={invite.id} className="border-b border-white/5 last:border-0">
+                  <td className="p-4 text-sm">{invite.email}</td>
+                  <td className="p-4"><RoleBadge role={invite.role} /></td>
+                  <td className="p-4 text-xs text-gray-500">
+                    Invited by {invite.invited_by} · expires {new Date(invite.expires_at).toLocaleDateString()}
+                  </td>
+                  <td className="p-4 text-right">
+                    <button
+                      onClick={() => run(() => mutations.revokeInvite(org.id, invite.id), `Failed to revoke the invite for ${invite.email}`)}
+                      title="Revoke invite"
+                      className="text-gray-500 hover:text-red-400 transition-colors p-1"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function RoleBadge({ role }: { role: Role }) {
+  const colors: Record<Role, string> = {
+    admin: 'text-purple-400 bg-purple-400/10',
+    editor: 'text-cyan-400 bg-cyan-400/10',
+    viewer: 'text-gray-400 bg-white/5',
+  };
+  return <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${colors[role]}`}>{role}</span>;
+}
+
+function InviteLink({ email, token }: { email: string; token: string }) {
+  const [copied, setCopied] = useState(false);
+  const url = `${window.location.origin}/invite/${token}`;
+
+  const copy = () => {
+    navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="mt-4 bg-navy-900 border border-white/10 rounded-lg p-3">
+      <p className="text-xs text-gray-400 mb-2">Invite sent to {email}. You can also share this link:</p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 text-xs text-cyan-400 truncate">{url}</code>
+        <button type="button" onClick={copy} className="text-gray-400 hover:text-white transition-colors p-1">
+          {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+        </button>
+      </div>
+    </div>
+  );
+}
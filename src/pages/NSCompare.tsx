@@ -1,37 +1,23 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useParams } from 'react-router-dom';
 import { GitCompare, Shield, AlertTriangle } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
-import { api } from '../lib/api';
-import type { NSCompareResponse, NamespaceProfile } from '../lib/api';
+import type { NamespaceProfile } from '../lib/api';
+import { useNSCompare } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
 
 export default function NSCompare() {
   const { id } = useParams<{ id: string }>();
-  const [namespaces, setNamespaces] = useState<string[]>([]);
-  const [ns1, setNs1] = useState('');
-  const [ns2, setNs2] = useState('');
-  const [data, setData] = useState<NSCompareResponse | null>(null);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (!id) return;
-    api.getNSCompare(id).then((res) => {
-      if ('namespaces' in res) {
-        setNamespaces(res.namespaces as string[]);
-        if (res.namespaces.length >= 2) {
-          setNs1((res.namespaces as string[])[0]);
-          setNs2((res.namespaces as string[])[1]);
-        }
-      }
-    }).catch(() => null).finally(() => setLoading(false));
-  }, [id]);
-
-  useEffect(() => {
-    if (!id || !ns1 || !ns2) return;
-    api.getNSCompare(id, ns1, ns2).then((res) => {
-      if ('ns1' in res) setData(res as NSCompareResponse);
-    }).catch(() => null);
-  }, [id, ns1, ns2]);
+  const list = useNSCompare(id);
+  const namespaces = list.data && 'namespaces' in list.data ? list.data.namespaces : [];
+  const [picked1, setNs1] = useState('');
+  const [picked2, setNs2] = useState('');
+  // Default to the first two namespaces until the user picks
+  const ns1 = picked1 || namespaces[0] || '';
+  const ns2 = picked2 || namespaces[1] || '';
+  const comparison = useNSCompare(ns1 && ns2 ? id : undefined, ns1, ns2);
+  const data = comparison.data && 'ns1' in comparison.data ? comparison.data : null;
+  const loading = list.loading;
 
   if (loading) {
     return (
@@ -41,6 +27,10 @@ export default function NSCompare() {
     );
   }
 
+  if (list.error && !list.data) {
+    return <ErrorPanel error={list.error} title="Couldn't load namespaces" onRetry={list.refetch} />;
+  }
+
   if (namespaces.length < 2) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
@@ -89,6 +79,10 @@ export default function NSCompare() {
         </div>
       </div>
 
+      {!!comparison.error && !data && (
+        <ErrorPanel error={comparison.error} title={`Couldn't compare ${ns1} and ${ns2}`} onRetry={comparison.refetch} />
+      )}
+
       {data && (
         <>
           {/* Chart */}
@@ -1,58 +1,50 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Copy, Check } from 'lucide-react';
-import { api } from '../lib/api';
-import type { Cluster } from '../lib/api';
-
-const providers = [
-  { value: 'eks', label: 'Amazon EKS', color: 'border-orange-400/30 hover:border-orange-400' },
-  { value: 'gke', label: 'Google GKE', color: 'border-blue-400/30 hover:border-blue-400' },
-  { value: 'aks', label: 'Azure AKS', color: 'border-sky-400/30 hover:border-sky-400' },
-  { value: 'k3s', label: 'K3s', color: 'border-green-400/30 hover:border-green-400' },
-  { value: 'openshift', label: 'OpenShift', color: 'border-red-400/30 hover:border-red-400' },
-  { value: 'other', label: 'Other', color: 'border-gray-400/30 hover:border-gray-400' },
-];
+import { ArrowLeft, Copy, Check, Info, CheckCircle2, AlertTriangle } from 'lucide-react';
+import type { CreatedCluster } from '../lib/api';
+import {
+  agentConfig, helmCommand, helmValues, installMethods, kubectlOneLiner, manifests, providerNotes, troubleshootingTips,
+} from '../lib/agentInstall';
+import type { InstallMethod } from '../lib/agentInstall';
+import { providerLabel, providers } from '../lib/clusters';
+import { mutations } from '../lib/queries';
+import { errorMessage } from '../lib/errors';
+import { useClusterById } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useCluster } from '../hooks/useCluster';
+import { useNow } from '../hooks/useNow';
+
+const steps = ['Details', 'Install agent', 'Connect'];
+
+const POLL_INTERVAL = 3_000;
+// How long a missing agent is normal before troubleshooting tips are offered
+const TIPS_AFTER = 2 * 60_000;
 
 export default function NewCluster() {
   const navigate = useNavigate();
+  const { org } = useAuth();
   const [step, setStep] = useState(1);
   const [name, setName] = useState('');
   const [provider, setProvider] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
-  const [cluster, setCluster] = useState<Cluster | null>(null);
-  const [copied, setCopied] = useState(false);
+  const [cluster, setCluster] = useState<CreatedCluster | null>(null);
 
   const handleCreate = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
     try {
-      const c = await api.createCluster(name, provider);
+      const c = await mutations.createCluster(name, provider, org?.id ?? null);
       setCluster(c);
       setStep(2);
-    } catch (err: any) {
-      setError(err.message || 'Failed to create cluster');
+    } catch (err) {
+      setError(errorMessage(err, 'Failed to create cluster'));
     } finally {
       setLoading(false);
     }
   };
 
-  const copyApiKey = () => {
-    if (cluster) {
-      navigator.clipboard.writeText(cluster.api_key);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    }
-  };
-
-  const helmCommand = cluster
-    ? `helm install infradar-agent ./deploy/helm \\
-  --set config.apiUrl=YOUR_API_URL \\
-  --set config.apiKey=${cluster.api_key} \\
-  --namespace infradar --create-namespace`
-    : '';
-
   return (
     <div className="max-w-2xl mx-auto">
       <button
@@ -63,7 +55,9 @@ export default function NewCluster() {
         Back to Clusters
       </button>
 
-      {step === 1 ? (
+      <StepIndicator current={step} />
+
+      {step === 1 || !cluster ? (
         <>
           <h1 className="text-2xl font-bold mb-2">Add Cluster</h1>
           <p className="text-gray-400 mb-8">Connect a Kubernetes cluster to Infradar</p>
@@ -116,45 +110,210 @@ export default function NewCluster() {
             </button>
           </form>
         </>
+      ) : step === 2 ? (
+        <InstallStep cluster={cluster} onContinue={() => setStep(3)} />
       ) : (
-        <>
-          <h1 className="text-2xl font-bold mb-2">Cluster Created</h1>
-          <p className="text-gray-400 mb-8">Install the Infradar agent on your cluster</p>
-
-          <div className="space-y-6">
-            <div className="bg-surface-800 border border-white/5 rounded-xl p-6">
-              <div className="flex items-center justify-between mb-3">
-                <h3 className="font-semibold">API Key</h3>
-                <button
-                  onClick={copyApiKey}
-                  className="flex items-center gap-2 text-sm text-cyan-400 hover:text-cyan-300 transition-colors"
-                >
-                  {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                  {copied ? 'Copied!' : 'Copy'}
-                </button>
-              </div>
-              <p className="text-xs text-yellow-400 mb-3">Save this key now. You won't be able to see it again.</p>
-              <code className="block bg-navy-950 rounded-lg p-4 text-sm text-cyan-400 break-all font-mono">
-                {cluster?.api_key}
-              </code>
-            </div>
+        <ConnectStep cluster={cluster} onBack={() => setStep(2)} />
+      )}
+    </div>
+  );
+}
 
-            <div className="bg-surface-800 border border-white/5 rounded-xl p-6">
-              <h3 className="font-semibold mb-3">Install Agent via Helm</h3>
-              <pre className="bg-navy-950 rounded-lg p-4 text-sm text-gray-300 overflow-x-auto font-mono">
-                {helmCommand}
-              </pre>
-            </div>
+function StepIndicator({ current }: { current: number }) {
+  return (
+    <ol className="flex items-center gap-3 mb-8">
+      {steps.map((label, i) => {
+        const n = i + 1;
+        const done = n < current;
+        return (
+          <li key={label} className="flex items-center gap-3 flex-1 last:flex-none">
+            <span className={`flex items-center gap-2 text-sm whitespace-nowrap ${n === current ? 'text-cyan-400 font-medium' : done ? 'text-gray-300' : 'text-gray-500'}`}>
+              <span
+                className={`w-6 h-6 rounded-full flex items-center justify-center text-xs font-semibold ${
+                  n === current ? 'bg-cyan-500 text-navy-950' : done ? 'bg-cyan-500/20 text-cyan-400' : 'bg-white/5 text-gray-500'
+                }`}
+              >
+                {done ? <Check className="w-3.5 h-3.5" /> : n}
+              </span>
+              {label}
+            </span>
+            {n < steps.length && <span className="h-px flex-1 bg-white/10" />}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
 
-            <button
-              onClick={() => navigate(`/clusters/${cluster?.id}`)}
-              className="w-full bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold py-3 rounded-lg transition-colors"
-            >
-              Go to Cluster
-            </button>
+function InstallStep({ cluster, onContinue }: { cluster: CreatedCluster; onContinue: () => void }) {
+  const [method, setMethod] = useState<InstallMethod>('helm');
+  const config = agentConfig(cluster.name, cluster.api_key);
+  const notes = providerNotes[cluster.provider] ?? [];
+
+  return (
+    <>
+      <h1 className="text-2xl font-bold mb-2">Install the agent</h1>
+      <p className="text-gray-400 mb-8">
+        <span className="text-white">{cluster.name}</span> was created. Install the Infradar agent on it to start receiving data.
+      </p>
+
+      <div className="space-y-6">
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-6">
+          <h3 className="font-semibold mb-3">API Key</h3>
+          <p className="text-xs text-yellow-400 mb-3">
+            Save this key now. Afterwards it's masked, and revealing it in the cluster settings is recorded in the audit log.
+          </p>
+          <CodeBlock code={cluster.api_key} />
+        </div>
+
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-6 space-y-4">
+          <div className="flex items-center bg-navy-900 rounded-lg p-1 w-fit">
+            {installMethods.map((m) => (
+              <button
+                key={m.value}
+                onClick={() => setMethod(m.value)}
+                className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                  method === m.value ? 'bg-surface-700 text-white shadow-sm' : 'text-gray-500 hover:text-gray-300'
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
           </div>
-        </>
+
+          {method === 'helm' ? (
+            <>
+              <p className="text-sm text-gray-400">Save these values as <code className="text-gray-300">infradar-values.yaml</code>:</p>
+              <CodeBlock code={helmValues(config)} />
+              <p className="text-sm text-gray-400">Then install the chart:</p>
+              <CodeBlock code={helmCommand()} />
+            </>
+          ) : method === 'manifests' ? (
+            <>
+              <p className="text-sm text-gray-400">
+                Save as <code className="text-gray-300">infradar-agent.yaml</code> and run{' '}
+                <code className="text-gray-300">kubectl apply -f infradar-agent.yaml</code>. The agent only gets read access.
+              </p>
+              <CodeBlock code={manifests(config)} scroll />
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-gray-400">Applies the same manifests, rendered by the API for this key:</p>
+              <CodeBlock code={kubectlOneLiner(config)} />
+            </>
+          )}
+        </div>
+
+        {notes.length > 0 && (
+          <div className="bg-cyan-500/5 border border-cyan-500/20 rounded-xl p-6">
+            <h3 className="font-semibold mb-3 flex items-center gap-2">
+              <Info className="w-4 h-4 text-cyan-400" />
+              Notes for {providerLabel(cluster.provider)}
+            </h3>
+            <ul className="space-y-2 text-sm text-gray-300 list-disc pl-5">
+              {notes.map((note) => <li key={note}>{note}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <button
+          onClick={onContinue}
+          className="w-full bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold py-3 rounded-lg transition-colors"
+        >
+          I've installed the agent
+        </button>
+      </div>
+    </>
+  );
+}
+
+function ConnectStep({ cluster, onBack }: { cluster: CreatedCluster; onBack: () => void }) {
+  const navigate = useNavigate();
+  const { selectCluster } = useCluster();
+  const [startedAt] = useState(Date.now);
+  const now = useNow(1_000);
+  const [polling, setPolling] = useState(true);
+  const { data: current, error } = useClusterById(cluster.id, { refetchInterval: polling ? POLL_INTERVAL : undefined });
+  // The first snapshot has arrived once the agent has been seen
+  const connected = current?.status === 'connected' && !!current.last_seen_at;
+  if (connected && polling) setPolling(false);
+
+  const elapsed = Math.max(0, Math.floor((now - startedAt) / 1000));
+  const clock = `${Math.floor(elapsed / 60)}:${String(elapsed % 60).padStart(2, '0')}`;
+
+  const openCluster = () => {
+    selectCluster(cluster.id);
+    navigate('/details');
+  };
+
+  if (connected) {
+    return (
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+        <CheckCircle2 className="w-12 h-12 text-emerald-400 mx-auto mb-4" />
+        <h1 className="text-2xl font-bold mb-2">{cluster.name} is connected</h1>
+        <p className="text-gray-400 text-sm mb-6">
+          The agent reported at {new Date(current.last_seen_at!).toLocaleTimeString()}. Analyses fill in as snapshots arrive.
+        </p>
+        <button
+          onClick={openCluster}
+          className="bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-6 py-3 rounded-lg transition-colors"
+        >
+          Go to Cluster
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+        <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
+        <h1 className="text-2xl font-bold mb-2">Waiting for the first snapshot…</h1>
+        <p className="text-gray-400 text-sm">
+          Checking every few seconds whether the agent on <span className="text-white">{cluster.name}</span> has reported ({clock})
+        </p>
+        {!!error && <p className="text-xs text-red-400 mt-3">{errorMessage(error, 'Checking the cluster failed')}; still retrying</p>}
+        <button onClick={onBack} className="text-sm text-cyan-400 hover:text-cyan-300 transition-colors mt-6">
+          Back to install instructions
+        </button>
+      </div>
+
+      {now - startedAt >= TIPS_AFTER && (
+        <div className="bg-yellow-500/5 border border-yellow-500/20 rounded-xl p-6">
+          <h3 className="font-semibold mb-3 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 text-yellow-400" />
+            Still pending? Things to check
+          </h3>
+          <ul className="space-y-2 text-sm text-gray-300 list-disc pl-5">
+            {troubleshootingTips.map((tip) => <li key={tip}>{tip}</li>)}
+          </ul>
+        </div>
       )}
     </div>
   );
 }
+
+function CodeBlock({ code, scroll = false }: { code: string; scroll?: boolean }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="relative">
+      <pre className={`bg-navy-950 rounded-lg p-4 pr-12 text-sm text-gray-300 overflow-x-auto font-mono whitespace-pre ${scroll ? 'max-h-80' : ''}`}>
+        {code}
+      </pre>
+      <button
+        onClick={copy}
+        title="Copy"
+        className="absolute top-3 right-3 text-gray-400 hover:text-white transition-colors p-1"
+      >
+        {copied ? <Check className="w-4 h-4 text-emerald-400" /> : <Copy className="w-4 h-4" />}
+      </button>
+    </div>
+  );
+}
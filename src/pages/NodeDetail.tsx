@@ -0,0 +1,258 @@
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Boxes, Crosshair, Cpu, DollarSign, HardDrive, HeartPulse, Play, Server } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from 'recharts';
+import { findNode, namespaceShares, nodeCost, nodeResources, podsOn, readinessHistory } from '../lib/nodes';
+import type { NodeResource } from '../lib/nodes';
+import { podPath } from '../lib/pods';
+import { useCosts, useSnapshotOrLatest, useSnapshots } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useOpenCluster } from '../hooks/useOpenCluster';
+import ErrorPanel from '../components/ErrorPanel';
+
+const NS_COLORS = ['#22d3ee', '#a855f7', '#f97316', '#ef4444', '#34d399', '#fbbf24', '#60a5fa', '#f472b6'];
+
+const fmtCpu = (m: number) => (m >= 1000 ? `${(m / 1000).toFixed(1)} cores` : `${Math.round(m)}m`);
+const fmtMem = (b: number) => (b >= 1073741824 ? `${(b / 1073741824).toFixed(1)}Gi` : `${Math.round(b / 1048576)}Mi`);
+
+const tooltipStyle = {
+  contentStyle: { background: '#151829', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff' },
+};
+
+// One node as of the snapshot being viewed: what it offers, what its pods
+// take, and shortcuts into the what-if tools for losing it
+export default function NodeDetail() {
+  const { id, name = '' } = useParams<{ id: string; name: string }>();
+  const [params] = useSearchParams();
+  const snapshotId = params.get('snapshot') ?? undefined;
+  const openCluster = useOpenCluster();
+  const { data: snapshot, loading, error, refetch } = useSnapshotOrLatest(id, snapshotId);
+  const { data: history = [] } = useSnapshots(id);
+  const { data: costs } = useCosts(id);
+  const { can } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error && !snapshot) {
+    return <ErrorPanel error={error} title="Couldn't load this node" onRetry={refetch} />;
+  }
+
+  const node = snapshot ? findNode(snapshot, name) : null;
+  if (!snapshot || !node) {
+    return (
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+        <Server className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">Node Not Found</h3>
+        <p className="text-gray-400 text-sm mb-4">{name} is not in the snapshot being viewed</p>
+        <Link to={`/details/${id}/snapshots`} className="text-sm text-cyan-400 hover:text-cyan-300 font-medium transition-colors">
+          Snapshot History
+        </Link>
+      </div>
+    );
+  }
+
+  const pods = podsOn(snapshot, node.name).sort((a, b) => a.namespace.localeCompare(b.namespace) || a.name.localeCompare(b.name));
+  const resources = nodeResources(node, pods);
+  const shares = namespaceShares(pods);
+  const cost = nodeCost(costs, node.name);
+  const readiness = readinessHistory(history, node.name, snapshot.created_at);
+
+  // Share of allocatable each namespace requests, one stacked bar per resource
+  const breakdown = [
+    { resource: 'CPU', ...Object.fromEntries(shares.map((s) => [s.namespace, percentOf(s.cpu, node.cpu_allocatable_millis)])) },
+    { resource: 'Memory', ...Object.fromEntries(shares.map((s) => [s.namespace, percentOf(s.mem, node.mem_allocatable_bytes)])) },
+  ];
+
+  return (
+    <div>
+      <button onClick={() => id && openCluster(id)} className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors mb-6 text-sm w-fit">
+        <ArrowLeft className="w-4 h-4" />
+        Back to Details
+      </button>
+
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold font-mono">{node.name}</h1>
+          <p className="text-sm text-gray-400 mt-1 flex items-center gap-2">
+            {node.ready ? (
+              <span className="text-xs font-medium px-2.5 py-1 rounded-full text-emerald-400 bg-emerald-400/10">Ready</span>
+            ) : (
+              <span className="text-xs font-medium px-2.5 py-1 rounded-full text-red-400 bg-red-400/10">NotReady</span>
+            )}
+            {[node.instance_type, node.region, node.kubelet_version].filter(Boolean).join(' · ')}
+            <span className="text-gray-500">as of {new Date(snapshot.created_at).toLocaleString()}</span>
+          </p>
+        </div>
+        <div className="flex flex-col items-end gap-1">
+          <div className="flex items-center gap-2">
+            {can('simulation:run') && (
+              <Link
+                to={`/details/${id}/simulator?type=remove_node&node=${encodeURIComponent(node.name)}`}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border border-white/10 text-gray-300 hover:text-white hover:border-white/20 transition-colors"
+              >
+                <Play className="w-4 h-4" />
+                Simulate removing
+              </Link>
+            )}
+            <Link
+              to={`/security/${id}/blast-radius?type=node&target=${encodeURIComponent(node.name)}`}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm border border-white/10 text-gray-300 hover:text-white hover:border-white/20 transition-colors"
+            >
+              <Crosshair className="w-4 h-4" />
+              Blast radius
+            </Link>
+          </div>
+          {snapshotId && <span className="text-xs text-gray-500">These analyse the current cluster, not this snapshot</span>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-5 lg:col-span-2 space-y-5">
+          <h2 className="text-sm font-medium text-gray-400">Capacity, Allocatable, Requested & Used</h2>
+          <ResourceBars icon={<Cpu className="w-4 h-4 text-cyan-400" />} label="CPU" resource={resources.cpu} format={fmtCpu} />
+          <ResourceBars icon={<HardDrive className="w-4 h-4 text-purple-400" />} label="Memory" resource={resources.mem} format={fmtMem} />
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
+            <h2 className="text-sm font-medium text-gray-400 flex items-center gap-2 mb-3">
+              <DollarSign className="w-4 h-4" />
+              Cost
+            </h2>
+            {cost ? (
+              <>
+                <div className="text-3xl font-bold">${cost.hourly_cost.toFixed(3)}<span className="text-base text-gray-400 font-normal">/h</span></div>
+                <div className="text-xs text-gray-500 mt-1">${cost.daily_cost.toFixed(2)}/day · ${cost.monthly_cost.toFixed(0)}/month</div>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">No cost analysis for this snapshot</p>
+            )}
+          </div>
+
+          <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
+            <h2 className="text-sm font-medium text-gray-400 flex items-center gap-2 mb-3">
+              <HeartPulse className="w-4 h-4" />
+              Readiness
+            </h2>
+            {readiness.length === 0 ? (
+              <p className="text-sm text-gray-500">No snapshots yet</p>
+            ) : (
+              <>
+                <div className="flex gap-0.5">
+                  {readiness.map((r) => (
+                    <div
+                      key={r.snapshotId}
+                      title={`${new Date(r.at).toLocaleString()}: ${r.ready === null ? 'not in cluster' : r.ready ? 'Ready' : 'NotReady'}`}
+                      className={`flex-1 h-6 rounded-sm ${r.ready === null ? 'bg-white/5' : r.ready ? 'bg-emerald-400/70' : 'bg-red-400/70'}`}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 mt-1.5">
+                  <span>{new Date(readiness[0].at).toLocaleTimeString()}</span>
+                  <span>{new Date(readiness[readiness.length - 1].at).toLocaleTimeString()}</span>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Pods by namespace */}
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-5 mb-6">
+        <h2 className="text-sm font-medium text-gray-400 flex items-center gap-2 mb-4">
+          <Boxes className="w-4 h-4" />
+          Requests by Namespace (% of allocatable)
+        </h2>
+        {shares.length === 0 ? (
+          <p className="text-sm text-gray-500">No pods on this node</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={140}>
+            <BarChart data={breakdown} layout="vertical" margin={{ left: 10 }}>
+              <XAxis type="number" domain={[0, 100]} tick={{ fill: '#9ca3af', fontSize: 11 }} axisLine={false} tickLine={false} unit="%" />
+              <YAxis type="category" dataKey="resource" tick={{ fill: '#9ca3af', fontSize: 12 }} axisLine={false} tickLine={false} width={70} />
+              <Tooltip {...tooltipStyle} cursor={{ fill: 'rgba(255,255,255,0.03)' }} formatter={(v: number | undefined) => `${v ?? 0}%`} />
+              {shares.map((s, i) => (
+                <Bar key={s.namespace} dataKey={s.namespace} stackId="requests" fill={NS_COLORS[i % NS_COLORS.length]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      <div className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-white/5">
+              <th className="text-left text-xs text-gray-400 font-medium p-4">Pod ({pods.length})</th>
+              <th className="text-left text-xs text-gray-400 font-medium p-4">Namespace</th>
+              <th className="text-left text-xs text-gray-400 font-medium p-4">Status</th>
+              <th className="text-right text-xs text-gray-400 font-medium p-4">CPU Request</th>
+              <th className="text-right text-xs text-gray-400 font-medium p-4">Memory Request</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pods.map((pod) => (
+              <tr key={`${pod.namespace}/${pod.name}`} className="border-b border-white/5 last:border-0">
+                <td className="p-4 font-medium text-sm">
+                  <Link to={podPath(snapshot.cluster_id, pod, snapshotId)} className="hover:text-cyan-400 transition-colors">
+                    {pod.name}
+                  </Link>
+                </td>
+                <td className="p-4 text-sm text-gray-400">{pod.namespace}</td>
+                <td className={`p-4 text-sm ${pod.status === 'Running' ? 'text-gray-300' : 'text-red-400'}`}>{pod.status}</td>
+                <td className="p-4 text-sm text-right text-gray-300">{fmtCpu(pod.cpu_request_millis)}</td>
+                <td className="p-4 text-sm text-right text-gray-300">{fmtMem(pod.mem_request_bytes)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function percentOf(value: number, total: number) {
+  return total > 0 ? Math.round((value / total) * 1000) / 10 : 0;
+}
+
+// Each figure as a bar against the node's capacity
+function ResourceBars({ icon, label, resource, format }: {
+  icon: React.ReactNode;
+  label: string;
+  resource: NodeResource;
+  format: (n: number) => string;
+}) {
+  const rows = [
+    { label: 'Capacity', value: resource.capacity, color: 'bg-gray-500' },
+    { label: 'Allocatable', value: resource.allocatable, color: 'bg-sky-400' },
+    { label: 'Requested', value: resource.requested, color: resource.requested > resource.allocatable ? 'bg-red-400' : 'bg-cyan-400' },
+    { label: 'Used', value: resource.used, color: 'bg-emerald-400' },
+  ];
+  return (
+    <div>
+      <div className="flex items-center gap-2 text-sm font-medium mb-2">
+        {icon}
+        {label}
+        <span className="text-xs text-gray-500 font-normal ml-auto">
+          {percentOf(resource.requested, resource.allocatable)}% of allocatable requested
+        </span>
+      </div>
+      <div className="space-y-1.5">
+        {rows.map((r) => (
+          <div key={r.label} className="flex items-center gap-3 text-xs">
+            <span className="w-20 text-gray-400">{r.label}</span>
+            <div className="flex-1 h-2 bg-surface-900 rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${r.color}`} style={{ width: `${Math.min(100, percentOf(r.value, resource.capacity))}%` }} />
+            </div>
+            <span className="w-20 text-right text-gray-300">{format(r.value)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,344 @@
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Box, CheckCircle, XCircle, Cpu, DollarSign, HeartPulse, Network, RotateCcw, Shield } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import type { PodInfo } from '../lib/api';
+import { nodePath } from '../lib/nodes';
+import { findPod, meshPosition, podCost, podFindings, restartHistory } from '../lib/pods';
+import { useCosts, useSecurityReport, useServiceMesh, useSnapshotOrLatest, useSnapshots } from '../hooks/useApi';
+import { useOpenCluster } from '../hooks/useOpenCluster';
+import ErrorPanel from '../components/ErrorPanel';
+
+const MI = 1024 * 1024;
+
+const severityBadge: Record<string, string> = {
+  critical: 'text-red-400 bg-red-400/10',
+  high: 'text-orange-400 bg-orange-400/10',
+  medium: 'text-yellow-400 bg-yellow-400/10',
+  low: 'text-blue-400 bg-blue-400/10',
+};
+
+const statusBadge = (status: string) => (
+  status === 'Running' ? 'text-emerald-400 bg-emerald-400/10' :
+  status === 'Pending' ? 'text-yellow-400 bg-yellow-400/10' :
+  'text-red-400 bg-red-400/10'
+);
+
+// `good` is the value a hardened pod has
+const podFlags: { label: string; pick: (p: PodInfo) => boolean; good: boolean }[] = [
+  { label: 'Liveness probe', pick: (p) => p.has_liveness_probe, good: true },
+  { label: 'Readiness probe', pick: (p) => p.has_readiness_probe, good: true },
+  { label: 'Security context', pick: (p) => p.has_security_context, good: true },
+  { label: 'Read-only root filesystem', pick: (p) => p.read_only_root_fs, good: true },
+  { label: 'Runs as root', pick: (p) => p.run_as_root, good: false },
+  { label: 'Privileged', pick: (p) => p.privileged, good: false },
+  { label: 'Host network', pick: (p) => p.host_network, good: false },
+  { label: 'Host PID', pick: (p) => p.host_pid, good: false },
+];
+
+const tooltipStyle = {
+  contentStyle: { background: '#151829', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff' },
+};
+
+// One pod as of the snapshot being viewed, with everything the analyses say about it
+export default function PodDetail() {
+  const { id, namespace = '', name = '' } = useParams<{ id: string; namespace: string; name: string }>();
+  const [params] = useSearchParams();
+  const snapshotId = params.get('snapshot') ?? undefined;
+  const openCluster = useOpenCluster();
+  const { data: snapshot, loading, error, refetch } = useSnapshotOrLatest(id, snapshotId);
+  const { data: history = [] } = useSnapshots(id);
+  const { data: security } = useSecurityReport(id);
+  const { data: costs } = useCosts(id);
+  const { data: mesh } = useServiceMesh(id);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error && !snapshot) {
+    return <ErrorPanel error={error} title="Couldn't load this pod" onRetry={refetch} />;
+  }
+
+  const pod = snapshot ? findPod(snapshot, namespace, name) : null;
+  if (!snapshot || !pod) {
+    return (
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+        <Box className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">Pod Not Found</h3>
+        <p className="text-gray-400 text-sm mb-4">
+          {namespace}/{name} is not in the snapshot being viewed. It may have been replaced or not scheduled yet.
+        </p>
+        <Link to={`/details/${id}/snapshots`} className="text-sm text-cyan-400 hover:text-cyan-300 font-medium transition-colors">
+          Snapshot History
+        </Link>
+      </div>
+    );
+  }
+
+  const findings = podFindings(security, pod);
+  const cost = podCost(costs, pod);
+  const position = meshPosition(mesh, pod);
+  const restarts = restartHistory(history, pod, snapshot.created_at).map((p) => ({
+    ...p,
+    time: new Date(p.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+  }));
+
+  return (
+    <div>
+      <button onClick={() => id && openCluster(id)} className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors mb-6 text-sm w-fit">
+        <ArrowLeft className="w-4 h-4" />
+        Back to Details
+      </button>
+
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold font-mono">{pod.name}</h1>
+          <p className="text-sm text-gray-400 mt-1 flex items-center gap-2">
+            {pod.namespace}
+            <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${statusBadge(pod.status)}`}>{pod.status}</span>
+            <span className="text-gray-500">as of {new Date(snapshot.created_at).toLocaleString()}</span>
+          </p>
+        </div>
+        {position?.app && (
+          <Link
+            to={`/details/${id}/app-mesh?app=${encodeURIComponent(position.app.id)}`}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-cyan-400 hover:text-cyan-300 transition-colors"
+          >
+            <Network className="w-4 h-4" />
+            Open in App Mesh
+          </Link>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Resources */}
+        <Card icon={<Cpu className="w-4 h-4" />} title="Requests, Limits & Usage" className="lg:col-span-2">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-white/5">
+                <th className="text-left text-xs text-gray-400 font-medium py-2" />
+                <th className="text-right text-xs text-gray-400 font-medium py-2">Request</th>
+                <th className="text-right text-xs text-gray-400 font-medium py-2">Limit</th>
+                <th className="text-right text-xs text-gray-400 font-medium py-2">Usage</th>
+                <th className="text-left text-xs text-gray-400 font-medium py-2 pl-6 w-1/3">Of request</th>
+              </tr>
+            </thead>
+            <tbody>
+              <ResourceRow
+                label="CPU"
+                request={pod.cpu_request_millis}
+                limit={pod.cpu_limit_millis}
+                usage={pod.cpu_usage_millis}
+                format={(m) => `${m}m`}
+              />
+              <ResourceRow
+                label="Memory"
+                request={pod.mem_request_bytes}
+                limit={pod.mem_limit_bytes}
+                usage={pod.mem_usage_bytes}
+                format={(b) => `${Math.round(b / MI)}Mi`}
+              />
+            </tbody>
+          </table>
+        </Card>
+
+        {/* Image and placement */}
+        <Card icon={<Box className="w-4 h-4" />} title="Image & Placement">
+          <dl className="space-y-3 text-sm">
+            <Field label="Image">
+              <span className="font-mono break-all">{pod.image || '-'}:{pod.image_tag || '-'}</span>
+              {pod.image_tag === 'latest' && (
+                <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full text-yellow-400 bg-yellow-400/10">mutable tag</span>
+              )}
+            </Field>
+            <Field label="Node">
+              {pod.node_name ? (
+                <Link to={nodePath(snapshot.cluster_id, pod.node_name, snapshotId)} className="font-mono text-cyan-400 hover:text-cyan-300 transition-colors">
+                  {pod.node_name}
+                </Link>
+              ) : (
+                <span className="text-gray-500">Not scheduled</span>
+              )}
+            </Field>
+            <Field label="Restarts">
+              <span className={pod.restart_count > 3 ? 'text-red-400' : ''}>{pod.restart_count}</span>
+            </Field>
+          </dl>
+        </Card>
+
+        {/* Probes and security context */}
+        <Card icon={<HeartPulse className="w-4 h-4" />} title="Probes & Security Context">
+          <ul className="space-y-2">
+            {podFlags.map(({ label, pick, good }) => {
+              const value = pick(pod);
+              const ok = value === good;
+              return (
+                <li key={label} className="flex items-center justify-between text-sm">
+                  <span className="text-gray-300">{label}</span>
+                  <span className={`flex items-center gap-1.5 ${ok ? 'text-emerald-400' : 'text-red-400'}`}>
+                    {ok ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                    {value ? 'Yes' : 'No'}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </Card>
+
+        {/* Restart history */}
+        <Card icon={<RotateCcw className="w-4 h-4" />} title="Restarts Across Snapshots" className="lg:col-span-2">
+          {restarts.length < 2 ? (
+            <p className="text-sm text-gray-500">Not enough snapshots yet</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={200}>
+              <LineChart data={restarts}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(255,255,255,0.05)" />
+                <XAxis dataKey="time" tick={{ fill: '#9ca3af', fontSize: 11 }} axisLine={false} tickLine={false} />
+                <YAxis allowDecimals={false} tick={{ fill: '#9ca3af', fontSize: 11 }} axisLine={false} tickLine={false} />
+                <Tooltip {...tooltipStyle} formatter={(v: number | undefined, _name, item) => [v ?? 'not running', item.payload.status ?? 'Restarts']} />
+                <Line type="stepAfter" dataKey="restarts" name="Restarts" stroke="#f97316" strokeWidth={2} dot={false} connectNulls={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </Card>
+
+        {/* Cost */}
+        <Card icon={<DollarSign className="w-4 h-4" />} title="Cost">
+          {!cost ? (
+            <p className="text-sm text-gray-500">No cost analysis for this snapshot</p>
+          ) : (
+            <>
+              <div className="text-3xl font-bold">${cost.monthly.toFixed(2)}</div>
+              <div className="text-xs text-gray-500 mt-1 mb-4">
+                per month · ${cost.hourly.toFixed(4)}/h{cost.detail ? '' : ' · estimated from requests'}
+              </div>
+              {cost.detail && (
+                <dl className="space-y-3 text-sm">
+                  <Field label="Efficiency">{cost.detail.efficiency_percent}%</Field>
+                  <Field label="Wasted">
+                    <span className="text-red-400">${cost.detail.wasted_cost_monthly.toFixed(2)}/mo</span>
+                  </Field>
+                  {cost.detail.savings_if_rightsized > 0 && (
+                    <Field label="Right-size to">
+                      {cost.detail.rightsize_cpu_millis}m CPU, {Math.round(cost.detail.rightsize_mem_bytes / MI)}Mi memory
+                      <span className="text-emerald-400"> (saves ${cost.detail.savings_if_rightsized.toFixed(2)}/mo)</span>
+                    </Field>
+                  )}
+                </dl>
+              )}
+            </>
+          )}
+        </Card>
+
+        {/* Security findings */}
+        <Card icon={<Shield className="w-4 h-4" />} title={`Security Findings (${findings.length})`} className="lg:col-span-2">
+          {findings.length === 0 ? (
+            <p className="text-sm text-gray-500">No findings for this pod</p>
+          ) : (
+            <div className="divide-y divide-white/5">
+              {findings.map((f) => (
+                <div key={f.rule_id} className="py-3 first:pt-0 last:pb-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${severityBadge[f.severity] || ''}`}>{f.severity}</span>
+                    <span className="text-sm font-medium">{f.rule_name}</span>
+                  </div>
+                  <p className="text-sm text-gray-400">{f.message}</p>
+                  <p className="text-xs text-gray-500 mt-1">{f.remediation}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {/* Place in the resource tree */}
+        <Card icon={<Network className="w-4 h-4" />} title="Resource Tree">
+          {!position ? (
+            <p className="text-sm text-gray-500">Not in the app mesh</p>
+          ) : (
+            <>
+              <ol className="space-y-1.5 mb-4">
+                {position.path.map((n, i) => (
+                  <li key={n.id} className="flex items-center gap-2 text-sm" style={{ paddingLeft: i * 12 }}>
+                    <span className="text-xs text-gray-500 w-20 shrink-0">{n.kind}</span>
+                    <span className={`truncate ${i === position.path.length - 1 ? 'text-cyan-400 font-medium' : 'text-gray-300'}`}>{n.name}</span>
+                  </li>
+                ))}
+              </ol>
+              {position.related.length > 0 && (
+                <>
+                  <div className="text-xs text-gray-500 mb-1.5">Connected to</div>
+                  <ul className="space-y-1.5">
+                    {position.related.map((n) => (
+                      <li key={n.id} className="flex items-center gap-2 text-sm">
+                        <span className="text-xs text-gray-500 w-20 shrink-0">{n.kind}</span>
+                        <span className="truncate text-gray-300">{n.name}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function Card({ icon, title, className = '', children }: { icon: React.ReactNode; title: string; className?: string; children: React.ReactNode }) {
+  return (
+    <div className={`bg-surface-800 border border-white/5 rounded-xl p-5 ${className}`}>
+      <h2 className="text-sm font-medium text-gray-400 flex items-center gap-2 mb-4">
+        {icon}
+        {title}
+      </h2>
+      {children}
+    </div>
+  );
+}
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <dt className="text-xs text-gray-500">{label}</dt>
+      <dd className="mt-0.5">{children}</dd>
+    </div>
+  );
+}
+
+function ResourceRow({ label, request, limit, usage, format }: {
+  label: string;
+  request: number;
+  limit: number;
+  usage: number;
+  format: (n: number) => string;
+}) {
+  const percent = request > 0 ? Math.round((usage / request) * 100) : null;
+  return (
+    <tr className="border-b border-white/5 last:border-0">
+      <td className="py-3 text-sm font-medium">{label}</td>
+      <td className="py-3 text-sm text-right text-gray-300">{request ? format(request) : 'none'}</td>
+      <td className="py-3 text-sm text-right text-gray-300">{limit ? format(limit) : 'none'}</td>
+      <td className="py-3 text-sm text-right text-gray-300">{format(usage)}</td>
+      <td className="py-3 pl-6">
+        {percent === null ? (
+          <span className="text-xs text-yellow-400">No request set</span>
+        ) : (
+          <div className="flex items-center gap-2">
+            <div className="flex-1 h-2 bg-surface-900 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${percent > 100 ? 'bg-red-400' : percent < 30 ? 'bg-yellow-400' : 'bg-emerald-400'}`}
+                style={{ width: `${Math.min(100, percent)}%` }}
+              />
+            </div>
+            <span className="text-xs text-gray-400 w-10 text-right">{percent}%</span>
+          </div>
+        )}
+      </td>
+    </tr>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState } from 'react';
-import { Link, Navigate } from 'react-router-dom';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import type { Location } from 'react-router-dom';
 import { Radar } from 'lucide-react';
+import { errorMessage } from '../lib/errors';
 import { useAuth } from '../hooks/useAuth';
 
 export default function Register() {
@@ -9,8 +11,11 @@ export default function Register() {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const location = useLocation();
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}${from.hash}` : '/';
 
-  if (user) return <Navigate to="/" />;
+  if (user) return <Navigate to={returnTo} replace />;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,8 +27,8 @@ export default function Register() {
     setLoading(true);
     try {
       await register(email, password);
-    } catch (err: any) {
-      setError(err.message || 'Registration failed');
+    } catch (err) {
+      setError(errorMessage(err, 'Registration failed'));
     } finally {
       setLoading(false);
     }
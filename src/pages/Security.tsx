@@ -1,28 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import {
   Shield, AlertTriangle, CheckCircle, XCircle,
   ChevronDown, ChevronUp, Target, Crosshair, GitCompare, Server,
 } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
-import { api } from '../lib/api';
-import type { SecurityReport } from '../lib/api';
 import { useCluster } from '../hooks/useCluster';
+import { findingSearch, searchItems } from '../lib/search';
+import { useSecurityReport } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
+import SearchBar from '../components/SearchBar';
 
 export default function Security() {
   const { selected } = useCluster();
-  const [security, setSecurity] = useState<SecurityReport | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { data: security, loading, error, refetch } = useSecurityReport(selected?.id);
   const [expandedRule, setExpandedRule] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!selected) { setLoading(false); return; }
-    setLoading(true);
-    api.getSecurityReport(selected.id).catch(() => null).then((sec) => {
-      setSecurity(sec);
-      setLoading(false);
-    });
-  }, [selected?.id]);
+  const [query, setQuery] = useState('');
 
   if (!selected) {
     return (
@@ -43,6 +36,7 @@ export default function Security() {
   }
 
   const id = selected.id;
+  const findings = security ? searchItems(security.report.findings, query, findingSearch) : [];
 
   const severityColors: Record<string, string> = {
     critical: '#ef4444',
@@ -84,7 +78,9 @@ export default function Security() {
         ))}
       </div>
 
-      {!security ? (
+      {error && !security ? (
+        <ErrorPanel error={error} title="Couldn't load the security report" onRetry={refetch} />
+      ) : !security ? (
         <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
           <Shield className="w-12 h-12 text-gray-600 mx-auto mb-4" />
           <h3 className="text-lg font-semibold mb-2">No security scan yet</h3>
@@ -112,12 +108,12 @@ export default function Security() {
             <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
               <h3 className="text-sm font-medium text-gray-400 mb-4">By Severity</h3>
               <ResponsiveContainer width="100%" height={200}>
-                <BarChart data={Object.entries(security.report.by_severity || {}).map(([name, value]) => ({ name, value }))}>
+                <BarChart data={Object.entries(security.report.by_severity).map(([name, value]) => ({ name, value }))}>
                   <XAxis dataKey="name" tick={{ fill: '#9ca3af', fontSize: 12 }} axisLine={false} tickLine={false} />
                   <YAxis tick={{ fill: '#9ca3af', fontSize: 12 }} axisLine={false} tickLine={false} />
                   <Tooltip contentStyle={{ background: '#151829', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff' }} />
                   <Bar dataKey="value" radius={[4, 4, 0, 0]}>
-                    {Object.entries(security.report.by_severity || {}).map(([name]) => (
+                    {Object.entries(security.report.by_severity).map(([name]) => (
                       <Cell key={name} fill={severityColors[name] || '#6b7280'} />
                     ))}
                   </Bar>
@@ -127,7 +123,7 @@ export default function Security() {
             <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
               <h3 className="text-sm font-medium text-gray-400 mb-4">By Category</h3>
               <ResponsiveContainer width="100%" height={200}>
-                <BarChart data={Object.entries(security.report.by_category || {}).map(([name, value]) => ({ name: name.replace(/_/g, ' '), value }))} layout="vertical">
+                <BarChart data={Object.entries(security.report.by_category).map(([name, value]) => ({ name: name.replace(/_/g, ' '), value }))} layout="vertical">
                   <XAxis type="number" tick={{ fill: '#9ca3af', fontSize: 12 }} axisLine={false} tickLine={false} />
                   <YAxis type="category" dataKey="name" tick={{ fill: '#9ca3af', fontSize: 12 }} axisLine={false} tickLine={false} width={120} />
                   <Tooltip contentStyle={{ background: '#151829', border: '1px solid rgba(255,255,255,0.1)', borderRadius: 8, color: '#fff' }} />
@@ -139,12 +135,21 @@ export default function Security() {
 
           {/* Findings list */}
           <div className="bg-surface-800 border border-white/5 rounded-xl">
-            <div className="p-5 border-b border-white/5">
-              <h3 className="font-semibold">Findings ({security.report.findings?.length || 0})</h3>
+            <div className="p-5 border-b border-white/5 flex items-start gap-4">
+              <h3 className="font-semibold py-2">Findings ({findings.length})</h3>
+              <SearchBar
+                value={query}
+                onChange={setQuery}
+                items={security.report.findings}
+                schema={findingSearch}
+                placeholder="severity:critical category:pod_security ns:payments"
+                className="flex-1 max-w-xl ml-auto"
+              />
             </div>
             <div className="divide-y divide-white/5">
-              {(security.report.findings || []).map((f, i) => {
-                const key = `${f.rule_id}-${i}`;
+              {findings.map((f) => {
+                // Stays on the same finding while the search narrows the list
+                const key = JSON.stringify([f.rule_id, f.namespace, f.resource]);
                 const expanded = expandedRule === key;
                 return (
                   <div key={key}>
@@ -1,33 +1,43 @@
-import { useState, useEffect } from 'react';
-import { useParams } from 'react-router-dom';
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { Play, AlertTriangle, CheckCircle, Server, Cpu, HardDrive } from 'lucide-react';
 import { api } from '../lib/api';
-import type { SimulationResult, Snapshot } from '../lib/api';
+import type { SimulationResult } from '../lib/api';
+import { useLatestSnapshot } from '../hooks/useApi';
+import { useAsOf } from '../hooks/useAsOf';
+import { useAuth } from '../hooks/useAuth';
+import ErrorPanel from '../components/ErrorPanel';
 
 export default function Simulator() {
   const { id } = useParams<{ id: string }>();
-  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
-  const [simType, setSimType] = useState('remove_node');
-  const [nodeName, setNodeName] = useState('');
+  const { data: snapshot } = useLatestSnapshot(id);
+  const at = useAsOf(id);
+  const { can } = useAuth();
+  // Other pages link here with a scenario filled in, e.g. ?type=remove_node&node=<name>
+  const [params] = useSearchParams();
+  const [simType, setSimType] = useState(params.get('type') ?? 'remove_node');
+  const [pickedNode, setNodeName] = useState(params.get('node') ?? '');
+  const nodeName = pickedNode || snapshot?.nodes[0]?.name || '';
   const [removeNodes, setRemoveNodes] = useState(1);
   const [namespace, setNamespace] = useState('');
   const [cpuMultiplier, setCpuMultiplier] = useState(0.5);
   const [memMultiplier, setMemMultiplier] = useState(0.5);
   const [result, setResult] = useState<SimulationResult | null>(null);
   const [running, setRunning] = useState(false);
+  const [error, setError] = useState<unknown>(null);
+  const inFlight = useRef<AbortController | null>(null);
 
-  useEffect(() => {
-    if (!id) return;
-    api.getLatestSnapshot(id).then((s) => {
-      setSnapshot(s);
-      if (s.nodes.length > 0) setNodeName(s.nodes[0].name);
-    }).catch(() => null);
-  }, [id]);
+  // Drop a running simulation when the cluster changes or the page unmounts
+  useEffect(() => () => inFlight.current?.abort(), [id]);
 
   const runSimulation = async () => {
     if (!id) return;
+    inFlight.current?.abort();
+    const controller = new AbortController();
+    inFlight.current = controller;
     setRunning(true);
     setResult(null);
+    setError(null);
     try {
       let params: Record<string, unknown> = {};
       switch (simType) {
@@ -35,12 +45,12 @@ export default function Simulator() {
         case 'scale_down': params = { remove_nodes: removeNodes }; break;
         case 'change_limits': params = { namespace, cpu_multiplier: cpuMultiplier, mem_multiplier: memMultiplier }; break;
       }
-      const res = await api.simulate(id, simType, params);
+      const res = await api.simulate(id, simType, params, at, { signal: controller.signal });
       setResult(res);
-    } catch {
-      // ignore
+    } catch (err) {
+      if (!controller.signal.aborted) setError(err);
     }
-    setRunning(false);
+    if (inFlight.current === controller) setRunning(false);
   };
 
   const impactColor = (impact: string) => {
@@ -171,23 +181,29 @@ export default function Simulator() {
               )}
             </div>
 
-            <button
-              onClick={runSimulation}
-              disabled={running}
-              className="mt-4 w-full bg-cyan-500 hover:bg-cyan-600 disabled:bg-cyan-500/50 text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
-            >
-              {running ? (
-                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              ) : (
-                <Play className="w-4 h-4" />
-              )}
-              Run Simulation
-            </button>
+            {can('simulation:run') ? (
+              <button
+                onClick={runSimulation}
+                disabled={running}
+                className="mt-4 w-full bg-cyan-500 hover:bg-cyan-600 disabled:bg-cyan-500/50 text-white font-medium py-2.5 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+              >
+                {running ? (
+                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <Play className="w-4 h-4" />
+                )}
+                Run Simulation
+              </button>
+            ) : (
+              <p className="mt-4 text-xs text-gray-500 text-center">Viewers can't run simulations. Ask an editor or admin.</p>
+            )}
           </div>
         </div>
       </div>
 
       {/* Results */}
+      {error !== null && <ErrorPanel error={error} title="Simulation failed" onRetry={runSimulation} />}
+
       {result && (
         <div className="space-y-4">
           {/* Impact Banner */}
@@ -227,7 +243,7 @@ export default function Simulator() {
           )}
 
           {/* Warnings */}
-          {result.warnings && result.warnings.length > 0 && (
+          {result.warnings.length > 0 && (
             <div className="bg-surface-800 border border-white/5 rounded-xl p-5">
               <h4 className="text-sm font-medium text-yellow-400 mb-3 flex items-center gap-2">
                 <AlertTriangle className="w-4 h-4" /> Warnings
@@ -241,7 +257,7 @@ export default function Simulator() {
           )}
 
           {/* Evicted Pods */}
-          {result.evicted_pods && result.evicted_pods.length > 0 && (
+          {result.evicted_pods.length > 0 && (
             <div className="bg-surface-800 border border-white/5 rounded-xl">
               <div className="p-5 border-b border-white/5">
                 <h4 className="font-semibold flex items-center gap-2">
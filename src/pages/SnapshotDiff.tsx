@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, GitCompare, Search, Server, X } from 'lucide-react';
+import type { NodeInfo } from '../lib/api';
+import { changeKinds, diffSnapshots, filterDiff } from '../lib/snapshotDiff';
+import type { ChangeKind, FieldChange, PodDiff } from '../lib/snapshotDiff';
+import { useSnapshot } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
+
+const selectClass = 'bg-surface-800 border border-white/10 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-cyan-500 transition-colors';
+
+const kindColors: Record<ChangeKind, string> = {
+  added: 'text-emerald-400 bg-emerald-400/10',
+  removed: 'text-red-400 bg-red-400/10',
+  rescheduled: 'text-sky-400 bg-sky-400/10',
+  image: 'text-purple-400 bg-purple-400/10',
+  resources: 'text-orange-400 bg-orange-400/10',
+  restarts: 'text-yellow-400 bg-yellow-400/10',
+  security: 'text-rose-400 bg-rose-400/10',
+};
+
+// Changes from the older of the two snapshots to the newer, whichever order
+// ?from and ?to come in
+export default function SnapshotDiff() {
+  const { id } = useParams<{ id: string }>();
+  const [params] = useSearchParams();
+  const fromId = params.get('from');
+  const toId = params.get('to');
+  const a = useSnapshot(id, fromId ?? undefined);
+  const b = useSnapshot(id, toId ?? undefined);
+  const [kinds, setKinds] = useState<ChangeKind[]>([]);
+  const [namespace, setNamespace] = useState('');
+  const [search, setSearch] = useState('');
+
+  if (!fromId || !toId) {
+    return (
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+        <GitCompare className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">Pick Two Snapshots</h3>
+        <p className="text-gray-400 text-sm mb-4">Choose the two snapshots to compare from the snapshot history.</p>
+        <Link to={`/details/${id}/snapshots`} className="text-sm text-cyan-400 hover:text-cyan-300 font-medium transition-colors">
+          Snapshot History
+        </Link>
+      </div>
+    );
+  }
+
+  if (a.loading || b.loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!a.data || !b.data) {
+    const failed = a.data ? b : a;
+    return <ErrorPanel error={failed.error} title="Couldn't load both snapshots" onRetry={failed.refetch} />;
+  }
+
+  const [from, to] = a.data.created_at <= b.data.created_at ? [a.data, b.data] : [b.data, a.data];
+  const diff = diffSnapshots(from, to);
+  const visible = filterDiff(diff.namespaces, { kinds, namespace, search });
+  const total = diff.namespaces.reduce((n, ns) => n + ns.pods.length, 0);
+  const toggleKind = (kind: ChangeKind) => setKinds((k) => (k.includes(kind) ? k.filter((x) => x !== kind) : [...k, kind]));
+
+  return (
+    <div>
+      <Link to={`/details/${id}/snapshots`} className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors mb-6 text-sm w-fit">
+        <ArrowLeft className="w-4 h-4" />
+        Snapshot History
+      </Link>
+
+      {/* Summary */}
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">What Changed</h1>
+        <p className="text-gray-400 mt-1 flex items-center gap-2 flex-wrap">
+          <Link to={`/details/${id}/snapshots/${from.id}`} className="hover:text-white transition-colors">
+            {new Date(from.created_at).toLocaleString()}
+          </Link>
+          <ArrowRight className="w-4 h-4" />
+          <Link to={`/details/${id}/snapshots/${to.id}`} className="hover:text-white transition-colors">
+            {new Date(to.created_at).toLocaleString()}
+          </Link>
+        </p>
+      </div>
+
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-5 mb-6">
+        <div className="flex items-center gap-6 mb-4 text-sm">
+          <span><span className="text-2xl font-bold">{total}</span> <span className="text-gray-400">pods changed</span></span>
+          <span className="text-gray-400">
+            Nodes <span className="text-emerald-400 font-semibold">+{diff.nodesAdded.length}</span>{' '}
+            <span className="text-red-400 font-semibold">−{diff.nodesRemoved.length}</span>
+          </span>
+          <span className="text-gray-400">
+            Pods {from.summary.pod_count} → {to.summary.pod_count}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {changeKinds.map((k) => (
+            <button
+              key={k.value}
+              onClick={() => toggleKind(k.value)}
+              disabled={diff.counts[k.value] === 0}
+              className={`text-xs font-medium px-2.5 py-1 rounded-full transition-colors disabled:opacity-40 ${
+                kinds.includes(k.value) ? `${kindColors[k.value]} ring-1 ring-current` : kinds.length > 0 ? 'text-gray-400 bg-white/5' : kindColors[k.value]
+              }`}
+            >
+              {k.label} {diff.counts[k.value]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {(diff.nodesAdded.length > 0 || diff.nodesRemoved.length > 0) && (
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-5 mb-6 space-y-2">
+          <h2 className="text-sm font-medium text-gray-400 flex items-center gap-2 mb-2">
+            <Server className="w-4 h-4" />
+            Nodes
+          </h2>
+          {diff.nodesAdded.map((n) => <NodeChange key={n.name} node={n} kind="added" />)}
+          {diff.nodesRemoved.map((n) => <NodeChange key={n.name} node={n} kind="removed" />)}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <div className="relative">
+          <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search pods"
+            className={`${selectClass} pl-9 w-56`}
+          />
+        </div>
+        <select value={namespace} onChange={(e) => setNamespace(e.target.value)} className={selectClass}>
+          <option value="">All namespaces</option>
+          {diff.namespaces.map((ns) => (
+            <option key={ns.namespace} value={ns.namespace}>{ns.namespace} ({ns.pods.length})</option>
+          ))}
+        </select>
+        {(kinds.length > 0 || namespace || search) && (
+          <button
+            onClick={() => {
+              setKinds([]);
+              setNamespace('');
+              setSearch('');
+            }}
+            className="flex items-center gap-1 text-sm text-gray-400 hover:text-white px-2 py-2 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+        )}
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+          <GitCompare className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+          <h3 className="text-lg font-semibold mb-2">{total === 0 ? 'No Pod Changes' : 'No Matching Changes'}</h3>
+          <p className="text-gray-400 text-sm">
+            {total === 0 ? 'Every pod is the same in both snapshots' : 'Nothing matches these filters'}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {visible.map((ns) => (
+            <div key={ns.namespace} className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden">
+              <div className="px-5 py-3 border-b border-white/5 text-sm font-semibold">
+                {ns.namespace} <span className="text-gray-500 font-normal">({ns.pods.length})</span>
+              </div>
+              <div className="divide-y divide-white/5">
+                {ns.pods.map((pod) => <PodChanges key={pod.name} pod={pod} />)}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function NodeChange({ node, kind }: { node: NodeInfo; kind: 'added' | 'removed' }) {
+  return (
+    <div className="flex items-center gap-3 text-sm">
+      <span className={`text-xs font-medium px-2.5 py-1 rounded-full ${kindColors[kind]}`}>{kind}</span>
+      <span className="font-mono">{node.name}</span>
+      <span className="text-gray-500">{node.instance_type} · {node.kubelet_version}</span>
+    </div>
+  );
+}
+
+function PodChanges({ pod }: { pod: PodDiff }) {
+  return (
+    <div className="px-5 py-3">
+      <div className="text-sm font-medium font-mono mb-1.5">{pod.name}</div>
+      <div className="space-y-1">
+        {pod.changes.map((c) => <ChangeLine key={`${c.kind}:${c.field}`} change={c} />)}
+      </div>
+    </div>
+  );
+}
+
+function ChangeLine({ change }: { change: FieldChange }) {
+  const { kind, field, from, to, worse } = change;
+  return (
+    <div className="flex items-center gap-2 text-xs flex-wrap">
+      <span className={`font-medium px-2 py-0.5 rounded-full ${kindColors[kind]}`}>{kind}</span>
+      {kind === 'added' || kind === 'removed' ? (
+        <span className="text-gray-400 font-mono">{from || to}</span>
+      ) : (
+        <>
+          <span className="text-gray-400">{field}</span>
+          <span className="font-mono text-gray-500 line-through">{from}</span>
+          <ArrowRight className="w-3 h-3 text-gray-500" />
+          <span className={`font-mono ${worse === undefined ? 'text-gray-200' : worse ? 'text-red-400' : 'text-emerald-400'}`}>{to}</span>
+        </>
+      )}
+    </div>
+  );
+}
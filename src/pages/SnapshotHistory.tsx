@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { History, ArrowLeft, GitCompare } from 'lucide-react';
+import { formatAge } from '../lib/health';
+import { useSnapshots } from '../hooks/useApi';
+import { useNow } from '../hooks/useNow';
+import { useOpenCluster } from '../hooks/useOpenCluster';
+import ErrorPanel from '../components/ErrorPanel';
+
+export default function SnapshotHistory() {
+  const { id } = useParams<{ id: string }>();
+  const openCluster = useOpenCluster();
+  const { data = [], loading, error, refetch } = useSnapshots(id);
+  const now = useNow();
+  // Two snapshots picked for a diff
+  const [picked, setPicked] = useState<string[]>([]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error && data.length === 0) {
+    return <ErrorPanel error={error} title="Couldn't load snapshots" onRetry={refetch} />;
+  }
+
+  if (data.length === 0) {
+    return (
+      <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">
+        <History className="w-12 h-12 text-gray-600 mx-auto mb-4" />
+        <h3 className="text-lg font-semibold mb-2">No Snapshots Yet</h3>
+        <p className="text-gray-400 text-sm">Snapshots appear here as the agent reports</p>
+      </div>
+    );
+  }
+
+  // Newest first, as the API returns them
+  const snapshots = [...data].sort((a, b) => b.created_at.localeCompare(a.created_at));
+  const pick = (snapshotId: string) => setPicked((p) => (
+    p.includes(snapshotId) ? p.filter((s) => s !== snapshotId) : [...p, snapshotId].slice(-2)
+  ));
+
+  return (
+    <div>
+      <button onClick={() => id && openCluster(id)} className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors mb-6 text-sm w-fit">
+        <ArrowLeft className="w-4 h-4" />
+        Back to Details
+      </button>
+
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Snapshot History</h1>
+          <p className="text-gray-400 mt-1">
+            {snapshots.length} snapshots. Open one to see the cluster as it was then, or pick two to see what changed.
+          </p>
+        </div>
+        {picked.length === 2 ? (
+          <Link
+            to={`/details/${id}/snapshots/diff?from=${picked[0]}&to=${picked[1]}`}
+            className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-navy-950 font-semibold px-5 py-2.5 rounded-lg transition-colors text-sm"
+          >
+            <GitCompare className="w-4 h-4" />
+            Compare
+          </Link>
+        ) : (
+          <span className="flex items-center gap-2 text-sm text-gray-500">
+            <GitCompare className="w-4 h-4" />
+            Pick {2 - picked.length} more to compare
+          </span>
+        )}
+      </div>
+
+      <div className="bg-surface-800 border border-white/5 rounded-xl overflow-hidden">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-white/5">
+              <th className="p-4 w-10" />
+              <th className="text-left text-xs text-gray-400 font-medium p-4">Taken</th>
+              <th className="text-right text-xs text-gray-400 font-medium p-4">Nodes</th>
+              <th className="text-right text-xs text-gray-400 font-medium p-4">Pods</th>
+              <th className="text-right text-xs text-gray-400 font-medium p-4">CPU</th>
+              <th className="text-right text-xs text-gray-400 font-medium p-4">Memory</th>
+              <th className="text-right text-xs text-gray-400 font-medium p-4">Root Pods</th>
+              <th className="text-right text-xs text-gray-400 font-medium p-4">:latest Pods</th>
+              <th className="p-4" />
+            </tr>
+          </thead>
+          <tbody>
+            {snapshots.map((snapshot, i) => {
+              const s = snapshot.summary;
+              return (
+                <tr key={snapshot.id} className="border-b border-white/5 last:border-0 hover:bg-white/[0.02]">
+                  <td className="p-4">
+                    <input
+                      type="checkbox"
+                      checked={picked.includes(snapshot.id)}
+                      onChange={() => pick(snapshot.id)}
+                      aria-label="Pick for comparison"
+                      className="accent-cyan-500"
+                    />
+                  </td>
+                  <td className="p-4">
+                    <div className="text-sm font-medium flex items-center gap-2">
+                      {new Date(snapshot.created_at).toLocaleString()}
+                      {i === 0 && (
+                        <span className="text-xs font-medium px-2.5 py-1 rounded-full text-cyan-400 bg-cyan-400/10">Latest</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-0.5">{formatAge(now - Date.parse(snapshot.created_at))}</div>
+                  </td>
+                  <td className="p-4 text-right text-sm text-gray-300">{s.node_count}</td>
+                  <td className="p-4 text-right text-sm text-gray-300">{s.pod_count}</td>
+                  <td className="p-4 text-right text-sm text-gray-300">{s.cpu_utilization_percent.toFixed(1)}%</td>
+                  <td className="p-4 text-right text-sm text-gray-300">{s.mem_utilization_percent.toFixed(1)}%</td>
+                  <td className={`p-4 text-right text-sm ${s.run_as_root_pods > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>{s.run_as_root_pods}</td>
+                  <td className={`p-4 text-right text-sm ${s.latest_tag_pods > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>{s.latest_tag_pods}</td>
+                  <td className="p-4 text-right">
+                    <Link
+                      to={`/details/${id}/snapshots/${snapshot.id}`}
+                      className="text-sm text-cyan-400 hover:text-cyan-300 font-medium transition-colors"
+                    >
+                      Open
+                    </Link>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
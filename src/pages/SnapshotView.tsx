@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, GitCompare, History } from 'lucide-react';
+import { formatAge } from '../lib/health';
+import { useClusterById, useSnapshot, useSnapshots } from '../hooks/useApi';
+import { useNow } from '../hooks/useNow';
+import { useOpenCluster } from '../hooks/useOpenCluster';
+import ErrorPanel from '../components/ErrorPanel';
+import SnapshotTabs, { SnapshotTabBar } from '../components/SnapshotTabs';
+import type { SnapshotTab } from '../components/SnapshotTabs';
+
+// One past snapshot with the same tabs the Details page has for the latest
+export default function SnapshotView() {
+  const { id, snapshotId } = useParams<{ id: string; snapshotId: string }>();
+  const openCluster = useOpenCluster();
+  const { data: cluster } = useClusterById(id);
+  const { data: snapshot, loading, error, refetch } = useSnapshot(id, snapshotId);
+  const { data: history = [] } = useSnapshots(id);
+  const [tab, setTab] = useState<SnapshotTab>('overview');
+  const now = useNow();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="w-8 h-8 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!snapshot) {
+    return <ErrorPanel error={error} title="Couldn't load this snapshot" onRetry={refetch} />;
+  }
+
+  const ordered = [...history].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  const index = ordered.findIndex((s) => s.id === snapshot.id);
+  const older = index > 0 ? ordered[index - 1] : null;
+  const newer = index >= 0 && index < ordered.length - 1 ? ordered[index + 1] : null;
+  const takenAt = Date.parse(snapshot.created_at);
+
+  return (
+    <div>
+      <Link to={`/details/${id}/snapshots`} className="flex items-center gap-2 text-gray-400 hover:text-white transition-colors mb-6 text-sm w-fit">
+        <ArrowLeft className="w-4 h-4" />
+        Snapshot History
+      </Link>
+
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">{cluster?.name ?? 'Snapshot'}</h1>
+          <p className="text-sm text-gray-400 mt-1">
+            As of {new Date(takenAt).toLocaleString()} ({formatAge(now - takenAt)})
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {older && (
+            <Link
+              to={`/details/${id}/snapshots/diff?from=${older.id}&to=${snapshot.id}`}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-cyan-400 hover:text-cyan-300 transition-colors"
+            >
+              <GitCompare className="w-4 h-4" />
+              What changed
+            </Link>
+          )}
+          <SnapshotLink to={older && `/details/${id}/snapshots/${older.id}`}>
+            <ChevronLeft className="w-4 h-4" />
+            Older
+          </SnapshotLink>
+          <SnapshotLink to={newer && `/details/${id}/snapshots/${newer.id}`}>
+            Newer
+            <ChevronRight className="w-4 h-4" />
+          </SnapshotLink>
+        </div>
+      </div>
+
+      {newer && (
+        <div className="mb-6 flex items-center gap-3 text-sm rounded-lg px-4 py-3 border bg-cyan-500/5 border-cyan-500/20 text-cyan-300">
+          <History className="w-4 h-4 shrink-0" />
+          You are looking at a past snapshot.
+          <button onClick={() => id && openCluster(id)} className="ml-auto font-medium hover:underline">
+            Back to latest
+          </button>
+        </div>
+      )}
+
+      <SnapshotTabBar snapshot={snapshot} tab={tab} onChange={setTab} />
+      <SnapshotTabs snapshot={snapshot} tab={tab} pinned />
+    </div>
+  );
+}
+
+function SnapshotLink({ to, children }: { to: string | null; children: React.ReactNode }) {
+  const className = 'flex items-center gap-1 px-3 py-2 rounded-lg text-sm border border-white/10 transition-colors';
+  if (!to) {
+    return <span className={`${className} text-gray-600`}>{children}</span>;
+  }
+  return (
+    <Link to={to} className={`${className} text-gray-300 hover:text-white hover:border-white/20`}>
+      {children}
+    </Link>
+  );
+}
@@ -1,19 +1,12 @@
-import { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { Clock, Server, Boxes, ShieldAlert } from 'lucide-react';
 import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
-import { api } from '../lib/api';
-import type { TimelinePoint } from '../lib/api';
+import { useTimeline } from '../hooks/useApi';
+import ErrorPanel from '../components/ErrorPanel';
 
 export default function Timeline() {
   const { id } = useParams<{ id: string }>();
-  const [data, setData] = useState<TimelinePoint[]>([]);
-  const [loading, setLoading] = useState(true);
-
-  useEffect(() => {
-    if (!id) return;
-    api.getTimeline(id).then(setData).catch(() => []).finally(() => setLoading(false));
-  }, [id]);
+  const { data = [], loading, error, refetch } = useTimeline(id);
 
   if (loading) {
     return (
@@ -23,6 +16,10 @@ export default function Timeline() {
     );
   }
 
+  if (error && data.length === 0) {
+    return <ErrorPanel error={error} title="Couldn't load timeline" onRetry={refetch} />;
+  }
+
   if (data.length === 0) {
     return (
       <div className="bg-surface-800 border border-white/5 rounded-xl p-12 text-center">